@@ -0,0 +1,108 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { Plugin, ResolvedConfig } from 'vite';
+import { MOOD_IDS } from '../src/data/moods/moodRegistry';
+import { CATALOG_FILE_REGEX, formatCatalogFileErrors, loadCatalogFiles } from '../src/utils/catalogLoader';
+
+export const CATALOG_DIR = fileURLToPath(new URL('../src/data/recipes/catalog', import.meta.url));
+
+const VIRTUAL_ID = 'virtual:recipe-catalog';
+const RESOLVED_VIRTUAL_ID = `\0${VIRTUAL_ID}`;
+const DEV_PREFIX = '__recipe-catalog/';
+
+// Every recipe file under the catalog folder, keyed by "<mood>/<file>"
+export const readCatalogFiles = (dir: string = CATALOG_DIR): Record<string, string> => {
+  const files: Record<string, string> = {};
+  readdirSync(dir, { recursive: true, encoding: 'utf8' })
+    .map(file => file.split(path.sep).join('/'))
+    .filter(file => CATALOG_FILE_REGEX.test(file))
+    .forEach(file => {
+      files[file] = readFileSync(path.join(dir, file), 'utf8');
+    });
+  return files;
+};
+
+export const readCatalog = (dir: string = CATALOG_DIR) => loadCatalogFiles(readCatalogFiles(dir), MOOD_IDS);
+
+// Validates the recipe files on every build and serves each mood as its own JSON asset,
+// fetched by the app the first time that mood is needed. The app imports
+// 'virtual:recipe-catalog' for the mood -> asset URL map and the recipe id -> mood index.
+export const recipeCatalog = (): Plugin => {
+  let config: ResolvedConfig;
+
+  const recipeMoods = (catalog: Record<string, { id: string }[]>) =>
+    Object.fromEntries(Object.entries(catalog).flatMap(([mood, recipes]) => recipes.map(recipe => [recipe.id, mood])));
+
+  return {
+    name: 'recipe-catalog',
+
+    configResolved(resolved) {
+      config = resolved;
+    },
+
+    resolveId(id) {
+      return id === VIRTUAL_ID ? RESOLVED_VIRTUAL_ID : null;
+    },
+
+    load(id) {
+      if (id !== RESOLVED_VIRTUAL_ID) {
+        return null;
+      }
+      const files = readCatalogFiles();
+      Object.keys(files).forEach(file => this.addWatchFile(path.join(CATALOG_DIR, file)));
+
+      const { catalog, errors } = loadCatalogFiles(files, MOOD_IDS);
+      if (errors.length) {
+        this.error(formatCatalogFileErrors(errors));
+      }
+      const moods = Object.keys(catalog);
+
+      // The dev server reads the files on request (see configureServer) so edits show up on reload
+      const urls = config.command === 'serve'
+        ? moods.map(mood => JSON.stringify(`${config.base}${DEV_PREFIX}${mood}.json`))
+        : moods.map(mood => {
+          const referenceId = this.emitFile({
+            type: 'asset',
+            name: `recipes-${mood}.json`,
+            source: JSON.stringify(catalog[mood]),
+          });
+          return `import.meta.ROLLUP_FILE_URL_${referenceId}`;
+        });
+
+      return [
+        `export const moodFiles = {${moods.map((mood, index) => `\n  ${JSON.stringify(mood)}: ${urls[index]},`).join('')}\n};`,
+        `export const recipeMoods = ${JSON.stringify(recipeMoods(catalog))};`,
+      ].join('\n');
+    },
+
+    configureServer(server) {
+      const reload = (file: string) => {
+        if (!file.startsWith(CATALOG_DIR)) {
+          return;
+        }
+        const module = server.moduleGraph.getModuleById(RESOLVED_VIRTUAL_ID);
+        if (module) {
+          server.moduleGraph.invalidateModule(module);
+        }
+        server.ws.send({ type: 'full-reload' });
+      };
+      server.watcher.add(CATALOG_DIR);
+      server.watcher.on('add', reload);
+      server.watcher.on('change', reload);
+      server.watcher.on('unlink', reload);
+
+      server.middlewares.use(`${config.base}${DEV_PREFIX}`, (req, res) => {
+        const mood = decodeURIComponent((req.url || '').replace(/^\//, '').replace(/\.json(\?.*)?$/, ''));
+        const { catalog, errors } = readCatalog();
+        if (errors.length) {
+          res.statusCode = 500;
+          res.end(formatCatalogFileErrors(errors));
+          return;
+        }
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(catalog[mood] || []));
+      });
+    },
+  };
+};
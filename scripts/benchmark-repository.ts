@@ -0,0 +1,152 @@
+// Compares the indexed recipe repository with the linear scans it replaced, on the real
+// catalog and on synthetic catalogs built by remixing it (1k and 10k recipes by default).
+// Usage: npm run bench:repository -- [catalog sizes...]
+import { performance } from 'node:perf_hooks';
+import { readCatalog } from '../plugins/recipeCatalog';
+import { MOOD_IDS, getMood } from '@/data/moods/moodRegistry';
+import { MoodId, Recipe } from '@/types/recipe';
+import { getRecipeTiming } from '@/utils/durations';
+import { createRecipeRepository } from '@/utils/recipeRepository';
+
+const sizes = process.argv.slice(2).map(Number).filter(size => size > 0);
+const SYNTHETIC_SIZES = sizes.length ? sizes : [1000, 10000];
+const QUERIES = ['chicken', 'chocolate', 'soup', 'spicy', 'garlic', 'quick', 'vegan', 'rice', 'zzz-no-match', 'a'];
+
+// Seeded so every run benchmarks the same catalog
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const buildSyntheticCatalog = (source: Recipe[], size: number): Recipe[] => {
+  const random = createRandom(size);
+  const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+  const allTags = Array.from(new Set(source.flatMap(recipe => recipe.tags)));
+
+  return Array.from({ length: size }, (_, index) => {
+    const base = pick(source);
+    return {
+      ...base,
+      id: `${base.id}-${index}`,
+      name: `${base.name} #${index}`,
+      mood: pick(MOOD_IDS),
+      tags: [...base.tags.slice(0, 2), pick(allTags), `batch-${index % 250}`],
+      ingredients: [...base.ingredients, ...pick(source).ingredients.slice(0, 2)],
+    };
+  });
+};
+
+// The recipeOperations functions as they were before the repository
+const createLinearOperations = (catalog: Recipe[]) => {
+  const getAllRecipes = () => [...catalog];
+  const getRecipeById = (id: string) => getAllRecipes().find(recipe => recipe.id === id) || null;
+  return {
+    getRecipeById,
+    getRecipesByMood: (moodId: MoodId) => {
+      const allRecipes = getAllRecipes();
+      const tagged = allRecipes.filter(recipe => recipe.mood === moodId);
+      const { maxTotalMinutes } = getMood(moodId);
+      if (maxTotalMinutes === undefined) {
+        return tagged;
+      }
+      const quick = allRecipes
+        .filter(recipe => recipe.mood !== moodId && getRecipeTiming(recipe).totalMinutes <= maxTotalMinutes)
+        .sort((a, b) => getRecipeTiming(a).totalMinutes - getRecipeTiming(b).totalMinutes);
+      return [...tagged, ...quick];
+    },
+    searchRecipes: (query: string) => {
+      const searchTerm = query.toLowerCase();
+      return getAllRecipes().filter(recipe =>
+        recipe.name.toLowerCase().includes(searchTerm) ||
+        recipe.description.toLowerCase().includes(searchTerm) ||
+        recipe.ingredients.some(ingredient => ingredient.toLowerCase().includes(searchTerm)) ||
+        recipe.tags.some(tag => tag.toLowerCase().includes(searchTerm))
+      );
+    },
+    getSimilarRecipes: (recipeId: string, limit: number = 3) => {
+      const targetRecipe = getRecipeById(recipeId);
+      if (!targetRecipe) {
+        return [];
+      }
+      return getAllRecipes()
+        .filter(recipe => recipe.id !== recipeId)
+        .sort((a, b) => {
+          const aTagMatches = a.tags.filter(tag => targetRecipe.tags.includes(tag)).length;
+          const bTagMatches = b.tags.filter(tag => targetRecipe.tags.includes(tag)).length;
+          return bTagMatches - aTagMatches;
+        })
+        .slice(0, limit);
+    },
+  };
+};
+
+// Average milliseconds per call, stopping early once a run has taken a couple of seconds
+const timePerCall = (calls: number, run: (call: number) => unknown): number => {
+  const start = performance.now();
+  let call = 0;
+  while (call < calls) {
+    run(call++);
+    if (performance.now() - start > 2000) break;
+  }
+  return (performance.now() - start) / call;
+};
+
+const formatMs = (ms: number) => (ms < 0.01 ? `${(ms * 1000).toFixed(2)} µs` : `${ms.toFixed(2)} ms`);
+
+const benchmark = (label: string, catalog: Recipe[]) => {
+  const ids = catalog.map(recipe => recipe.id);
+  const linear = createLinearOperations(catalog);
+
+  const buildStart = performance.now();
+  const repository = createRecipeRepository(catalog);
+  const buildMs = performance.now() - buildStart;
+
+  // The search index is built by the first search
+  const indexStart = performance.now();
+  repository.search('warm up');
+  const indexMs = performance.now() - indexStart;
+
+  // ...and the similarity index by the first similar-recipes lookup, which also works out
+  // that recipe's nearest neighbours
+  const similarityStart = performance.now();
+  repository.getSimilar(ids[0]);
+  const similarityMs = performance.now() - similarityStart;
+
+  const linearSearchMs = timePerCall(QUERIES.length, call => linear.searchRecipes(QUERIES[call]));
+
+  const linearMoodMs = timePerCall(MOOD_IDS.length, call => linear.getRecipesByMood(MOOD_IDS[call]));
+
+  // The last column is false where the two sides don't do the same thing, so a ratio would mislead
+  const rows: [string, number, number, boolean][] = [
+    ['getRecipeById', timePerCall(1000, call => linear.getRecipeById(ids[(call * 7919) % ids.length])),
+      timePerCall(1000, call => repository.getById(ids[(call * 7919) % ids.length])), true],
+    // Each mood once on a fresh repository (which sorts by time for time-based moods), then
+    // again from its cache
+    ['getRecipesByMood (first)', linearMoodMs, timePerCall(MOOD_IDS.length, call => repository.getByMood(MOOD_IDS[call])), true],
+    ['getRecipesByMood (repeat)', linearMoodMs, timePerCall(MOOD_IDS.length, call => repository.getByMood(MOOD_IDS[call])), true],
+    // The old substring filter next to ranked search, each query once, then again from the
+    // repository's cache
+    ['searchRecipes (substring vs ranked)', linearSearchMs, timePerCall(QUERIES.length, call => repository.search(QUERIES[call])), false],
+    ['searchRecipes (ranked, repeat)', linearSearchMs, timePerCall(QUERIES.length, call => repository.search(QUERIES[call])), false],
+    ['getSimilarRecipes', timePerCall(100, call => linear.getSimilarRecipes(ids[(call * 7919) % ids.length])),
+      timePerCall(100, call => repository.getSimilar(ids[(call * 7919) % ids.length])), false],
+  ];
+
+  console.log(`\n${label}: ${catalog.length} recipes (repository built in ${formatMs(buildMs)}, search index in ${formatMs(indexMs)}, first similar recipes in ${formatMs(similarityMs)})`);
+  console.table(Object.fromEntries(rows.map(([name, before, after, comparable]) => [name, {
+    'linear scan': formatMs(before),
+    repository: formatMs(after),
+    speedup: comparable ? `${(before / after).toFixed(before / after < 10 ? 1 : 0)}x` : 'different operation',
+  }])));
+};
+
+const { catalog, errors } = readCatalog();
+if (errors.length) {
+  console.warn(`Skipping ${errors.length} invalid recipe file(s); run npm run validate:catalog for details`);
+}
+const recipes = MOOD_IDS.flatMap(mood => catalog[mood] || []);
+
+benchmark('Real catalog', recipes);
+SYNTHETIC_SIZES.forEach(size => benchmark('Synthetic catalog', buildSyntheticCatalog(recipes, size)));
@@ -0,0 +1,154 @@
+// Scores mood inference against the labelled sentences in src/data/moods/moodTestCorpus.json:
+// overall accuracy, precision and recall per mood, and a confusion matrix. Sentences under
+// "none" name no mood, and should get none. Run it before and after changing inference.
+// Usage: npm run evaluate:mood-inference -- [strategies; default: registry keywords emoji model]
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import * as tf from '@tensorflow/tfjs';
+import { MOOD_IDS, isMoodId } from '@/data/moods/moodRegistry';
+import { MoodInferenceStrategy } from '@/types/moodInference';
+import { MoodId } from '@/types/recipe';
+import { MOOD_MODEL_PATH } from '@/utils/moodFeatures';
+import {
+  createMoodInferenceEngine,
+  createModelStrategy,
+  emojiStrategy,
+  getMoodCandidates,
+  keywordStrategy,
+  registryStrategy,
+} from '@/utils/moodInference';
+import { createMoodClassifier } from '@/utils/tfMoodInfer';
+
+const CORPUS_FILE = path.resolve('src/data/moods/moodTestCorpus.json');
+const TRAINING_CORPUS_FILE = path.resolve('src/data/moods/moodTrainingCorpus.json');
+const MODEL_FILE = path.resolve('public', MOOD_MODEL_PATH);
+
+const NONE = 'none';
+type Label = MoodId | typeof NONE;
+
+// The model as train-mood-model.ts wrote it, read from disk rather than fetched
+const readModel = () => {
+  const { modelTopology, weightsManifest, userDefinedMetadata } = JSON.parse(readFileSync(MODEL_FILE, 'utf8'));
+  const weights = readFileSync(path.join(path.dirname(MODEL_FILE), weightsManifest[0].paths[0]));
+  return tf.loadLayersModel(tf.io.fromMemory({
+    modelTopology,
+    weightSpecs: weightsManifest[0].weights,
+    weightData: weights.buffer.slice(weights.byteOffset, weights.byteOffset + weights.byteLength),
+    userDefinedMetadata,
+  }));
+};
+
+const STRATEGIES: Record<string, () => MoodInferenceStrategy> = {
+  registry: () => registryStrategy,
+  keywords: () => keywordStrategy,
+  emoji: () => emojiStrategy,
+  model: () => createModelStrategy(createMoodClassifier(readModel)),
+};
+
+interface Example {
+  text: string;
+  expected: Label;
+}
+
+const readCorpus = (): Example[] => {
+  const corpus: Record<string, string[]> = JSON.parse(readFileSync(CORPUS_FILE, 'utf8'));
+  const unknown = Object.keys(corpus).filter(label => label !== NONE && !isMoodId(label));
+  if (unknown.length) {
+    throw new Error(`Unknown moods in ${path.relative('.', CORPUS_FILE)}: ${unknown.join(', ')}`);
+  }
+
+  // A sentence the model was trained on says nothing about how it does on new text
+  const training = JSON.parse(readFileSync(TRAINING_CORPUS_FILE, 'utf8')) as Record<string, string[]>;
+  const trained = new Set(Object.values(training).flat().map(text => text.toLowerCase()));
+  const overlap = Object.values(corpus).flat().filter(text => trained.has(text.toLowerCase()));
+  if (overlap.length) {
+    console.warn(`Also in the training corpus, so the model has seen them: ${overlap.join('; ')}`);
+  }
+
+  return [...MOOD_IDS, NONE].flatMap(label => (corpus[label] || []).map(text => ({ text, expected: label as Label })));
+};
+
+const percent = (part: number, whole: number) => (whole ? `${((part / whole) * 100).toFixed(1)}%` : '-');
+
+const main = async () => {
+  await tf.setBackend('cpu');
+  const names = process.argv.slice(2).length ? process.argv.slice(2) : ['registry', 'keywords', 'emoji', 'model'];
+  const unknown = names.filter(name => !STRATEGIES[name]);
+  if (unknown.length) {
+    throw new Error(`Unknown strategies: ${unknown.join(', ')}. Choose from ${Object.keys(STRATEGIES).join(', ')}`);
+  }
+  const engine = createMoodInferenceEngine(names.map(name => STRATEGIES[name]()));
+  const examples = readCorpus();
+
+  const confusion = new Map<Label, Map<Label, number>>();
+  const foundBy = new Map<string, number>();
+  let correct = 0;
+  let confident = 0;
+  let confidentCorrect = 0;
+  let offered = 0;
+  let offeredCorrect = 0;
+  for (const { text, expected } of examples) {
+    const inference = await engine.infer(text);
+    const predicted: Label = inference.mood || NONE;
+    const row = confusion.get(expected) || new Map<Label, number>();
+    row.set(predicted, (row.get(predicted) || 0) + 1);
+    confusion.set(expected, row);
+    inference.strategies.forEach(name => foundBy.set(name, (foundBy.get(name) || 0) + 1));
+    correct += predicted === expected ? 1 : 0;
+
+    // What the user sees: one mood when the engine is confident, a few to choose from when not
+    if (inference.confident) {
+      confident++;
+      confidentCorrect += predicted === expected ? 1 : 0;
+    } else if (inference.mood) {
+      offered++;
+      offeredCorrect += getMoodCandidates(inference).some(({ mood }) => mood === expected) ? 1 : 0;
+    }
+  }
+
+  const count = (expected: Label, predicted: Label) => confusion.get(expected)?.get(predicted) || 0;
+  const labels = ([...MOOD_IDS, NONE] as Label[]).filter(label =>
+    confusion.has(label) || Array.from(confusion.values()).some(row => row.has(label))
+  );
+
+  console.log(`Strategies: ${names.join(', ')}`);
+  console.log(`Accuracy: ${percent(correct, examples.length)} of ${examples.length} sentences`);
+  console.log(`Confident: ${percent(confident, examples.length)} of sentences, ${percent(confidentCorrect, confident)} of them right`);
+  console.log(`Unsure: ${percent(offered, examples.length)} of sentences, right mood among the candidates for ${percent(offeredCorrect, offered)}`);
+  console.log(`Found something: ${names.map(name => `${name} ${foundBy.get(name) || 0}`).join(', ')}\n`);
+
+  const width = Math.max(...labels.map(label => label.length));
+  console.log(`${'mood'.padEnd(width)}  support  precision  recall`);
+  labels.forEach(label => {
+    const truePositives = count(label, label);
+    const actual = labels.reduce((sum, predicted) => sum + count(label, predicted), 0);
+    const predictedTotal = labels.reduce((sum, expected) => sum + count(expected, label), 0);
+    console.log(
+      `${label.padEnd(width)}  ${String(actual).padStart(7)}  ${percent(truePositives, predictedTotal).padStart(9)}  ${percent(truePositives, actual).padStart(6)}`
+    );
+  });
+
+  // Rows are the labelled mood, columns what was inferred; columns are numbered by row
+  console.log('\nConfusion matrix (rows: expected, columns: inferred)');
+  const cell = (value: string) => value.padStart(3);
+  console.log(`${''.padEnd(width + 4)}${labels.map((_, index) => cell(String(index + 1))).join('')}`);
+  labels.forEach((expected, index) => {
+    const cells = labels.map(predicted => cell(count(expected, predicted) ? String(count(expected, predicted)) : '·'));
+    console.log(`${String(index + 1).padStart(2)}. ${expected.padEnd(width)}${cells.join('')}`);
+  });
+
+  const confusions = labels
+    .flatMap(expected => labels.filter(predicted => predicted !== expected).map(predicted => ({ expected, predicted, total: count(expected, predicted) })))
+    .filter(({ total }) => total > 0)
+    .sort((a, b) => b.total - a.total)
+    .slice(0, 10);
+  if (confusions.length) {
+    console.log('\nMost common mistakes');
+    confusions.forEach(({ expected, predicted, total }) => console.log(`  ${expected} read as ${predicted}: ${total}`));
+  }
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
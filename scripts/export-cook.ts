@@ -0,0 +1,34 @@
+// Writes every catalog recipe out as a .cook file, one folder per mood. A .cook file can
+// replace the matching .json in src/data/recipes/catalog.
+// Usage: npm run catalog:to-cook -- [output dir]
+import { mkdirSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { readCatalog } from '../plugins/recipeCatalog';
+import { parseCooklang, serializeCooklang } from '@/utils/cooklang';
+
+const outDir = path.resolve(process.argv[2] || 'cook-export');
+let written = 0;
+const changed: string[] = [];
+
+Object.entries(readCatalog().catalog).forEach(([mood, recipes]) => {
+  const moodDir = path.join(outDir, mood);
+  mkdirSync(moodDir, { recursive: true });
+  recipes.forEach(recipe => {
+    const source = serializeCooklang(recipe);
+    writeFileSync(path.join(moodDir, `${recipe.id}.cook`), source);
+    written++;
+
+    // The .cook file must read back as the same recipe, or swapping it in loses content
+    const readBack = parseCooklang(source);
+    const fields = (Object.keys(recipe) as (keyof typeof recipe)[])
+      .filter(key => JSON.stringify(recipe[key]) !== JSON.stringify(readBack[key]));
+    if (fields.length) changed.push(`${mood}/${recipe.id}.cook: ${fields.join(', ')}`);
+  });
+});
+
+console.log(`Wrote ${written} recipes to ${outDir}`);
+
+if (changed.length) {
+  console.log(`\n${changed.length} file(s) don't read back as the same recipe:\n${changed.join('\n')}`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,178 @@
+// Trains the mood classifier on src/data/moods/moodTrainingCorpus.json and writes it to
+// public/models/mood-classifier, where the app loads it from. Seeded, so the same corpus
+// always gives the same weights. Run it again after editing the corpus.
+// Usage: npm run train:mood-model
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import * as tf from '@tensorflow/tfjs';
+import { MOOD_IDS, getMood, isMoodId } from '@/data/moods/moodRegistry';
+import { MoodModelMetadata } from '@/types/moodClassifier';
+import { MoodId } from '@/types/recipe';
+import { MOOD_MODEL_PATH, encodeMoodFeatures, toMoodFeatures } from '@/utils/moodFeatures';
+
+const CORPUS_FILE = path.resolve('src/data/moods/moodTrainingCorpus.json');
+const MODEL_FILE = path.resolve('public', MOOD_MODEL_PATH);
+const WEIGHTS_FILE = 'weights.bin';
+
+const SEED = 42;
+const HIDDEN_UNITS = 32;
+const DROPOUT = 0.3;
+const EPOCHS = 80;
+const BATCH_SIZE = 32;
+const LEARNING_RATE = 0.01;
+
+// Word pairs seen only once are noise; single words are all kept
+const MIN_PAIR_COUNT = 2;
+
+// Every fifth sentence of each mood is held back to report accuracy on unseen text
+const HOLDOUT_EVERY = 5;
+
+// Same generator as the repository benchmark, so runs are repeatable
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const shuffled = [...items];
+  for (let index = shuffled.length - 1; index > 0; index--) {
+    const swap = Math.floor(random() * (index + 1));
+    [shuffled[index], shuffled[swap]] = [shuffled[swap], shuffled[index]];
+  }
+  return shuffled;
+};
+
+interface Example {
+  text: string;
+  mood: MoodId;
+  features: string[];
+}
+
+const readCorpus = (): Example[] => {
+  const corpus: Record<string, string[]> = JSON.parse(readFileSync(CORPUS_FILE, 'utf8'));
+  const unknown = Object.keys(corpus).filter(mood => !isMoodId(mood));
+  if (unknown.length) {
+    throw new Error(`Unknown moods in ${path.relative('.', CORPUS_FILE)}: ${unknown.join(', ')}`);
+  }
+  const missing = MOOD_IDS.filter(mood => !corpus[mood]?.length);
+  if (missing.length) {
+    console.warn(`No training sentences for ${missing.join(', ')}; the model will never predict them`);
+  }
+  return MOOD_IDS.flatMap(mood => (corpus[mood] || []).map(text => ({ text, mood, features: toMoodFeatures(text) })));
+};
+
+// The registry's own words for each mood ("snug", "Seeking warmth and comfort") are
+// always trained on, whatever is held out
+const registryExamples = (): Example[] =>
+  MOOD_IDS.flatMap(mood => {
+    const { name, description, aliases } = getMood(mood);
+    return [name, description, ...aliases].map(text => ({ text, mood, features: toMoodFeatures(text) }));
+  });
+
+const buildVocabulary = (examples: Example[]): string[] => {
+  const counts = new Map<string, number>();
+  examples.forEach(({ features }) => new Set(features).forEach(feature => counts.set(feature, (counts.get(feature) || 0) + 1)));
+  return Array.from(counts.entries())
+    .filter(([feature, count]) => !feature.includes(' ') || count >= MIN_PAIR_COUNT)
+    .map(([feature]) => feature)
+    .sort();
+};
+
+const toTensors = (examples: Example[], vocabulary: Map<string, number>) => {
+  const inputs = new Float32Array(examples.length * vocabulary.size);
+  examples.forEach(({ features }, row) => inputs.set(encodeMoodFeatures(features, vocabulary), row * vocabulary.size));
+  return {
+    xs: tf.tensor2d(inputs, [examples.length, vocabulary.size]),
+    ys: tf.oneHot(tf.tensor1d(examples.map(({ mood }) => MOOD_IDS.indexOf(mood)), 'int32'), MOOD_IDS.length),
+  };
+};
+
+// A bag of words into one small hidden layer, then a probability per mood
+const createModel = (inputSize: number) => {
+  const model = tf.sequential();
+  model.add(tf.layers.dense({
+    inputShape: [inputSize],
+    units: HIDDEN_UNITS,
+    activation: 'relu',
+    kernelInitializer: tf.initializers.glorotUniform({ seed: SEED }),
+  }));
+  model.add(tf.layers.dropout({ rate: DROPOUT, seed: SEED }));
+  model.add(tf.layers.dense({
+    units: MOOD_IDS.length,
+    activation: 'softmax',
+    kernelInitializer: tf.initializers.glorotUniform({ seed: SEED + 1 }),
+  }));
+  model.compile({ optimizer: tf.train.adam(LEARNING_RATE), loss: 'categoricalCrossentropy', metrics: ['accuracy'] });
+  return model;
+};
+
+const train = async (examples: Example[], vocabulary: Map<string, number>) => {
+  const model = createModel(vocabulary.size);
+  const { xs, ys } = toTensors(shuffle(examples, createRandom(SEED)), vocabulary);
+  await model.fit(xs, ys, { epochs: EPOCHS, batchSize: BATCH_SIZE, shuffle: false, verbose: 0 });
+  tf.dispose([xs, ys]);
+  return model;
+};
+
+const accuracy = (model: tf.LayersModel, examples: Example[], vocabulary: Map<string, number>) => {
+  const { xs, ys } = toTensors(examples, vocabulary);
+  const correct = tf.tidy(() => (model.predict(xs) as tf.Tensor).argMax(1).equal(ys.argMax(1)).sum().dataSync()[0]);
+  tf.dispose([xs, ys]);
+  return correct / examples.length;
+};
+
+// model.json and a single weights file, the layout tf.loadLayersModel fetches over HTTP
+const saveModel = async (model: tf.LayersModel, metadata: MoodModelMetadata) => {
+  model.setUserDefinedMetadata(metadata);
+  await model.save(tf.io.withSaveHandler(async artifacts => {
+    mkdirSync(path.dirname(MODEL_FILE), { recursive: true });
+    const weights = tf.io.CompositeArrayBuffer.join(artifacts.weightData);
+    writeFileSync(path.join(path.dirname(MODEL_FILE), WEIGHTS_FILE), Buffer.from(weights));
+    writeFileSync(MODEL_FILE, JSON.stringify({
+      format: artifacts.format,
+      generatedBy: artifacts.generatedBy,
+      convertedBy: 'scripts/train-mood-model.ts',
+      modelTopology: artifacts.modelTopology,
+      weightsManifest: [{ paths: [WEIGHTS_FILE], weights: artifacts.weightSpecs }],
+      userDefinedMetadata: artifacts.userDefinedMetadata,
+    }));
+    return { modelArtifactsInfo: { dateSaved: new Date(), modelTopologyType: 'JSON' as const } };
+  }));
+};
+
+const main = async () => {
+  await tf.setBackend('cpu');
+  const examples = readCorpus();
+  const alwaysTrained = registryExamples();
+
+  // First, how well a model does on sentences it hasn't seen...
+  const byMood = new Map<MoodId, number>();
+  const isHeldOut = ({ mood }: Example) => {
+    const seen = (byMood.get(mood) || 0) + 1;
+    byMood.set(mood, seen);
+    return seen % HOLDOUT_EVERY === 0;
+  };
+  const heldOut = examples.map(isHeldOut);
+  const trainingSet = [...examples.filter((_, index) => !heldOut[index]), ...alwaysTrained];
+  const testSet = examples.filter((_, index) => heldOut[index]);
+  const trialVocabulary = new Map(buildVocabulary(trainingSet).map((feature, index) => [feature, index]));
+  const trial = await train(trainingSet, trialVocabulary);
+  console.log(`Held-out accuracy: ${(accuracy(trial, testSet, trialVocabulary) * 100).toFixed(1)}% of ${testSet.length} sentences`);
+  trial.dispose();
+
+  // ...then the model that ships, trained on everything
+  const vocabulary = buildVocabulary([...examples, ...alwaysTrained]);
+  const vocabularyIndex = new Map(vocabulary.map((feature, index) => [feature, index]));
+  const model = await train([...examples, ...alwaysTrained], vocabularyIndex);
+  console.log(`Training accuracy: ${(accuracy(model, examples, vocabularyIndex) * 100).toFixed(1)}% of ${examples.length} sentences`);
+
+  await saveModel(model, { vocabulary, labels: MOOD_IDS });
+  console.log(`Wrote ${path.relative('.', MODEL_FILE)} (${vocabulary.length} features, ${MOOD_IDS.length} moods)`);
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,21 @@
+// Checks the recipe files in src/data/recipes/catalog for integrity problems.
+// Usage: npm run validate:catalog
+import { readCatalog } from '../plugins/recipeCatalog';
+import { moods } from '@/data/moods/moodRegistry';
+import { validateCatalog, formatCatalogReport } from '@/utils/catalogValidator';
+import { formatCatalogFileErrors } from '@/utils/catalogLoader';
+
+const { catalog, errors } = readCatalog();
+
+// Files that don't parse or don't match the schema never make it into the catalog
+if (errors.length) {
+  console.log(formatCatalogFileErrors(errors), '\n');
+}
+
+const report = validateCatalog({ catalog, moods });
+
+console.log(formatCatalogReport(report));
+
+if (errors.length || report.issues.some(issue => issue.severity === 'error')) {
+  process.exitCode = 1;
+}
@@ -8,11 +8,14 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import Index from "./pages/Index";
 import Recipe from "./pages/Recipe";
 import Favorites from "./pages/Favorites";
+import ImportRecipe from "./pages/ImportRecipe";
+import Search from "./pages/Search";
+import Mood from "./pages/Mood";
 import NotFound from "./pages/NotFound";
 import Navbar from "./components/ui/Navbar";
 import ChatBot from "./components/ui/ChatBot";
-import { tfInferMoodFromSentence, getMoodMeta } from "@/utils/tfMoodInfer";
-import { getRecipesByMood, searchRecipes } from "@/utils/recipeOperations";
+import { SEARCH_PATH, toSearchPath } from "@/utils/searchInterpretation";
+import { MOOD_ROUTE } from "@/utils/moodPages";
 
 const queryClient = new QueryClient();
 
@@ -49,43 +52,36 @@ const AppContent = () => {
     setIsDarkMode(prev => !prev);
   };
 
-  const handleSearch = async (query: string) => {
-    // Navigate to home page first
-    navigate('/');
-
-    // Attempt mood inference
-    const inferredMood = await tfInferMoodFromSentence(query.trim());
-    if (inferredMood) {
-      const moodMeta = getMoodMeta(inferredMood);
-      if (moodMeta) {
-        // If mood is inferred, use mood-based recipes
-        const foundRecipes = getRecipesByMood(moodMeta.id);
-        // You might want to pass these recipes to the Index page via state or context
-        return;
-      }
+  // The search page works out whether the query is a mood or words to look for
+  const handleSearch = (query: string) => {
+    if (query.trim()) {
+      navigate(toSearchPath(query.trim()));
     }
-
-    // Fallback to direct recipe search
-    const foundRecipes = searchRecipes(query.trim());
-    // You might want to pass these recipes to the Index page via state or context
   };
 
   return (
     <>
       <Toaster />
       <Sonner />
-      <Navbar 
-        toggleDarkMode={toggleDarkMode} 
-        isDarkMode={isDarkMode} 
-        onSearch={handleSearch}
-      />
+      <div className="print:hidden">
+        <Navbar 
+          toggleDarkMode={toggleDarkMode} 
+          isDarkMode={isDarkMode} 
+          onSearch={handleSearch}
+        />
+      </div>
       <Routes>
         <Route path="/" element={<Index />} />
+        <Route path={SEARCH_PATH} element={<Search />} />
+        <Route path={MOOD_ROUTE} element={<Mood />} />
         <Route path="/recipe/:id" element={<Recipe />} />
         <Route path="/favorites" element={<Favorites />} />
+        <Route path="/import" element={<ImportRecipe />} />
         <Route path="*" element={<NotFound />} />
       </Routes>
-      <ChatBot currentMood={currentMood} />
+      <div className="print:hidden">
+        <ChatBot currentMood={currentMood} />
+      </div>
     </>
   );
 };
@@ -1,59 +1,289 @@
 
-import { useState } from 'react';
-import { Search, Sparkles } from 'lucide-react';
-import { Input } from "@/components/ui/input";
+import { useEffect, useId, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Command as CommandPrimitive } from 'cmdk';
+import { AlertCircle, Carrot, ChefHat, History, Search, Smile, Sparkles, Tag, X } from 'lucide-react';
+import { Command, CommandGroup, CommandItem, CommandList, CommandSeparator } from "@/components/ui/command";
+import { Mood, MoodId } from '@/types/recipe';
+import { SearchSuggestion, SearchSuggestionType } from '@/types/search';
+import { getMood } from '@/data/moods/moodRegistry';
+import { loadAllRecipes } from '@/data/recipes/index';
+import { useRecentSearches } from '@/hooks/use-recent-searches';
+import { getSearchSuggestions } from '@/utils/recipeOperations';
+import { addRecentSearch, removeRecentSearch } from '@/utils/recentSearches';
+import { parseSearchQuery } from '@/utils/searchQuery';
 
 interface SearchBarProps {
   onSearch: (query: string) => void;
+  onMoodSelect?: (mood: Mood) => void; // Mood suggestions fall back to a mood: filter without it
+  initialQuery?: string;
   showSearchButton?: boolean;
   placeholder?: string;
   buttonClassName?: string;
 }
 
-const SearchBar = ({ onSearch, showSearchButton = false, placeholder = "Search recipes...", buttonClassName = "" }: SearchBarProps) => {
-  const [query, setQuery] = useState('');
+const SUGGESTION_DELAY_MS = 150;
+const RECENT_MATCH_LIMIT = 3;
+const SEARCH_ITEM = 'search';
+
+const SUGGESTION_GROUPS: Record<SearchSuggestionType, { heading: string; icon: typeof Search; action: string }> = {
+  recipe: { heading: 'Recipes', icon: ChefHat, action: 'Open' },
+  ingredient: { heading: 'Ingredients', icon: Carrot, action: 'Recipes with it' },
+  tag: { heading: 'Tags', icon: Tag, action: 'Filter by tag' },
+  mood: { heading: 'Moods', icon: Smile, action: 'Pick mood' },
+};
+
+// "olive oil" has to be quoted to stay a single filter value
+const quoteValue = (value: string) => (/\s/.test(value) ? `"${value}"` : value);
+
+const HighlightedText = ({ text, highlights }: { text: string; highlights: [number, number][] }) => {
+  const parts: JSX.Element[] = [];
+  let position = 0;
+  highlights.forEach(([start, end]) => {
+    parts.push(<span key={`text-${start}`}>{text.slice(position, start)}</span>);
+    parts.push(<mark key={`mark-${start}`} className="bg-transparent font-semibold text-purple-600 dark:text-purple-400">{text.slice(start, end)}</mark>);
+    position = end;
+  });
+  parts.push(<span key="rest">{text.slice(position)}</span>);
+  return <span className="truncate">{parts}</span>;
+};
+
+const SearchBar = ({ onSearch, onMoodSelect, initialQuery = '', showSearchButton = false, placeholder = "Search recipes...", buttonClassName = "" }: SearchBarProps) => {
+  const [query, setQuery] = useState(initialQuery);
+  const [open, setOpen] = useState(false);
+  const [activeItem, setActiveItem] = useState('');
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const recentSearches = useRecentSearches();
+  const navigate = useNavigate();
+  const hintsId = useId();
+
+  // Filter syntax problems ("mood:cosy", "time:<abc") are pointed out as the user types
+  const { errors } = useMemo(() => parseSearchQuery(query), [query]);
+
+  // Suggestions wait for a pause in typing, and cover every mood, so the first one
+  // fetches the whole catalog
+  useEffect(() => {
+    if (!query.trim()) {
+      setSuggestions([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      loadAllRecipes()
+        .catch(() => undefined)
+        .then(() => {
+          if (!cancelled) {
+            setSuggestions(getSearchSuggestions(query));
+          }
+        });
+    }, SUGGESTION_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  // Everything while the box is empty, otherwise just the few that contain the query
+  const trimmedQuery = query.trim().toLowerCase();
+  const recentMatches = trimmedQuery
+    ? recentSearches.filter(recent => recent.toLowerCase().includes(trimmedQuery) && recent.toLowerCase() !== trimmedQuery).slice(0, RECENT_MATCH_LIMIT)
+    : recentSearches;
+  const suggestionGroups = (Object.keys(SUGGESTION_GROUPS) as SearchSuggestionType[])
+    .map(type => ({ type, items: suggestions.filter(suggestion => suggestion.type === type) }))
+    .filter(group => group.items.length > 0);
+  const showDropdown = open && (recentMatches.length > 0 || suggestionGroups.length > 0);
+
+  const updateQuery = (text: string) => {
+    setQuery(text);
+    setOpen(true);
+    // Enter runs the typed text until the user arrows down to a suggestion
+    setActiveItem(text.trim() ? SEARCH_ITEM : '');
+  };
+
+  const runSearch = (text: string) => {
+    setQuery(text);
+    setOpen(false);
+    addRecentSearch(text);
+    onSearch(text);
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSearch(query);
+    runSearch(query);
+  };
+
+  const handleSuggestion = (suggestion: SearchSuggestion) => {
+    setOpen(false);
+    switch (suggestion.type) {
+      case 'recipe':
+        navigate(`/recipe/${suggestion.value}`);
+        break;
+      case 'ingredient':
+        runSearch(`ingredient:${quoteValue(suggestion.value)}`);
+        break;
+      case 'tag':
+        runSearch(`tag:${quoteValue(suggestion.value)}`);
+        break;
+      case 'mood':
+        if (onMoodSelect) {
+          setQuery('');
+          onMoodSelect(getMood(suggestion.value as MoodId));
+        } else {
+          runSearch(`mood:${suggestion.value}`);
+        }
+        break;
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      setOpen(false);
+    } else if (e.key === 'Enter' && (!showDropdown || !activeItem)) {
+      // Nothing highlighted: submit as usual instead of letting the list swallow the key
+      e.preventDefault();
+      runSearch(query);
+    }
+  };
+
+  const recentHighlights = (recent: string): [number, number][] => {
+    const start = trimmedQuery ? recent.toLowerCase().indexOf(trimmedQuery) : -1;
+    return start >= 0 ? [[start, start + trimmedQuery.length]] : [];
   };
 
   return (
-    <form onSubmit={handleSubmit} className="relative flex w-full items-center group">
-      <div className="relative w-full">
-        <Search
-          className="absolute left-4 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400 group-hover:text-purple-500 transition-colors duration-300"
-        />
-        <Sparkles
-          className="absolute right-4 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400 group-hover:text-yellow-400 transition-colors duration-300 animate-pulse"
-        />
-        <Input
-          type="search"
-          placeholder={placeholder}
-          value={query}
-          onChange={(e) => setQuery(e.target.value)}
-          className="pl-12 pr-12 w-full rounded-full bg-white/90 backdrop-blur-sm text-base shadow-lg border-2 border-white/30 py-6 hover:shadow-xl focus:shadow-xl transition-all duration-300 hover:bg-white focus:bg-white group-hover:border-purple-300 focus:border-purple-400"
-        />
-      </div>
-      {showSearchButton && (
-        <button 
-          type="submit"
-          className={`ml-[-40px] px-8 py-3 rounded-full text-white font-bold text-base transition-all duration-300 hover:scale-105 active:scale-95 shadow-lg hover:shadow-xl relative overflow-hidden ${buttonClassName}`}
-          style={{
-            background: "linear-gradient(90deg, #ff6b6b 0%, #ee5a24 25%, #f0932b 50%, #6c5ce7 75%, #a29bfe 100%)",
-            backgroundSize: '200% 200%',
-            animation: 'gradient-bg 3s ease infinite'
-          }}
-        >
-          <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent translate-x-[-100%] animate-[slide_2s_infinite] skew-x-[-25deg]"></div>
-          <span className="relative z-10 flex items-center gap-2">
-            <Search className="w-4 h-4" />
-            Search
-            <Sparkles className="w-4 h-4 animate-pulse" />
-          </span>
-        </button>
+    <Command
+      shouldFilter={false}
+      value={activeItem}
+      onValueChange={setActiveItem}
+      className="h-auto w-full overflow-visible rounded-none bg-transparent text-current"
+    >
+      <form onSubmit={handleSubmit} className="relative flex w-full items-center group">
+        <div className="relative w-full">
+          <Search
+            className="absolute left-4 top-1/2 -translate-y-1/2 h-5 w-5 text-gray-400 group-hover:text-purple-500 transition-colors duration-300"
+          />
+          <Sparkles
+            className="absolute right-4 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400 group-hover:text-yellow-400 transition-colors duration-300 animate-pulse"
+          />
+          <CommandPrimitive.Input
+            placeholder={placeholder}
+            value={query}
+            onValueChange={updateQuery}
+            onFocus={() => setOpen(true)}
+            onBlur={() => setOpen(false)}
+            onKeyDown={handleKeyDown}
+            aria-invalid={errors.length > 0}
+            aria-describedby={errors.length > 0 ? hintsId : undefined}
+            className="flex h-10 w-full border border-input px-3 ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 pl-12 pr-12 rounded-full bg-white/90 backdrop-blur-sm text-base shadow-lg border-2 border-white/30 py-6 hover:shadow-xl focus:shadow-xl transition-all duration-300 hover:bg-white focus:bg-white group-hover:border-purple-300 focus:border-purple-400"
+          />
+
+          {showDropdown && (
+            <div
+              className="absolute left-0 right-0 top-full z-50 mt-2 overflow-hidden rounded-2xl border bg-popover text-left text-popover-foreground shadow-xl animate-fade-in"
+              // Keep focus in the input so clicking a suggestion doesn't close the list first
+              onMouseDown={e => e.preventDefault()}
+            >
+              <CommandList className="max-h-[360px]">
+                {query.trim() && (
+                  <CommandGroup>
+                    <CommandItem value={SEARCH_ITEM} onSelect={() => runSearch(query)} className="gap-2">
+                      <Search className="h-4 w-4 shrink-0 text-muted-foreground" />
+                      <span className="truncate">Search for “{query.trim()}”</span>
+                    </CommandItem>
+                  </CommandGroup>
+                )}
+
+                {recentMatches.length > 0 && (
+                  <CommandGroup heading="Recent searches">
+                    {recentMatches.map(recent => (
+                      <CommandItem key={recent} value={`recent:${recent}`} onSelect={() => runSearch(recent)} className="gap-2">
+                        <History className="h-4 w-4 shrink-0 text-muted-foreground" />
+                        <HighlightedText text={recent} highlights={recentHighlights(recent)} />
+                        <button
+                          type="button"
+                          onClick={e => {
+                            e.stopPropagation();
+                            removeRecentSearch(recent);
+                          }}
+                          className="ml-auto rounded p-0.5 text-muted-foreground hover:bg-background hover:text-foreground"
+                          aria-label={`Remove "${recent}" from recent searches`}
+                        >
+                          <X className="h-3.5 w-3.5" />
+                        </button>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                )}
+
+                {suggestionGroups.map(({ type, items }) => {
+                  const { heading, icon: Icon, action } = SUGGESTION_GROUPS[type];
+                  return (
+                    <div key={type}>
+                      <CommandSeparator />
+                      <CommandGroup heading={heading}>
+                        {items.map(suggestion => (
+                          <CommandItem
+                            key={`${type}:${suggestion.value}`}
+                            value={`${type}:${suggestion.value}`}
+                            onSelect={() => handleSuggestion(suggestion)}
+                            className="group/item gap-2"
+                          >
+                            {suggestion.icon
+                              ? <span className="w-4 shrink-0 text-center">{suggestion.icon}</span>
+                              : <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />}
+                            <HighlightedText text={suggestion.label} highlights={suggestion.highlights} />
+                            {suggestion.detail && (
+                              <span className="shrink-0 text-xs text-muted-foreground">{suggestion.detail}</span>
+                            )}
+                            <span className="ml-auto hidden shrink-0 text-xs text-muted-foreground group-data-[selected=true]/item:inline">
+                              {action}
+                            </span>
+                          </CommandItem>
+                        ))}
+                      </CommandGroup>
+                    </div>
+                  );
+                })}
+              </CommandList>
+            </div>
+          )}
+        </div>
+        {showSearchButton && (
+          <button
+            type="submit"
+            className={`ml-[-40px] px-8 py-3 rounded-full text-white font-bold text-base transition-all duration-300 hover:scale-105 active:scale-95 shadow-lg hover:shadow-xl relative overflow-hidden ${buttonClassName}`}
+            style={{
+              background: "linear-gradient(90deg, #ff6b6b 0%, #ee5a24 25%, #f0932b 50%, #6c5ce7 75%, #a29bfe 100%)",
+              backgroundSize: '200% 200%',
+              animation: 'gradient-bg 3s ease infinite'
+            }}
+          >
+            <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent translate-x-[-100%] animate-[slide_2s_infinite] skew-x-[-25deg]"></div>
+            <span className="relative z-10 flex items-center gap-2">
+              <Search className="w-4 h-4" />
+              Search
+              <Sparkles className="w-4 h-4 animate-pulse" />
+            </span>
+          </button>
+        )}
+      </form>
+      {errors.length > 0 && (
+        <ul id={hintsId} className="mt-2 space-y-1 text-left text-sm" aria-live="polite">
+          {errors.map(error => (
+            <li
+              key={`${error.start}-${error.message}`}
+              className="flex items-start gap-2 rounded-lg bg-white/90 px-3 py-1.5 text-amber-700 shadow"
+            >
+              <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+              <span>
+                <code className="font-mono font-semibold">{query.slice(error.start, error.end)}</code>
+                {' '}{error.message}
+              </span>
+            </li>
+          ))}
+        </ul>
       )}
-    </form>
+    </Command>
   );
 };
 
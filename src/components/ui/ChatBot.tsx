@@ -1,13 +1,17 @@
 import { useState, useRef, useEffect } from 'react';
-import { MessageSquare, Send, ChevronUp, X, Mic, Sparkles, Bot, User, Zap, Heart, Star, Chef } from 'lucide-react';
+import { MessageSquare, Send, ChevronUp, X, Mic, Sparkles, Bot, User, Zap, Heart, Star, ChefHat } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Avatar } from '@/components/ui/avatar';
 import { useToast } from '@/hooks/use-toast';
 import { getChatbotResponse } from '@/utils/chatbotResponse';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { moods } from '@/data/moods/moodsList';
+import { MoodId } from '@/types/recipe';
+import { MoodProbability } from '@/types/moodClassifier';
+import { findMood, getMood } from '@/data/moods/moodRegistry';
+import { getMoodCandidates, moodInferenceEngine } from '@/utils/moodInference';
 import { getRecipesByMood } from '@/utils/recipeOperations';
+import { loadAllRecipes } from '@/data/recipes/index';
 
 interface ChatBotProps {
   currentMood: string | null;
@@ -21,6 +25,8 @@ type MessageType = {
   attachment?: string;
   recipes?: { id: string, name: string }[];
   mood?: string | null;
+  moodChoices?: MoodProbability[]; // Asked when the mood of `question` wasn't clear
+  question?: string;
   emotion?: 'happy' | 'excited' | 'helpful' | 'thinking' | 'surprised';
 };
 
@@ -41,7 +47,7 @@ const ChatBot = ({ currentMood }: ChatBotProps) => {
   const [showSuggestions, setShowSuggestions] = useState(true);
   const [voiceSupported, setVoiceSupported] = useState(false);
   const [helpDialogOpen, setHelpDialogOpen] = useState(false);
-  const [botMood, setBotMood] = useState<'happy' | 'excited' | 'helpful' | 'thinking'>('happy');
+  const [botMood, setBotMood] = useState<'happy' | 'excited' | 'helpful' | 'thinking' | 'surprised'>('happy');
   const [chatBackground, setChatBackground] = useState(0);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
@@ -61,36 +67,18 @@ const ChatBot = ({ currentMood }: ChatBotProps) => {
     'bg-gradient-to-br from-yellow-400 via-red-400 to-pink-400'
   ];
 
-  function inferMoodFromInput(text: string): string | null {
-    const lower = text.trim().toLowerCase();
-    for (const mood of moods) {
-      if (lower.includes(mood.name.toLowerCase()) || lower.includes(mood.id.toLowerCase())) return mood.id;
+  // currentMood may be a display name ("Happy") or an id, so resolve it through the registry.
+  // When the message could mean a few moods, the candidates come back instead of a guess.
+  async function readMessageMood(userInput: string): Promise<{ moodId: MoodId | null; choices: MoodProbability[] }> {
+    const selected = currentMood ? findMood(currentMood) : null;
+    if (selected) {
+      return { moodId: selected.id, choices: [] };
     }
-    if (lower.match(/\bhappy|joy|great|awesome|excited|good mood|wonderful\b/)) return "happy";
-    if (lower.match(/\bsad|down|unhappy|depressed|blue|cry|not feeling good|upset\b/)) return "sad";
-    if (lower.match(/\bromantic|love|date night|anniversary\b/)) return "romantic";
-    if (lower.match(/\bcomfort|cozy|relax|relaxing|need warmth|comfort food\b/)) return "comforting";
-    if (lower.match(/\badventure|try new|explore|different|exotic|spontaneous\b/)) return "adventurous";
-    if (lower.match(/\bnostalgic|childhood|memory|like mom|reminds me\b/)) return "nostalgic";
-    if (lower.match(/\benergetic|energy|workout|power|active|boost\b/)) return "energetic";
-    if (lower.match(/\bstress|anxious|overwhelm|busy|no time|pressure\b/)) return "stressed";
-    if (lower.match(/\bparty|celebrate|achievement|special occasion\b/)) return "celebratory";
-    if (lower.match(/\btired|fatigue|sleepy|exhausted|no energy\b/)) return "tired";
-    if (lower.match(/\bindulge|treat|decadent|spoil\b/)) return "indulgent";
-    if (lower.match(/\bmindful|healthy|light|nutritious|diet|balanced\b/)) return "mindful";
-    if (lower.match(/\bsocial|friends|gathering|get together\b/)) return "social";
-    if (lower.match(/\bcreative|artistic|unique|unusual|experimental\b/)) return "creative";
-    if (lower.match(/\bclassic|traditional|heritage|authentic|old fashioned\b/)) return "traditional";
-    if (lower.match(/\brefresh|light meal|fresh\b/)) return "refreshed";
-    if (lower.match(/\bheavy|cheese|mac|ramen|soup|comfort dish\b/)) return "comforting";
-    return null;
-  }
-
-  function getBestMoodId(userInput: string): string {
-    let bestMood = currentMood || inferMoodFromInput(userInput);
-    if (!bestMood) bestMood = "comforting";
-    if (!moods.some((m) => m.id === bestMood)) bestMood = moods[0].id;
-    return bestMood;
+    const inference = await moodInferenceEngine.infer(userInput);
+    if (inference.mood && !inference.confident) {
+      return { moodId: null, choices: getMoodCandidates(inference) };
+    }
+    return { moodId: inference.mood || 'comforting', choices: [] };
   }
 
   function getRandomBotEmotion(): 'happy' | 'excited' | 'helpful' | 'thinking' | 'surprised' {
@@ -135,7 +123,7 @@ const ChatBot = ({ currentMood }: ChatBotProps) => {
     return () => clearInterval(interval);
   }, []);
 
-  const addBotResponse = (text: string, moodId?: string | null) => {
+  const addBotResponse = (text: string, moodId: MoodId | null, question?: { text: string; moodChoices: MoodProbability[] }) => {
     setIsTyping(true);
     setBotMood('thinking');
     
@@ -147,8 +135,7 @@ const ChatBot = ({ currentMood }: ChatBotProps) => {
     };
     setMessages(prev => [...prev, typingMessage]);
 
-    const resolvedMood = moodId ? moodId : getBestMoodId(text);
-    const recipeSuggestions = resolvedMood ? getRecipesByMood(resolvedMood) : [];
+    const recipeSuggestions = moodId ? getRecipesByMood(moodId) : [];
 
     const typingDelay = Math.min(Math.max(text.length * 20, 800), 2000);
 
@@ -165,7 +152,9 @@ const ChatBot = ({ currentMood }: ChatBotProps) => {
                 text,
                 timestamp: new Date(),
                 recipes: recipeSuggestions.map(r => ({ id: r.id, name: r.name })),
-                mood: resolvedMood,
+                mood: moodId,
+                moodChoices: question?.moodChoices,
+                question: question?.text,
                 emotion: newEmotion
               }
             : msg
@@ -174,7 +163,7 @@ const ChatBot = ({ currentMood }: ChatBotProps) => {
     }, typingDelay);
   };
 
-  const handleSendMessage = (e?: React.FormEvent) => {
+  const handleSendMessage = async (e?: React.FormEvent) => {
     if (e) e.preventDefault();
     if (inputValue.trim() === '') return;
     const userMessage = inputValue.trim();
@@ -182,9 +171,14 @@ const ChatBot = ({ currentMood }: ChatBotProps) => {
     setInputValue('');
     setShowSuggestions(false);
 
-    const moodId = getBestMoodId(userMessage);
-    const botResponse = getChatbotResponse(userMessage, moodId);
-    addBotResponse(botResponse, moodId);
+    const { moodId, choices } = await readMessageMood(userMessage);
+    // Replies can suggest a recipe from any mood, so make sure every mood file is here
+    await loadAllRecipes().catch(() => undefined);
+    if (choices.length) {
+      addBotResponse("I'm not quite sure how you're feeling 🤔 Is it one of these?", null, { text: userMessage, moodChoices: choices });
+    } else {
+      addBotResponse(getChatbotResponse(userMessage, moodId), moodId);
+    }
 
     // Add some celebratory effects for certain keywords
     if (userMessage.toLowerCase().includes('thank') || userMessage.toLowerCase().includes('awesome')) {
@@ -196,6 +190,16 @@ const ChatBot = ({ currentMood }: ChatBotProps) => {
     }
   };
 
+  // Answers the original message as if it had named the chosen mood
+  const handleMoodChoice = (question: MessageType, moodId: MoodId) => {
+    const mood = getMood(moodId);
+    setMessages(prev => [
+      ...prev.map(message => (message === question ? { ...message, moodChoices: undefined } : message)),
+      { sender: 'user', text: `${mood.icon} ${mood.name}`, timestamp: new Date() },
+    ]);
+    addBotResponse(getChatbotResponse(question.question || mood.name, moodId), moodId);
+  };
+
   const toggleChat = () => {
     setIsOpen(prev => !prev);
     if (!isOpen) {
@@ -385,6 +389,22 @@ const ChatBot = ({ currentMood }: ChatBotProps) => {
                       {message.sender === 'bot' && message.recipes && message.recipes.length > 0 && (
                         renderRecipeSuggestions(message.recipes, message.mood || '')
                       )}
+                      {message.sender === 'bot' && message.moodChoices && message.moodChoices.length > 0 && (
+                        <div className="mt-3 flex flex-wrap gap-2">
+                          {message.moodChoices.map(({ mood: moodId, probability }) => (
+                            <button
+                              key={moodId}
+                              type="button"
+                              onClick={() => handleMoodChoice(message, moodId)}
+                              disabled={isTyping}
+                              className="text-sm bg-gradient-to-r from-white/20 to-white/10 px-4 py-2 rounded-full hover:from-white/30 hover:to-white/20 transition-all duration-300 text-white border border-white/30 shadow-lg hover:scale-105 backdrop-blur-sm"
+                            >
+                              {getMood(moodId).icon} {getMood(moodId).name}
+                              <span className="ml-2 text-xs text-white/70">{Math.round(probability * 100)}%</span>
+                            </button>
+                          ))}
+                        </div>
+                      )}
                       <span className={`text-xs text-white/50 mt-1 tracking-tight ${message.sender === 'user' ? 'text-right' : 'text-left'}`}>
                         {message.sender === 'user' ? 'You' : 'Chef AI'} • {formatTime(message.timestamp)}
                       </span>
@@ -450,7 +470,7 @@ const ChatBot = ({ currentMood }: ChatBotProps) => {
           <TabsContent value="tips" className="flex-1 overflow-y-auto p-4" style={{ background: 'rgba(255,255,255,0.02)' }}>
             <div className="space-y-4">
               <h3 className="font-bold text-xl text-white flex items-center gap-2">
-                <Chef className="w-6 h-6" />
+                <ChefHat className="w-6 h-6" />
                 Professional Cooking Tips
               </h3>
               {[
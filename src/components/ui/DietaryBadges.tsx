@@ -0,0 +1,94 @@
+import React from 'react';
+import { AlertTriangle, Leaf, ShieldAlert } from 'lucide-react';
+import { Recipe } from '@/types/recipe';
+import { Badge } from '@/components/ui/badge';
+import { ALLERGEN_LABELS, DIET_LABELS, getDietaryProfile } from '@/utils/dietaryClassifier';
+
+interface DietaryBadgesProps {
+  recipe: Recipe;
+  detailed?: boolean; // Recipe page: spell out allergens and the items to double-check
+}
+
+const DietaryBadges = ({ recipe, detailed = false }: DietaryBadgesProps) => {
+  const { allergens, possibleAllergens, diets, review } = getDietaryProfile(recipe);
+  const reviewSummary = review.map(item => `${item.ingredient}: ${item.reason}`).join('\n');
+
+  if (!detailed) {
+    return (
+      <div className="flex flex-wrap gap-1">
+        {diets.map(diet => (
+          <Badge key={diet} variant="outline" className="text-xs border-green-300 text-green-700 dark:border-green-800 dark:text-green-400">
+            <Leaf className="h-3 w-3 mr-1" />
+            {DIET_LABELS[diet]}
+          </Badge>
+        ))}
+        {allergens.length > 0 && (
+          <Badge
+            variant="outline"
+            className="text-xs border-amber-300 text-amber-700 dark:border-amber-800 dark:text-amber-400"
+            title={`Contains ${allergens.map(allergen => ALLERGEN_LABELS[allergen]).join(', ')}`}
+          >
+            <ShieldAlert className="h-3 w-3 mr-1" />
+            {allergens.map(allergen => ALLERGEN_LABELS[allergen]).join(', ')}
+          </Badge>
+        )}
+        {review.length > 0 && (
+          <Badge variant="outline" className="text-xs text-gray-500 dark:text-gray-400" title={reviewSummary}>
+            <AlertTriangle className="h-3 w-3 mr-1" />
+            Check {review.length === 1 ? '1 item' : `${review.length} items`}
+          </Badge>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {diets.length > 0 ? diets.map(diet => (
+          <span key={diet} className="px-3 py-1 rounded-full text-sm bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300 flex items-center">
+            <Leaf className="h-3.5 w-3.5 mr-1" />
+            {DIET_LABELS[diet]}
+          </span>
+        )) : (
+          <span className="text-sm text-gray-500 dark:text-gray-400">Not confirmed for any special diet</span>
+        )}
+      </div>
+
+      {(allergens.length > 0 || possibleAllergens.length > 0) && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <ShieldAlert className="h-4 w-4 text-amber-600" />
+          {allergens.length > 0 && (
+            <span>
+              <span className="font-medium">Contains:</span> {allergens.map(allergen => ALLERGEN_LABELS[allergen]).join(', ')}
+            </span>
+          )}
+          {possibleAllergens.length > 0 && (
+            <span className="text-gray-500 dark:text-gray-400">
+              <span className="font-medium">May contain:</span> {possibleAllergens.map(allergen => ALLERGEN_LABELS[allergen]).join(', ')}
+            </span>
+          )}
+        </div>
+      )}
+
+      {review.length > 0 && (
+        <div className="text-sm bg-amber-50 dark:bg-amber-950/20 p-3 rounded-lg border border-amber-100 dark:border-amber-900/30">
+          <div className="flex items-center font-medium mb-1">
+            <AlertTriangle className="h-4 w-4 mr-2 text-amber-600" />
+            Check these ingredients yourself
+          </div>
+          <ul className="space-y-1 pl-6 list-disc">
+            {review.map((item, index) => (
+              <li key={index}>
+                <span className="font-medium">{item.ingredient}</span>
+                <span className="text-gray-600 dark:text-gray-400"> — {item.reason}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DietaryBadges;
@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react';
+import { SlidersHorizontal, X } from 'lucide-react';
+import { FacetFilters, FacetOption, RecipeFacets } from '@/types/facets';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { Slider } from '@/components/ui/slider';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarSeparator,
+} from '@/components/ui/sidebar';
+import { EMPTY_FACET_FILTERS, hasActiveFacets, toggleFacetValue } from '@/utils/recipeFacets';
+
+interface FacetSidebarProps {
+  facets: RecipeFacets;
+  filters: FacetFilters;
+  resultCount: number;
+  onChange: (filters: FacetFilters) => void;
+}
+
+const COLLAPSED_TAG_COUNT = 10;
+
+interface FacetGroupProps<T> {
+  label: string;
+  options: FacetOption<T>[];
+  onToggle: (value: T) => void;
+}
+
+const FacetGroup = <T extends string | number>({ label, options, onToggle }: FacetGroupProps<T>) => (
+  <SidebarGroup>
+    <SidebarGroupLabel>{label}</SidebarGroupLabel>
+    <SidebarGroupContent>
+      <SidebarMenu>
+        {options.map(option => (
+          <SidebarMenuItem key={option.value}>
+            <SidebarMenuButton
+              size="sm"
+              isActive={option.selected}
+              aria-pressed={option.selected}
+              // Nothing to add, but a selected option can always be turned off
+              disabled={option.count === 0 && !option.selected}
+              onClick={() => onToggle(option.value)}
+            >
+              <span>{option.label}</span>
+            </SidebarMenuButton>
+            <SidebarMenuBadge>{option.count}</SidebarMenuBadge>
+          </SidebarMenuItem>
+        ))}
+      </SidebarMenu>
+    </SidebarGroupContent>
+  </SidebarGroup>
+);
+
+const FacetSidebar = ({ facets, filters, resultCount, onChange }: FacetSidebarProps) => {
+  const isMobile = useIsMobile();
+  const [showAllTags, setShowAllTags] = useState(false);
+  const bounds = facets.calories;
+  const [calorieRange, setCalorieRange] = useState<number[]>([]);
+
+  // The slider moves freely while dragging; the filter (and URL) only change on release
+  useEffect(() => {
+    setCalorieRange(filters.calories || (bounds ? [bounds.min, bounds.max] : []));
+  }, [filters.calories, bounds]);
+
+  const update = (changes: Partial<FacetFilters>) => onChange({ ...filters, ...changes });
+
+  // Tags no matching recipe has are left out, unless they are what's filtering everything away
+  const tags = facets.tags.filter(tag => tag.count > 0 || tag.selected);
+  const visibleTags = showAllTags
+    ? tags
+    : tags.filter((tag, index) => index < COLLAPSED_TAG_COUNT || tag.selected);
+
+  return (
+    <Sidebar
+      collapsible={isMobile ? 'offcanvas' : 'none'}
+      className="h-auto max-h-[calc(100svh-6rem)] rounded-2xl shadow-xl md:sticky md:top-20"
+      aria-label="Filter recipes"
+    >
+      <SidebarHeader className="flex-row items-center justify-between border-b border-sidebar-border">
+        <span className="flex items-center gap-2 px-2 font-semibold">
+          <SlidersHorizontal className="h-4 w-4" />
+          Filters
+        </span>
+        <span className="text-xs text-sidebar-foreground/70">
+          {resultCount} {resultCount === 1 ? 'recipe' : 'recipes'}
+        </span>
+      </SidebarHeader>
+      <SidebarContent>
+        {hasActiveFacets(filters) && (
+          <button
+            onClick={() => onChange(EMPTY_FACET_FILTERS)}
+            className="mx-4 mt-2 flex items-center gap-1 self-start text-xs font-medium text-purple-600 hover:underline dark:text-purple-400"
+          >
+            <X className="h-3 w-3" />
+            Clear all filters
+          </button>
+        )}
+
+        <FacetGroup
+          label="Difficulty"
+          options={facets.difficulties}
+          onToggle={difficulty => update({ difficulties: toggleFacetValue(filters.difficulties, difficulty) })}
+        />
+        <FacetGroup
+          label="Ready in"
+          options={facets.times}
+          onToggle={minutes => update({ maxTotalMinutes: filters.maxTotalMinutes === minutes ? null : minutes })}
+        />
+
+        {bounds && bounds.max > bounds.min && calorieRange.length === 2 && (
+          <SidebarGroup>
+            <SidebarGroupLabel>Calories</SidebarGroupLabel>
+            <SidebarGroupContent className="space-y-3 px-2">
+              <Slider
+                min={bounds.min}
+                max={bounds.max}
+                step={10}
+                minStepsBetweenThumbs={1}
+                value={calorieRange}
+                onValueChange={setCalorieRange}
+                onValueCommit={([low, high]) => update({
+                  calories: low <= bounds.min && high >= bounds.max ? null : [low, high],
+                })}
+                aria-label="Calories per serving"
+              />
+              <div className="flex justify-between text-xs text-sidebar-foreground/70">
+                <span>{calorieRange[0]} kcal</span>
+                <span>{calorieRange[1]} kcal</span>
+              </div>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
+
+        <FacetGroup
+          label="Diet"
+          options={facets.diets}
+          onToggle={diet => update({ diets: toggleFacetValue(filters.diets, diet) })}
+        />
+
+        {/* Only useful when the results span moods, e.g. a search or a time-based mood */}
+        {facets.moods.length > 1 && (
+          <FacetGroup
+            label="Mood"
+            options={facets.moods}
+            onToggle={mood => update({ moods: toggleFacetValue(filters.moods, mood) })}
+          />
+        )}
+
+        {tags.length > 0 && (
+          <>
+            <SidebarSeparator />
+            <FacetGroup
+              label="Tags"
+              options={visibleTags}
+              onToggle={tag => update({ tags: toggleFacetValue(filters.tags, tag) })}
+            />
+            {tags.length > COLLAPSED_TAG_COUNT && (
+              <button
+                onClick={() => setShowAllTags(show => !show)}
+                className="mx-4 mb-3 self-start text-xs font-medium text-purple-600 hover:underline dark:text-purple-400"
+              >
+                {showAllTags ? 'Show fewer tags' : `Show all ${tags.length} tags`}
+              </button>
+            )}
+          </>
+        )}
+      </SidebarContent>
+    </Sidebar>
+  );
+};
+
+export default FacetSidebar;
@@ -1,22 +1,42 @@
 
 import { useState, useRef, useEffect } from 'react';
-import { X, Sparkles, Heart } from 'lucide-react';
+import { X, Sparkles, Heart, Star, Plus, Check } from 'lucide-react';
 import { moods, Mood } from '@/utils/moodRecipeData';
+import { createCustomMood, getMood, isCustomMoodId, isMoodId } from '@/data/moods/moodRegistry';
+import { MoodInference } from '@/types/moodInference';
+import { MoodIntensity, MoodSelection } from '@/types/moodBlend';
+import { MOOD_INTENSITY_LABELS } from '@/utils/moodBlend';
+import { DEFAULT_MOOD_INTENSITY } from '@/utils/moodPages';
+import { getMoodCandidates, moodInferenceEngine } from '@/utils/moodInference';
+import { forgetPersonalMood, recordCustomMoodUse } from '@/utils/personalMoods';
+import { usePersonalMoods } from '@/hooks/use-personal-moods';
 import { useToast } from "@/hooks/use-toast";
 import { Input } from "@/components/ui/input";
 
+// Typed text is read for moods once typing pauses
+const INFERENCE_DELAY_MS = 250;
+
+// Moods that can be felt at once
+const MAX_BLEND_MOODS = 3;
+
+const INTENSITIES: MoodIntensity[] = [1, 2, 3];
+
 interface MoodInputProps {
   onMoodSelect: (mood: Mood | null) => void;
+  onBlendSelect?: (selections: MoodSelection[]) => void; // Lets several moods be picked, each with an intensity
   selectedMood?: Mood | null;
+  selectedBlend?: MoodSelection[] | null;
   placeholder?: string;
 }
 
-const customMoodIdPrefix = "__custom-";
-
-const MoodInput = ({ onMoodSelect, selectedMood, placeholder = "Type your mood or select below..." }: MoodInputProps) => {
+const MoodInput = ({ onMoodSelect, onBlendSelect, selectedMood, selectedBlend, placeholder = "Type your mood or select below..." }: MoodInputProps) => {
   const { toast } = useToast();
   const [searchText, setSearchText] = useState('');
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
+  const [inference, setInference] = useState<MoodInference | null>(null);
+  // Moods picked for a blend, before it is shown
+  const [blend, setBlend] = useState<MoodSelection[]>(selectedBlend || []);
+  const personalMoods = usePersonalMoods();
   const inputRef = useRef<HTMLInputElement>(null);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
@@ -25,9 +45,37 @@ const MoodInput = ({ onMoodSelect, selectedMood, placeholder = "Type your mood o
     ? moods
     : moods.filter(mood =>
         mood.name.toLowerCase().includes(searchText.toLowerCase()) ||
-        mood.description.toLowerCase().includes(searchText.toLowerCase())
+        mood.description.toLowerCase().includes(searchText.toLowerCase()) ||
+        mood.aliases.some(alias => alias.includes(searchText.toLowerCase()))
       );
 
+  useEffect(() => {
+    if (!searchText.trim()) {
+      setInference(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      moodInferenceEngine.infer(searchText).then(result => {
+        if (!cancelled) {
+          setInference(result);
+        }
+      });
+    }, INFERENCE_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchText]);
+
+  // One mood when the engine is sure of the text, otherwise the few it could mean
+  const inferredMoods = inference?.mood
+    ? (inference.confident ? inference.candidates.slice(0, 1) : getMoodCandidates(inference))
+        .map(({ mood, probability }) => ({ mood: getMood(mood), probability }))
+    : [];
+  const listedMoods = filteredMoods.filter(mood => !inferredMoods.some(inferred => inferred.mood.id === mood.id));
+  const matchingPersonalMoods = personalMoods.filter(mood => mood.name.toLowerCase().includes(searchText.trim().toLowerCase()));
+
   // Handle outside click to close dropdown
   useEffect(() => {
     const handler = (event: MouseEvent) => {
@@ -52,6 +100,10 @@ const MoodInput = ({ onMoodSelect, selectedMood, placeholder = "Type your mood o
 
   // Handles selecting a mood from the dropdown or custom text
   const handleMoodSelect = (mood: Mood | null) => {
+    // Custom moods typed more than once are kept as the user's own
+    if (mood && isCustomMoodId(mood.id)) {
+      recordCustomMoodUse(mood.name);
+    }
     onMoodSelect(mood);
     setSearchText('');
     setIsDropdownOpen(false);
@@ -71,17 +123,22 @@ const MoodInput = ({ onMoodSelect, selectedMood, placeholder = "Type your mood o
     setIsDropdownOpen(true);
   };
 
-  // Enter allows custom mood entry from text
-  const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+  // Enter picks the mood the text clearly means, lists the candidates when it could mean a
+  // few, and otherwise takes the text as a custom mood
+  const handleInputKeyDown = async (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter' && searchText.trim()) {
-      handleMoodSelect({
-        id: customMoodIdPrefix + searchText.trim(),
-        name: searchText.trim(),
-        icon: '🙂',
-        description: 'Custom mood entered',
-      });
+      const text = searchText;
+      const result = await moodInferenceEngine.infer(text);
+      if (result.mood && result.confident) {
+        handleMoodSelect(getMood(result.mood));
+      } else if (result.mood) {
+        setInference(result);
+        setIsDropdownOpen(true);
+      } else {
+        handleMoodSelect(createCustomMood(text));
+      }
     }
-    if (e.key === 'ArrowDown' && filteredMoods.length > 0) {
+    if (e.key === 'ArrowDown' && (inferredMoods.length > 0 || listedMoods.length > 0)) {
       // focus first dropdown item for accessibility (optional)
       const firstEl = dropdownRef.current?.querySelector('button[data-index="0"]');
       if (firstEl) (firstEl as HTMLButtonElement).focus();
@@ -93,6 +150,57 @@ const MoodInput = ({ onMoodSelect, selectedMood, placeholder = "Type your mood o
     handleMoodSelect(mood);
   };
 
+  const isInBlend = (mood: Mood) => blend.some(selection => selection.mood === mood.id);
+
+  const toggleBlendMood = (mood: Mood) => {
+    if (!isMoodId(mood.id)) {
+      return;
+    }
+    const moodId = mood.id;
+    setBlend(current => current.some(selection => selection.mood === moodId)
+      ? current.filter(selection => selection.mood !== moodId)
+      : [...current, { mood: moodId, intensity: DEFAULT_MOOD_INTENSITY }].slice(0, MAX_BLEND_MOODS));
+    setSearchText('');
+    inputRef.current?.focus();
+  };
+
+  const setBlendIntensity = (moodId: MoodSelection['mood'], intensity: MoodIntensity) => {
+    setBlend(current => current.map(selection => (selection.mood === moodId ? { ...selection, intensity } : selection)));
+  };
+
+  const handleBlendSelect = () => {
+    if (!onBlendSelect || blend.length === 0) {
+      return;
+    }
+    onBlendSelect(blend);
+    setIsDropdownOpen(false);
+    toast({
+      title: "✨ Moods Blended!",
+      description: `Finding recipes for feeling ${blend.map(({ mood }) => getMood(mood).name).join(' + ')} 🎯`,
+      duration: 3000,
+    });
+  };
+
+  // The + beside a registry mood in the dropdown, when moods can be blended
+  const renderBlendToggle = (mood: Mood) => {
+    if (!onBlendSelect || !isMoodId(mood.id)) {
+      return null;
+    }
+    const picked = isInBlend(mood);
+    return (
+      <button
+        type="button"
+        onClick={() => toggleBlendMood(mood)}
+        disabled={!picked && blend.length >= MAX_BLEND_MOODS}
+        className={`p-2 mr-4 rounded-full transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${picked ? 'text-purple-600 bg-purple-100 hover:bg-purple-200' : 'text-gray-400 hover:text-purple-600 hover:bg-purple-50'}`}
+        aria-label={picked ? `Remove ${mood.name} from the blend` : `Add ${mood.name} to the blend`}
+        aria-pressed={picked}
+      >
+        {picked ? <Check className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+      </button>
+    );
+  };
+
   // Reset input and mood selection
   const handleClear = () => {
     setSearchText('');
@@ -136,37 +244,93 @@ const MoodInput = ({ onMoodSelect, selectedMood, placeholder = "Type your mood o
           ref={dropdownRef}
           className="absolute left-0 right-0 mt-2 z-50 bg-white/95 backdrop-blur-xl border-2 border-white/30 rounded-2xl shadow-2xl max-h-80 overflow-y-auto animate-fade-in"
         >
-          {filteredMoods.length === 0 && (
+          {matchingPersonalMoods.length > 0 && (
+            <div className="border-b-2 border-pink-200">
+              <div className="px-6 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-pink-600">Your moods</div>
+              {matchingPersonalMoods.map(mood => (
+                <div key={mood.id} className="flex items-center hover:bg-gradient-to-r hover:from-pink-100 hover:to-purple-100 transition-all duration-300 group">
+                  <button
+                    className="flex flex-1 items-center py-3 pl-6 cursor-pointer text-left"
+                    onClick={() => handleDropdownMoodClick(mood)}
+                    tabIndex={0}
+                  >
+                    <span className="text-3xl mr-4 group-hover:scale-110 transition-transform duration-300">{mood.icon}</span>
+                    <div className="flex-1">
+                      <div className="font-bold text-gray-800 group-hover:text-pink-700 transition-colors flex items-center gap-1">
+                        <Star className="w-3 h-3 text-pink-400" />
+                        {mood.name}
+                      </div>
+                      <div className="text-sm text-gray-600 group-hover:text-pink-600">{mood.description}</div>
+                    </div>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => forgetPersonalMood(mood.id)}
+                    className="p-2 mr-4 rounded-full text-gray-400 hover:text-red-500 hover:bg-red-50 transition-colors"
+                    aria-label={`Forget ${mood.name}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          {inferredMoods.length > 0 && (
+            <div className="border-b-2 border-purple-200 bg-purple-50/60">
+              <div className="px-6 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-purple-600">
+                {inference?.confident ? 'Sounds like' : 'Not sure which you mean. Is it one of these?'}
+              </div>
+              {inferredMoods.map(({ mood, probability }, idx) => (
+                <div key={mood.id} className="flex items-center hover:bg-gradient-to-r hover:from-purple-100 hover:to-pink-100 transition-all duration-300 group">
+                  <button
+                    data-index={idx}
+                    className="flex flex-1 items-center py-3 px-6 cursor-pointer text-left"
+                    onClick={() => handleDropdownMoodClick(mood)}
+                    tabIndex={0}
+                  >
+                    <span className="text-3xl mr-4 group-hover:scale-110 transition-transform duration-300">{mood.icon}</span>
+                    <div className="flex-1">
+                      <div className="font-bold text-gray-800 group-hover:text-purple-700 transition-colors">{mood.name}</div>
+                      <div className="text-sm text-gray-600 group-hover:text-purple-600">{mood.description}</div>
+                    </div>
+                    {!inference?.confident && (
+                      <span className="text-xs font-semibold text-purple-500">{Math.round(probability * 100)}% match</span>
+                    )}
+                  </button>
+                  {renderBlendToggle(mood)}
+                </div>
+              ))}
+            </div>
+          )}
+          {listedMoods.length === 0 && inferredMoods.length === 0 && matchingPersonalMoods.length === 0 && (
             <div className="px-6 py-4 text-gray-500 text-sm text-center">No matching moods found ✨</div>
           )}
-          {filteredMoods.map((mood, idx) => (
-            <button
+          {listedMoods.map((mood, idx) => (
+            <div
               key={mood.id}
-              data-index={idx}
-              className="flex w-full items-center py-4 px-6 hover:bg-gradient-to-r hover:from-purple-100 hover:to-pink-100 cursor-pointer text-left transition-all duration-300 hover:scale-[1.02] border-b border-gray-100 last:border-b-0 group"
-              onClick={() => handleDropdownMoodClick(mood)}
-              tabIndex={0}
+              className="flex items-center hover:bg-gradient-to-r hover:from-purple-100 hover:to-pink-100 transition-all duration-300 hover:scale-[1.02] border-b border-gray-100 last:border-b-0 group"
             >
-              <span className="text-3xl mr-4 group-hover:scale-110 transition-transform duration-300">{mood.icon}</span>
-              <div className="flex-1">
-                <div className="font-bold text-gray-800 group-hover:text-purple-700 transition-colors">{mood.name}</div>
-                <div className="text-sm text-gray-600 group-hover:text-purple-600">{mood.description}</div>
-              </div>
-              <Sparkles className="w-4 h-4 text-gray-400 group-hover:text-yellow-500 transition-colors duration-300 opacity-0 group-hover:opacity-100" />
-            </button>
+              <button
+                data-index={inferredMoods.length + idx}
+                className="flex flex-1 items-center py-4 px-6 cursor-pointer text-left"
+                onClick={() => handleDropdownMoodClick(mood)}
+                tabIndex={0}
+              >
+                <span className="text-3xl mr-4 group-hover:scale-110 transition-transform duration-300">{mood.icon}</span>
+                <div className="flex-1">
+                  <div className="font-bold text-gray-800 group-hover:text-purple-700 transition-colors">{mood.name}</div>
+                  <div className="text-sm text-gray-600 group-hover:text-purple-600">{mood.description}</div>
+                </div>
+                <Sparkles className="w-4 h-4 text-gray-400 group-hover:text-yellow-500 transition-colors duration-300 opacity-0 group-hover:opacity-100" />
+              </button>
+              {renderBlendToggle(mood)}
+            </div>
           ))}
           {/* Custom mood option */}
-          {searchText && !filteredMoods.some(mood => mood.name.toLowerCase() === searchText.trim().toLowerCase()) && (
+          {searchText && ![...filteredMoods, ...personalMoods].some(mood => mood.name.toLowerCase() === searchText.trim().toLowerCase()) && (
             <button
               className="flex w-full items-center py-4 px-6 hover:bg-gradient-to-r hover:from-blue-100 hover:to-cyan-100 cursor-pointer text-left border-t-2 border-blue-200 transition-all duration-300 hover:scale-[1.02] group"
-              onClick={() =>
-                handleMoodSelect({
-                  id: customMoodIdPrefix + searchText.trim(),
-                  name: searchText.trim(),
-                  icon: '🙂',
-                  description: 'Custom mood entered',
-                })
-              }
+              onClick={() => handleMoodSelect(createCustomMood(searchText))}
               tabIndex={0}
             >
               <span className="text-3xl mr-4 group-hover:scale-110 transition-transform duration-300">🙂</span>
@@ -182,6 +346,49 @@ const MoodInput = ({ onMoodSelect, selectedMood, placeholder = "Type your mood o
         </div>
       )}
 
+      {/* Moods picked for a blend, each with how strongly it is felt */}
+      {onBlendSelect && blend.length > 0 && (
+        <div className="p-4 rounded-2xl backdrop-blur-xl bg-white/80 border-2 border-purple-200 shadow-lg space-y-3">
+          <div className="text-xs font-semibold uppercase tracking-wide text-purple-600">
+            Your mood blend: up to {MAX_BLEND_MOODS} moods, added with +
+          </div>
+          {blend.map(({ mood, intensity }) => (
+            <div key={mood} className="flex items-center gap-3">
+              <span className="text-2xl">{getMood(mood).icon}</span>
+              <span className="flex-1 font-bold text-gray-800">{getMood(mood).name}</span>
+              <div className="flex rounded-full border border-purple-200 overflow-hidden" role="group" aria-label={`How ${getMood(mood).name.toLowerCase()}`}>
+                {INTENSITIES.map(level => (
+                  <button
+                    key={level}
+                    type="button"
+                    onClick={() => setBlendIntensity(mood, level)}
+                    aria-pressed={intensity === level}
+                    className={`px-3 py-1 text-xs font-semibold transition-colors ${intensity === level ? 'bg-purple-500 text-white' : 'text-purple-600 hover:bg-purple-50'}`}
+                  >
+                    {MOOD_INTENSITY_LABELS[level]}
+                  </button>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() => toggleBlendMood(getMood(mood))}
+                className="p-1 rounded-full text-gray-400 hover:text-red-500 hover:bg-red-50 transition-colors"
+                aria-label={`Remove ${getMood(mood).name} from the blend`}
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={handleBlendSelect}
+            className="w-full py-2 rounded-full bg-gradient-to-r from-purple-500 to-pink-500 text-white font-bold hover:from-purple-600 hover:to-pink-600 transition-all duration-300"
+          >
+            Find recipes for {blend.map(({ mood }) => getMood(mood).name).join(' + ')}
+          </button>
+        </div>
+      )}
+
       {/* Selected mood display */}
       {selectedMood && (
         <div className="mt-6 p-6 rounded-2xl glass-card animate-bounce-in backdrop-blur-xl bg-gradient-to-r from-purple-100/50 to-pink-100/50 border-2 border-purple-200">
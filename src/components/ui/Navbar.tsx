@@ -1,10 +1,13 @@
 
 import { useState, useEffect } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { Sun, Moon, Menu, X } from 'lucide-react';
 import { Input } from "@/components/ui/input";
 import { Search } from 'lucide-react';
 import SearchBar from '../SearchBar';
+import { SEARCH_PATH } from '@/utils/searchInterpretation';
+import { toMoodPath } from '@/utils/moodPages';
+import { Mood } from '@/types/recipe';
 
 interface NavbarProps {
   toggleDarkMode: () => void;
@@ -16,6 +19,10 @@ const Navbar = ({ toggleDarkMode, isDarkMode, onSearch }: NavbarProps) => {
   const [scrolled, setScrolled] = useState(false);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const navigate = useNavigate();
+  const location = useLocation();
+
+  // Follows the URL, so back/forward between searches updates the box too
+  const currentQuery = location.pathname === SEARCH_PATH ? new URLSearchParams(location.search).get('q') || '' : '';
 
   useEffect(() => {
     const handleScroll = () => {
@@ -32,6 +39,12 @@ const Navbar = ({ toggleDarkMode, isDarkMode, onSearch }: NavbarProps) => {
     };
   }, []);
 
+  // Mood suggestions open the mood's own page
+  const handleMoodSelect = (mood: Mood) => {
+    navigate(toMoodPath(mood.id));
+    setMobileMenuOpen(false);
+  };
+
   const handleLogoClick = () => {
     navigate('/');
     setMobileMenuOpen(false);
@@ -58,6 +71,10 @@ const Navbar = ({ toggleDarkMode, isDarkMode, onSearch }: NavbarProps) => {
             </button>
           </div>
           
+          <div className="hidden md:block flex-1 max-w-md mx-6">
+            <SearchBar key={currentQuery} initialQuery={currentQuery} onSearch={onSearch} onMoodSelect={handleMoodSelect} />
+          </div>
+
           <div className="hidden md:block">
             <div className="ml-10 flex items-center space-x-4">
               <Link 
@@ -72,6 +89,12 @@ const Navbar = ({ toggleDarkMode, isDarkMode, onSearch }: NavbarProps) => {
               >
                 Favorites
               </Link>
+              <Link 
+                to="/import" 
+                className="px-3 py-2 rounded-md text-sm font-medium text-gray-700 dark:text-gray-200 hover:text-primary dark:hover:text-primary transition-colors"
+              >
+                Import
+              </Link>
               <button
                 onClick={toggleDarkMode}
                 className="p-2 rounded-full text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
@@ -98,6 +121,17 @@ const Navbar = ({ toggleDarkMode, isDarkMode, onSearch }: NavbarProps) => {
       {mobileMenuOpen && (
         <div className="md:hidden bg-white dark:bg-gray-900 shadow-lg animate-fade-in">
           <div className="px-2 pt-2 pb-3 space-y-1 sm:px-3">
+            <div className="px-1 pb-2">
+              <SearchBar
+                key={currentQuery}
+                initialQuery={currentQuery}
+                onSearch={query => {
+                  onSearch(query);
+                  setMobileMenuOpen(false);
+                }}
+                onMoodSelect={handleMoodSelect}
+              />
+            </div>
             <Link
               to="/"
               className="block px-3 py-2 rounded-md text-base font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
@@ -112,6 +146,13 @@ const Navbar = ({ toggleDarkMode, isDarkMode, onSearch }: NavbarProps) => {
             >
               Favorites
             </Link>
+            <Link
+              to="/import"
+              className="block px-3 py-2 rounded-md text-base font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+              onClick={() => setMobileMenuOpen(false)}
+            >
+              Import
+            </Link>
             <button
               onClick={() => {
                 toggleDarkMode();
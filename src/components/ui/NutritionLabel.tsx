@@ -0,0 +1,118 @@
+import React from 'react';
+import { Cell, Pie, PieChart } from 'recharts';
+import { Recipe } from '@/types/recipe';
+import { Micronutrient } from '@/types/nutrition';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { getDailyValuePercent, getRecipeNutrition, MICRONUTRIENTS } from '@/utils/nutrition';
+
+interface NutritionLabelProps {
+  recipe: Recipe;
+}
+
+const macroChartConfig = {
+  protein: { label: 'Protein', color: 'hsl(142, 60%, 45%)' },
+  carbs: { label: 'Carbs', color: 'hsl(40, 90%, 55%)' },
+  fat: { label: 'Fat', color: 'hsl(259, 70%, 65%)' },
+} satisfies ChartConfig;
+
+const MICRONUTRIENT_LABELS: Record<Micronutrient, { label: string; unit: string }> = {
+  vitaminC: { label: 'Vitamin C', unit: 'mg' },
+  calcium: { label: 'Calcium', unit: 'mg' },
+  iron: { label: 'Iron', unit: 'mg' },
+  potassium: { label: 'Potassium', unit: 'mg' },
+};
+
+const LabelRow = ({ label, amount, percent, indent = false }: {
+  label: string;
+  amount: string;
+  percent?: number;
+  indent?: boolean;
+}) => (
+  <div className={`flex justify-between border-t border-gray-200 dark:border-gray-700 py-0.5 ${indent ? 'pl-3' : ''}`}>
+    <span>
+      <span className={indent ? '' : 'font-semibold'}>{label}</span> {amount}
+    </span>
+    {percent !== undefined && <span className="font-semibold">{percent}%</span>}
+  </div>
+);
+
+const NutritionLabel = ({ recipe }: NutritionLabelProps) => {
+  const { facts, source, coverage } = getRecipeNutrition(recipe);
+
+  // Calories contributed by each macro: 4 kcal/g for protein and carbs, 9 for fat
+  const macroData = [
+    { macro: 'protein', calories: facts.protein * 4, fill: 'var(--color-protein)' },
+    { macro: 'carbs', calories: facts.carbs * 4, fill: 'var(--color-carbs)' },
+    { macro: 'fat', calories: facts.fat * 9, fill: 'var(--color-fat)' },
+  ];
+  const hasMacros = macroData.some(entry => entry.calories > 0);
+
+  return (
+    <div className="pl-6 grid grid-cols-1 md:grid-cols-2 gap-3">
+      <div className="text-xs bg-white dark:bg-gray-950 p-2 rounded-lg border border-green-100 dark:border-green-900/30">
+        <div className="flex items-baseline justify-between border-b-4 border-gray-800 dark:border-gray-300 pb-1 mb-1">
+          <span className="font-bold text-sm">Nutrition Facts</span>
+          <span className="text-gray-500 dark:text-gray-400">per serving</span>
+        </div>
+        <div className="flex justify-between font-bold text-sm pb-1">
+          <span>Calories</span>
+          <span>{facts.calories}</span>
+        </div>
+        <LabelRow label="Total Fat" amount={`${facts.fat}g`} percent={getDailyValuePercent('fat', facts.fat)} />
+        <LabelRow label="Sodium" amount={`${facts.sodium}mg`} percent={getDailyValuePercent('sodium', facts.sodium)} />
+        <LabelRow label="Total Carbohydrate" amount={`${facts.carbs}g`} percent={getDailyValuePercent('carbs', facts.carbs)} />
+        <LabelRow label="Dietary Fiber" amount={`${facts.fiber}g`} percent={getDailyValuePercent('fiber', facts.fiber)} indent />
+        <LabelRow label="Total Sugars" amount={`${facts.sugar}g`} indent />
+        <LabelRow label="Protein" amount={`${facts.protein}g`} percent={getDailyValuePercent('protein', facts.protein)} />
+        <div className="border-t-4 border-gray-800 dark:border-gray-300 mt-1">
+          {MICRONUTRIENTS.map(nutrient => (
+            <LabelRow
+              key={nutrient}
+              label={MICRONUTRIENT_LABELS[nutrient].label}
+              amount={`${facts.micronutrients[nutrient]}${MICRONUTRIENT_LABELS[nutrient].unit}`}
+              percent={getDailyValuePercent(nutrient, facts.micronutrients[nutrient])}
+            />
+          ))}
+        </div>
+        <p className="text-[10px] text-gray-500 dark:text-gray-400 mt-1">
+          {source === 'hand-entered' && '% Daily Values are based on a 2,000 calorie diet.'}
+          {source === 'estimated' && `Estimated from ${Math.round(coverage * 100)}% of the ingredients. % Daily Values are based on a 2,000 calorie diet.`}
+          {source === 'partly-estimated' && `Values the recipe doesn't give are estimated from ${Math.round(coverage * 100)}% of the ingredients. % Daily Values are based on a 2,000 calorie diet.`}
+        </p>
+      </div>
+
+      {hasMacros && (
+        <div className="flex flex-col items-center">
+          <ChartContainer config={macroChartConfig} className="aspect-square w-full max-w-[180px]">
+            <PieChart>
+              <ChartTooltip
+                cursor={false}
+                content={<ChartTooltipContent hideLabel nameKey="macro" formatter={(value, name) => (
+                  <span>
+                    {macroChartConfig[name as keyof typeof macroChartConfig]?.label}: {Math.round(Number(value))} kcal
+                  </span>
+                )} />}
+              />
+              <Pie data={macroData} dataKey="calories" nameKey="macro" innerRadius={40} strokeWidth={2}>
+                {macroData.map(entry => (
+                  <Cell key={entry.macro} fill={entry.fill} />
+                ))}
+              </Pie>
+            </PieChart>
+          </ChartContainer>
+          <div className="flex gap-3 text-xs">
+            {macroData.map(entry => (
+              <span key={entry.macro} className="flex items-center gap-1">
+                <span className="w-2 h-2 rounded-sm" style={{ backgroundColor: macroChartConfig[entry.macro as keyof typeof macroChartConfig].color }} />
+                {macroChartConfig[entry.macro as keyof typeof macroChartConfig].label}
+              </span>
+            ))}
+          </div>
+          <p className="text-[10px] text-gray-500 dark:text-gray-400 mt-1">Calories by macronutrient</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NutritionLabel;
@@ -1,10 +1,13 @@
 
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { Brain, ChevronDown, ChevronUp, Lightbulb, Utensils, ListPlus, Sparkles, Flame } from 'lucide-react';
-import { Recipe, getSimilarRecipes } from '@/utils/moodRecipeData';
+import { Recipe, SimilarRecipe, loadSimilarRecipes } from '@/utils/moodRecipeData';
 import { Link } from 'react-router-dom';
 import { AspectRatio } from "@/components/ui/aspect-ratio";
 import { getRecipeImagePath } from '@/utils/recipeImageHelper';
+import NutritionLabel from '@/components/ui/NutritionLabel';
+
+const MAX_REASONS_SHOWN = 2;
 
 interface RecipeAiFeaturesProps {
   recipe: Recipe;
@@ -12,9 +15,20 @@ interface RecipeAiFeaturesProps {
 
 const RecipeAiFeatures = ({ recipe }: RecipeAiFeaturesProps) => {
   const [isExpanded, setIsExpanded] = useState(false);
-  const similarRecipes = getSimilarRecipes(recipe.id, 3);
+  const [similarRecipes, setSimilarRecipes] = useState<SimilarRecipe[]>([]);
   const imagesInitializedRef = useRef(false);
 
+  // Similar recipes can come from any mood, so this waits for the whole catalog
+  useEffect(() => {
+    let cancelled = false;
+    loadSimilarRecipes(recipe.id, 3)
+      .then(found => !cancelled && setSimilarRecipes(found))
+      .catch(() => !cancelled && setSimilarRecipes([]));
+    return () => {
+      cancelled = true;
+    };
+  }, [recipe.id]);
+
   return (
     <div className="rounded-xl overflow-hidden border border-primary/20">
       <div 
@@ -72,6 +86,15 @@ const RecipeAiFeatures = ({ recipe }: RecipeAiFeaturesProps) => {
             </div>
           )}
           
+          {/* Nutrition Facts */}
+          <div className="mb-4">
+            <div className="flex items-start mb-2">
+              <Flame className="w-4 h-4 mr-2 text-green-500 flex-shrink-0 mt-0.5" />
+              <h4 className="text-sm font-medium">Nutrition Facts</h4>
+            </div>
+            <NutritionLabel recipe={recipe} />
+          </div>
+          
           {/* Cooking Tips */}
           {recipe.cookingTips && recipe.cookingTips.length > 0 && (
             <div className="mb-4">
@@ -98,7 +121,7 @@ const RecipeAiFeatures = ({ recipe }: RecipeAiFeaturesProps) => {
                 <h4 className="text-sm font-medium">AI-Recommended Similar Recipes</h4>
               </div>
               <div className="grid grid-cols-1 md:grid-cols-3 gap-3 pl-6">
-                {similarRecipes.map(similarRecipe => (
+                {similarRecipes.map(({ recipe: similarRecipe, reasons }) => (
                   <Link 
                     key={similarRecipe.id} 
                     to={`/recipe/${similarRecipe.id}`}
@@ -115,9 +138,15 @@ const RecipeAiFeatures = ({ recipe }: RecipeAiFeaturesProps) => {
                       </AspectRatio>
                     </div>
                     <h5 className="font-medium text-xs">{similarRecipe.name}</h5>
-                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 truncate">
-                      {similarRecipe.tags.slice(0, 2).join(', ')}
-                    </p>
+                    {/* Why it was picked: the two strongest reasons */}
+                    <ul className="mt-1 space-y-0.5">
+                      {reasons.slice(0, MAX_REASONS_SHOWN).map(reason => (
+                        <li key={reason.feature} className="text-xs text-gray-500 dark:text-gray-400 flex items-start">
+                          <span className="inline-block w-1 h-1 rounded-full bg-purple-400 mt-1.5 mr-1.5 flex-shrink-0"></span>
+                          <span>{reason.text}</span>
+                        </li>
+                      ))}
+                    </ul>
                   </Link>
                 ))}
               </div>
@@ -1,13 +1,16 @@
 
 import { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { Card, CardContent, CardFooter } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Heart, Clock, ChefHat, Bookmark, Share2, ImageOff } from 'lucide-react';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Recipe } from '@/types/recipe';
+import { MoodId, Recipe } from '@/types/recipe';
+import { getMood } from '@/data/moods/moodRegistry';
 import { useToast } from "@/hooks/use-toast";
 import VoiceGuidance from './VoiceGuidance';
+import DietaryBadges from './DietaryBadges';
 
 // Reliable fallback image for each cuisine type
 const CUISINE_FALLBACK_IMAGES: Record<string, string> = {
@@ -46,9 +49,10 @@ interface RecipeCardProps {
   recipe: Recipe;
   isFavorite: boolean;
   onToggleFavorite: (recipe: Recipe) => void;
+  matchedMoods?: MoodId[]; // The moods of a blend this recipe suits
 }
 
-const RecipeCard = ({ recipe, isFavorite, onToggleFavorite }: RecipeCardProps) => {
+const RecipeCard = ({ recipe, isFavorite, onToggleFavorite, matchedMoods }: RecipeCardProps) => {
   const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
   const [imageError, setImageError] = useState(false);
   const { toast } = useToast();
@@ -168,6 +172,17 @@ const RecipeCard = ({ recipe, isFavorite, onToggleFavorite }: RecipeCardProps) =
             </span>
           </div>
         </div>
+
+        {matchedMoods && matchedMoods.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1 mb-3" aria-label="Suits these moods">
+            <span className="text-xs text-gray-500 dark:text-gray-400">Suits</span>
+            {matchedMoods.map(mood => (
+              <Badge key={mood} variant="outline" className="text-xs border-purple-300 text-purple-700 dark:text-purple-300">
+                {getMood(mood).icon} {getMood(mood).name}
+              </Badge>
+            ))}
+          </div>
+        )}
         
         <div className="flex flex-wrap gap-1 mb-3">
           {recipe.tags.slice(0, 3).map((tag) => (
@@ -181,6 +196,10 @@ const RecipeCard = ({ recipe, isFavorite, onToggleFavorite }: RecipeCardProps) =
             </Badge>
           )}
         </div>
+
+        <div className="mb-3">
+          <DietaryBadges recipe={recipe} />
+        </div>
       </CardContent>
       
       <CardFooter className="p-4 pt-2 flex justify-between">
@@ -190,9 +209,9 @@ const RecipeCard = ({ recipe, isFavorite, onToggleFavorite }: RecipeCardProps) =
           className="flex items-center gap-1"
           asChild
         >
-          <a href={`/recipe/${recipe.id}`}>
+          <Link to={`/recipe/${recipe.id}`}>
             <span>View Recipe</span>
-          </a>
+          </Link>
         </Button>
         
         <div className="flex gap-1">
@@ -0,0 +1,80 @@
+import React from 'react';
+import { Download, FileCode, FileText, MessageSquareText, Printer } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { Recipe } from '@/types/recipe';
+import { getExportFileName, serializeJsonLd, toMarkdown, toPlainText } from '@/utils/recipeSerializer';
+
+interface RecipeExportMenuProps {
+  recipe: Recipe; // Export what the reader sees: scaled and in their units
+}
+
+const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const RecipeExportMenu = ({ recipe }: RecipeExportMenuProps) => {
+  const { toast } = useToast();
+
+  const copyText = async () => {
+    try {
+      await navigator.clipboard.writeText(toPlainText(recipe));
+      toast({
+        title: "Recipe Copied",
+        description: "The recipe text is ready to paste into a message.",
+        duration: 3000,
+      });
+    } catch (error) {
+      console.error('Error copying recipe:', error);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button className="w-full px-4 py-3 rounded-lg bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 flex items-center justify-center transition-colors">
+          <Download size={18} className="mr-2" />
+          <span>Export Recipe</span>
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-56">
+        <DropdownMenuItem onSelect={copyText}>
+          <MessageSquareText className="mr-2 h-4 w-4" />
+          Copy as text
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => downloadFile(getExportFileName(recipe, 'md'), toMarkdown(recipe), 'text/markdown')}>
+          <FileText className="mr-2 h-4 w-4" />
+          Download Markdown
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          onSelect={() => downloadFile(
+            getExportFileName(recipe, 'jsonld'),
+            serializeJsonLd(recipe, window.location.href),
+            'application/ld+json'
+          )}
+        >
+          <FileCode className="mr-2 h-4 w-4" />
+          Download JSON-LD
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => window.print()}>
+          <Printer className="mr-2 h-4 w-4" />
+          Print
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default RecipeExportMenu;
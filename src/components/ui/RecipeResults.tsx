@@ -0,0 +1,94 @@
+import { useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { MoodId, Recipe } from '@/types/recipe';
+import { FacetFilters } from '@/types/facets';
+import RecipeCard from '@/components/ui/RecipeCard';
+import FacetSidebar from '@/components/ui/FacetSidebar';
+import { SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
+import { EMPTY_FACET_FILTERS, filterByFacets, getRecipeFacets, hasActiveFacets, parseFacetParams, toFacetParams } from '@/utils/recipeFacets';
+
+interface RecipeResultsProps {
+  recipes: Recipe[];
+  isFetching: boolean;
+  emptyMessage: string;
+  note?: string; // Shown next to the count, e.g. how results are ordered
+  getMatchedMoods?: (recipe: Recipe) => MoodId[]; // For mood blends: the moods each recipe suits
+}
+
+// Mood or search results with the facet sidebar next to them
+const RecipeResults = ({ recipes, isFetching, emptyMessage, note, getMatchedMoods }: RecipeResultsProps) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Facet filters live in the query string, so a filtered view can be shared or bookmarked
+  const facetFilters = useMemo(() => parseFacetParams(searchParams), [searchParams]);
+  const setFacetFilters = (filters: FacetFilters) => {
+    setSearchParams(toFacetParams(filters, searchParams), { replace: true });
+  };
+
+  const facets = useMemo(() => getRecipeFacets(recipes, facetFilters), [recipes, facetFilters]);
+  const visibleRecipes = useMemo(() => filterByFacets(recipes, facetFilters), [recipes, facetFilters]);
+
+  return (
+    <SidebarProvider className="min-h-0 items-start gap-6">
+      {recipes.length > 0 && (
+        <FacetSidebar
+          facets={facets}
+          filters={facetFilters}
+          resultCount={visibleRecipes.length}
+          onChange={setFacetFilters}
+        />
+      )}
+      <div className="flex-1 min-w-0">
+        {recipes.length > 0 && (
+          <div className="flex items-center gap-2 mb-6 text-white">
+            <SidebarTrigger className="md:hidden hover:bg-white/20 hover:text-white" />
+            <span className="text-sm font-medium">
+              {visibleRecipes.length === recipes.length
+                ? `${recipes.length} ${recipes.length === 1 ? 'recipe' : 'recipes'}`
+                : `${visibleRecipes.length} of ${recipes.length} recipes`}
+            </span>
+            {note && (
+              <span className="ml-auto text-sm text-white/80">{note}</span>
+            )}
+          </div>
+        )}
+        {(visibleRecipes.length === 0) ? (
+          <div className="text-white text-xl text-center py-16 backdrop-blur-sm bg-white/10 rounded-2xl border border-white/20">
+            <div className={`text-6xl mb-4 ${isFetching ? 'animate-pulse' : ''}`}>🔍</div>
+            {isFetching
+              ? 'Finding recipes...'
+              : recipes.length > 0 && hasActiveFacets(facetFilters)
+                ? (
+                  <>
+                    No recipes match these filters.{' '}
+                    <button onClick={() => setFacetFilters(EMPTY_FACET_FILTERS)} className="underline font-semibold">
+                      Clear filters
+                    </button>
+                  </>
+                )
+                : emptyMessage}
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+            {visibleRecipes.map((recipe, index) => (
+              <div
+                key={recipe.id}
+                className="animate-scale-in hover-lift"
+                style={{ animationDelay: `${index * 0.1}s` }}
+              >
+                <RecipeCard
+                  recipe={recipe}
+                  isFavorite={false}
+                  onToggleFavorite={() => {}}
+                  matchedMoods={getMatchedMoods?.(recipe)}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </SidebarProvider>
+  );
+};
+
+export default RecipeResults;
@@ -1,4 +1,4 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo } from 'react';
 import { Volume2, Pause, Play, Settings, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
@@ -7,8 +7,14 @@ import { VoiceSettings } from './voice-guidance/VoiceSettings';
 import { useVoiceSynthesis } from '@/hooks/use-voice-synthesis';
 import { useToast } from '@/hooks/use-toast';
 import { VoiceGuidanceProps } from '@/types/voice';
+import { useUnitPreference } from '@/hooks/use-unit-preference';
+import { convertRecipeUnits } from '@/utils/unitConversion';
 
-const VoiceGuidance: React.FC<VoiceGuidanceProps> = ({ recipe }) => {
+const VoiceGuidance: React.FC<VoiceGuidanceProps> = ({ recipe: sourceRecipe }) => {
+  const { unitSystem } = useUnitPreference();
+  // Given the recipe in its own units; amounts and oven temperatures are narrated in the
+  // units the user reads them in
+  const recipe = useMemo(() => convertRecipeUnits(sourceRecipe, unitSystem), [sourceRecipe, unitSystem]);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
   const [currentStepIndex, setCurrentStepIndex] = useState(0);
@@ -30,7 +36,12 @@ const VoiceGuidance: React.FC<VoiceGuidanceProps> = ({ recipe }) => {
     if (index < 0 || index >= recipe.instructions.length) {
       return '';
     }
-    return `Step ${index + 1}: ${recipe.instructions[index]}`;
+    const stepText = `Step ${index + 1}: ${recipe.instructions[index]}`;
+    // Read the (possibly rescaled) shopping list before the first step
+    if (index === 0 && recipe.ingredients.length > 0) {
+      return `For ${recipe.servings} servings you will need: ${recipe.ingredients.join(', ')}. ${stepText}`;
+    }
+    return stepText;
   };
 
   const speakStep = (stepIndex: number) => {
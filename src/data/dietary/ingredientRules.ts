@@ -0,0 +1,75 @@
+import { Allergen } from '@/types/dietary';
+
+export interface IngredientRule {
+  pattern: RegExp;
+  unless?: RegExp; // Skip the rule when this also matches ("peanut butter" is not dairy)
+  allergens?: Allergen[];
+  meat?: boolean; // Meat, poultry and animal-derived gelatin
+  honey?: boolean;
+  // Ingredients whose contents vary by brand or recipe. They are flagged for a person
+  // to check instead of being guessed at.
+  review?: {
+    reason: string;
+    allergens?: Allergen[];
+    meat?: boolean;
+    unknown?: boolean; // Could be made of anything, so no diet is claimed
+  };
+}
+
+// Every matching rule applies, so "soy sauce" picks up both soy and gluten
+export const INGREDIENT_RULES: IngredientRule[] = [
+  // Gluten
+  {
+    pattern: /\b(flour|bread|breads|breadcrumbs|panko|baguette|buns?|pasta|spaghetti|macaroni|lasagna|noodles|ramen|couscous|bulgur|barley|rye|seitan|pizza|pie crust|pastry|croutons?|crackers?|naan|tortillas?|wraps?|dumplings?|siu mai|spring rolls?|pancakes|ladyfingers|cake|malt|beer|wheat|semolina)\b/,
+    unless: /\b(rice|almond|gram|chickpea|coconut|corn|buckwheat|gluten[- ]free)\s+(flour|noodles|pasta|tortillas?|wraps?)\b|\brice (paper|noodles|vermicelli|cakes?)\b/,
+    allergens: ['gluten'],
+  },
+  { pattern: /\b(soy sauce|hoisin|teriyaki|gochujang|fish cakes?|béchamel|bechamel|okonomiyaki sauce|ponzu)\b/, allergens: ['gluten'] },
+  { pattern: /\b(oats|oatmeal|granola)\b/, review: { reason: 'Oats are often processed alongside wheat; check for a gluten-free label', allergens: ['gluten'] } },
+  { pattern: /\b(miso|taco seasoning)\b/, review: { reason: 'Some brands contain barley or wheat', allergens: ['gluten'] } },
+
+  // Dairy
+  {
+    pattern: /\b(milk|cream|cheese|butter|yogurt|ghee|mascarpone|mozzarella|parmesan|feta|cotija|manchego|gruy[eè]re|cheddar|ricotta|paneer|tzatziki|béchamel|bechamel|whey|custard|buttermilk)\b/,
+    unless: /\b(coconut|almond|oat|soy|rice|cashew|peanut|nut|apple|cocoa)\s+(milk|cream|butter|yogurt)\b|\bcream of tartar\b|\bvegan\b/,
+    allergens: ['dairy'],
+  },
+  { pattern: /\b(pound cake|ladyfingers|puff pastry|pie crust)\b/, allergens: ['dairy'] },
+  { pattern: /\b(chocolate|chocolate chips|naan)\b/, unless: /\b(milk|white) chocolate\b/, review: { reason: 'Often made with milk; check the label', allergens: ['dairy'] } },
+  { pattern: /\b(milk|white) chocolate\b/, allergens: ['dairy'] },
+
+  // Egg
+  { pattern: /\b(eggs?|yolks?|egg whites?|mayo|mayonnaise|aioli|meringue|ladyfingers|pound cake|egg noodles)\b/, allergens: ['egg'] },
+
+  // Peanuts and tree nuts
+  { pattern: /\b(peanuts?|peanut butter|satay)\b/, allergens: ['peanut'] },
+  { pattern: /\b(almonds?|almond milk|almond flour|walnuts?|cashews?|pecans?|pistachios?|hazelnuts?|macadamias?|pine nuts|brazil nuts|praline|marzipan|pesto)\b/, allergens: ['tree-nut'] },
+  { pattern: /\bnuts\b/, unless: /\b(pine|brazil|pea)nuts\b/, review: { reason: 'Unspecified nuts; could be peanuts or tree nuts', allergens: ['peanut', 'tree-nut'] } },
+
+  // Soy
+  { pattern: /\b(soy|soya|tofu|edamame|miso|tempeh|tamari|hoisin|teriyaki|ponzu|gochujang)\b/, allergens: ['soy'] },
+
+  // Fish and shellfish
+  { pattern: /\b(fish|salmon|tuna|cod|haddock|halibut|trout|sardines?|mackerel|anchov(y|ies)|bonito|dashi|tobiko|roe|worcestershire)\b/, allergens: ['fish'] },
+  { pattern: /\b(shrimps?|prawns?|mussels?|clams?|oysters?|scallops?|crabs?|lobsters?|squid|calamari|octopus|oyster sauce|siu mai)\b/, allergens: ['shellfish'] },
+  { pattern: /\bseafood\b/, review: { reason: 'Mixed seafood varies; check which fish and shellfish are in it', allergens: ['fish', 'shellfish'] } },
+  { pattern: /\b(curry paste|kimchi)\b/, review: { reason: 'Often made with shrimp paste or fish sauce', allergens: ['fish', 'shellfish'] } },
+  { pattern: /\bponzu\b/, review: { reason: 'Traditionally made with bonito flakes', allergens: ['fish'] } },
+  { pattern: /\bokonomiyaki sauce\b/, review: { reason: 'Some brands contain fish or oyster extract', allergens: ['fish', 'shellfish'] } },
+
+  // Sesame
+  { pattern: /\b(sesame|tahini|hummus|furikake)\b/, allergens: ['sesame'] },
+
+  // Meat, poultry and gelatin
+  { pattern: /\b(chicken|beef|pork|lamb|veal|turkey|duck|bacon|pancetta|prosciutto|chorizo|sausages?|ham|bulgogi|chashu|gelatin|marshmallows|lard)\b/, meat: true },
+  { pattern: /\b(siu mai|dumplings?|spring rolls?)\b/, unless: /\bshrimp dumplings?\b/, review: { reason: 'Filling not specified; may contain meat or seafood', meat: true, allergens: ['shellfish'] } },
+  { pattern: /\b(broth|stock)\b/, unless: /\b(vegetable|veggie|chicken|beef|pork|fish|dashi)\s+(broth|stock)\b|\b(broth|stock)\s+(base|cubes?|powder|concentrate)\b/, review: { reason: 'Broth type not specified; may be meat-based', meat: true } },
+
+  // Ready-made products whose contents vary by brand
+  { pattern: /\bprotein powder\b/, review: { reason: 'Usually whey, egg or soy based; check the label', allergens: ['dairy', 'egg', 'soy'] } },
+  { pattern: /\b(broth|stock|soup|hotpot)\s+(base|cubes?|powder|concentrate)\b|\bbouillon\b/, review: { reason: 'Ready-made bases often contain wheat, dairy, soy or meat extract', allergens: ['gluten', 'dairy', 'soy'], meat: true } },
+  { pattern: /\b(mix|blend)\b/, unless: /\bslaw mix\b/, review: { reason: 'What is in a mix varies; check the label', unknown: true } },
+  { pattern: /^(\w+\s+)?(spices|seasonings?)$/, unless: /\btaco seasoning\b/, review: { reason: 'Spices not specified; blends sometimes contain wheat', allergens: ['gluten'] } },
+
+  { pattern: /\bhoney\b/, honey: true },
+];
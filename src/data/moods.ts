@@ -1,101 +0,0 @@
-
-import { Mood } from '@/types/recipe';
-
-export const moods: Mood[] = [
-  {
-    id: 'comforting',
-    name: 'Comforting',
-    icon: '🍲',
-    description: 'Seeking warmth and emotional comfort'
-  },
-  {
-    id: 'energetic',
-    name: 'Energetic',
-    icon: '⚡',
-    description: 'Need a boost of energy'
-  },
-  {
-    id: 'celebratory',
-    name: 'Celebratory',
-    icon: '🎉',
-    description: 'Special occasions and celebrations'
-  },
-  {
-    id: 'nostalgic',
-    name: 'Nostalgic',
-    icon: '🏠',
-    description: 'Craving childhood favorites'
-  },
-  {
-    id: 'adventurous',
-    name: 'Adventurous',
-    icon: '🌎',
-    description: 'Ready to explore new flavors'
-  },
-  {
-    id: 'mindful',
-    name: 'Mindful',
-    icon: '🧘',
-    description: 'Conscious and healthy eating'
-  },
-  {
-    id: 'indulgent',
-    name: 'Indulgent',
-    icon: '🍫',
-    description: 'Treating yourself'
-  },
-  {
-    id: 'romantic',
-    name: 'Romantic',
-    icon: '❤️',
-    description: 'Date night specials'
-  },
-  {
-    id: 'social',
-    name: 'Social',
-    icon: '👥',
-    description: 'Perfect for sharing'
-  },
-  {
-    id: 'stressed',
-    name: 'Stressed',
-    icon: '😰',
-    description: 'Need calming comfort food'
-  },
-  {
-    id: 'sad',
-    name: 'Sad',
-    icon: '😢',
-    description: 'Mood-lifting comfort food'
-  },
-  {
-    id: 'cozy',
-    name: 'Cozy',
-    icon: '🛋️',
-    description: 'Perfect for relaxing days'
-  },
-  {
-    id: 'traditional',
-    name: 'Traditional',
-    icon: '📜',
-    description: 'Classic recipes and heritage dishes'
-  },
-  {
-    id: 'excited',
-    name: 'Excited',
-    icon: '✨',
-    description: 'Special occasion dishes'
-  },
-  {
-    id: 'refreshed',
-    name: 'Refreshed',
-    icon: '🌿',
-    description: 'Light and energizing meals'
-  },
-  {
-    id: 'creative',
-    name: 'Creative',
-    icon: '🎨',
-    description: 'Experimental and unique dishes'
-  }
-];
@@ -0,0 +1,117 @@
+import { Mood, MoodDefinition, MoodId } from '@/types/recipe';
+
+type MoodMetadata = Omit<MoodDefinition, 'id'>;
+
+// The single source of truth for moods. Key order is the order moods are listed in the UI.
+// Aliases are the other names people (and older data) use for the same mood.
+const MOOD_METADATA: Record<MoodId, MoodMetadata> = {
+  happy: { name: 'Happy', icon: '😊', description: 'Feeling cheerful and content', aliases: ['joyful', 'cheerful', 'good mood'] },
+  sad: { name: 'Sad', icon: '😢', description: 'Feeling down or blue', aliases: ['down', 'blue', 'unhappy', 'upset'] },
+  energetic: { name: 'Energetic', icon: '⚡', description: 'Full of energy and ready to go', aliases: ['energized', 'pumped'] },
+  tired: { name: 'Tired', icon: '😴', description: 'Feeling exhausted or sleepy', aliases: ['exhausted', 'sleepy', 'fatigued', 'worn out'] },
+  stressed: { name: 'Stressed', icon: '😰', description: 'Feeling overwhelmed or anxious', aliases: ['anxious', 'overwhelmed', 'under pressure'] },
+  relaxed: { name: 'Relaxed', icon: '😌', description: 'Feeling calm and at ease', aliases: ['chill', 'laid back', 'at ease'] },
+  hungry: { name: 'Hungry', icon: '🍽️', description: 'Ready for a satisfying meal', aliases: ['starving', 'famished', 'ravenous'] },
+  nostalgic: { name: 'Nostalgic', icon: '🕰️', description: 'Reminiscing about the past', aliases: ['reminiscing', 'sentimental'] },
+  adventurous: { name: 'Adventurous', icon: '🌎', description: 'Ready to try something new', aliases: ['daring', 'explorer'] },
+  festive: { name: 'Festive', icon: '🎉', description: 'In a celebratory mood', aliases: ['holiday', 'party mood'] },
+  homesick: { name: 'Homesick', icon: '🏠', description: 'Missing the comforts of home', aliases: ['missing home'] },
+  romantic: { name: 'Romantic', icon: '❤️', description: 'In the mood for something special', aliases: ['date night', 'in love'] },
+  creative: { name: 'Creative', icon: '🎨', description: 'Feeling inspired and imaginative', aliases: ['artistic', 'experimental'] },
+  cozy: { name: 'Cozy', icon: '🧣', description: 'Seeking warmth and comfort', aliases: ['snug', 'hygge'] },
+  indulgent: { name: 'Indulgent', icon: '🍫', description: 'Treating yourself to something special', aliases: ['treat myself', 'treat yourself'] },
+  celebratory: { name: 'Celebratory', icon: '🎊', description: 'Commemorating a special occasion', aliases: ['celebrating', 'excited', 'special occasion'] },
+  curious: { name: 'Curious', icon: '🧐', description: 'Interested in exploring new flavors', aliases: ['inquisitive', 'intrigued'] },
+  sophisticated: { name: 'Sophisticated', icon: '🥂', description: 'In the mood for something elegant', aliases: ['elegant', 'classy', 'fancy'] },
+  'healthy-minded': { name: 'Health-Conscious', icon: '🥗', description: 'Focused on nutrition and wellbeing', aliases: ['health conscious', 'healthy', 'nutritious'] },
+  'nostalgic-childhood': { name: 'Childhood Memories', icon: '👶', description: 'Craving foods from your youth', aliases: ['childhood memories', 'childhood', 'kid at heart'] },
+  wanderlust: { name: 'Wanderlust', icon: '✈️', description: 'Craving flavors from around the world', aliases: ['globetrotter'] },
+  fusion: { name: 'Fusion Explorer', icon: '🔄', description: 'Excited about mixed cultural cuisines', aliases: ['fusion explorer', 'mixed cuisine'] },
+  traditional: { name: 'Traditional', icon: '📜', description: 'Appreciating authentic cultural dishes', aliases: ['classic', 'heritage', 'authentic'] },
+  'spice-lover': { name: 'Spice Lover', icon: '🌶️', description: 'Craving bold, spicy flavors', aliases: ['spice lover', 'heat seeker'] },
+  'comfort-seeker': { name: 'Comfort Seeker', icon: '🧸', description: 'Looking for familiar, soothing foods', aliases: ['comfort seeker', 'comfort food'] },
+  proud: { name: 'Proud', icon: '🏆', description: 'Celebrating achievements and milestones', aliases: ['accomplished'] },
+  mindful: { name: 'Mindful', icon: '🧘', description: 'Being present and conscious of choices', aliases: ['present', 'conscious'] },
+  decadent: { name: 'Decadent', icon: '✨', description: 'Seeking rich, luxurious experiences', aliases: ['luxurious'] },
+  'nostalgic-travel': { name: 'Travel Memories', icon: '🗺️', description: 'Reminiscing about food from past travels', aliases: ['travel memories'] },
+  seasonal: { name: 'Seasonal', icon: '🍂', description: 'Enjoying foods from the current season', aliases: ['in season'] },
+  social: { name: 'Social', icon: '👥', description: 'Foods perfect for sharing with friends', aliases: ['sharing', 'get together'] },
+  comforting: { name: 'Comforting', icon: '🛋️', description: 'Seeking emotional comfort through food', aliases: ['comfort', 'soothing'] },
+  inspired: { name: 'Inspired', icon: '💫', description: 'Ready to create something impressive', aliases: ['motivated'] },
+  'time-pressed': { name: 'Time-Pressed', icon: '⏱️', description: 'Need something quick but satisfying', aliases: ['time pressed', 'busy', 'in a hurry', 'rushed'], maxTotalMinutes: 20 },
+  refreshed: { name: 'Refreshed', icon: '🌿', description: 'Craving something cool and revitalizing', aliases: ['revitalized'] },
+  playful: { name: 'Playful', icon: '🎈', description: 'Feeling fun and lighthearted', aliases: ['silly', 'fun'] },
+  spicy: { name: 'Spicy', icon: '🔥', description: 'In the mood for some heat', aliases: ['fiery'] },
+  sweet: { name: 'Sweet', icon: '🍭', description: 'Craving something sweet', aliases: ['sweet tooth'] },
+  exotic: { name: 'Exotic', icon: '🌴', description: 'Dreaming of faraway flavors', aliases: ['tropical'] },
+  focused: { name: 'Focused', icon: '🎯', description: 'Need fuel to concentrate', aliases: ['concentrating', 'productive'] },
+  calm: { name: 'Calm', icon: '🕊️', description: 'Looking for gentle, soothing food', aliases: ['peaceful', 'serene', 'tranquil'] },
+};
+
+export const MOOD_IDS = Object.keys(MOOD_METADATA) as MoodId[];
+
+// Moods don't carry their recipes: the catalog plugin and the scripts read this file in Node,
+// where the per-mood recipe files the app fetches don't exist. A mood's recipes come from
+// loadRecipesByMood in utils/recipeOperations.
+export const moodRegistry = Object.fromEntries(
+  MOOD_IDS.map(id => [id, { id, ...MOOD_METADATA[id] }])
+) as Record<MoodId, MoodDefinition>;
+
+export const moods: MoodDefinition[] = MOOD_IDS.map(id => moodRegistry[id]);
+
+export const isMoodId = (value: string): value is MoodId =>
+  Object.prototype.hasOwnProperty.call(moodRegistry, value);
+
+export const getMood = (id: MoodId): MoodDefinition => moodRegistry[id];
+
+// "Time Pressed", "time_pressed" and "time-pressed" all normalise to the same key
+const normalize = (text: string) => text.trim().toLowerCase().replace(/[\s_]+/g, '-');
+
+const moodsByKey = new Map<string, MoodDefinition>();
+moods.forEach(mood => {
+  [mood.id, mood.name, ...mood.aliases].forEach(key => {
+    const normalized = normalize(key);
+    if (!moodsByKey.has(normalized)) {
+      moodsByKey.set(normalized, mood);
+    }
+  });
+});
+
+// Resolves an id, display name or alias to its registry mood
+export const findMood = (text: string): MoodDefinition | null => moodsByKey.get(normalize(text)) || null;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Every phrase that names a mood, longest first, matched on word boundaries
+const moodPhrases = Array.from(moodsByKey.entries())
+  .map(([key, mood]) => ({ pattern: new RegExp(`\\b${escapeRegExp(key).replace(/-/g, '[\\s-]+')}\\b`, 'i'), length: key.length, mood }))
+  .sort((a, b) => b.length - a.length);
+
+// Finds the first mood named anywhere in free text ("feeling time pressed today")
+export const findMoodInText = (text: string): MoodDefinition | null =>
+  moodPhrases.find(({ pattern }) => pattern.test(text))?.mood || null;
+
+// Narrows a UI mood (which may be a user-typed custom mood) to a registry mood
+export const toRegistryMood = (mood: Mood | null): MoodDefinition | null =>
+  mood && isMoodId(mood.id) ? getMood(mood.id) : null;
+
+// Moods typed by the user that aren't in the registry: "__custom-rainy sunday"
+export const CUSTOM_MOOD_PREFIX = '__custom-';
+
+export const isCustomMoodId = (id: string): boolean => id.startsWith(CUSTOM_MOOD_PREFIX);
+
+export const createCustomMood = (text: string): Mood => ({
+  id: CUSTOM_MOOD_PREFIX + text.trim(),
+  name: text.trim(),
+  icon: '🙂',
+  description: 'Custom mood entered',
+});
+
+// Turns a mood id from a URL back into a mood, custom ones included
+export const resolveMoodId = (id: string): Mood | null => {
+  if (isMoodId(id)) {
+    return getMood(id);
+  }
+  const text = isCustomMoodId(id) ? id.slice(CUSTOM_MOOD_PREFIX.length).trim() : '';
+  return text ? createCustomMood(text) : null;
+};
@@ -1,214 +0,0 @@
-import { Mood } from '@/types/recipe';
-
-export const moods: Mood[] = [
-  {
-    id: 'happy',
-    name: 'Happy',
-    icon: '😊',
-    description: 'Feeling cheerful and content'
-  },
-  {
-    id: 'sad',
-    name: 'Sad',
-    icon: '😢',
-    description: 'Feeling down or blue'
-  },
-  {
-    id: 'energetic',
-    name: 'Energetic',
-    icon: '⚡',
-    description: 'Full of energy and ready to go'
-  },
-  {
-    id: 'tired',
-    name: 'Tired',
-    icon: '😴',
-    description: 'Feeling exhausted or sleepy'
-  },
-  {
-    id: 'stressed',
-    name: 'Stressed',
-    icon: '😰',
-    description: 'Feeling overwhelmed or anxious'
-  },
-  {
-    id: 'relaxed',
-    name: 'Relaxed',
-    icon: '😌',
-    description: 'Feeling calm and at ease'
-  },
-  {
-    id: 'hungry',
-    name: 'Hungry',
-    icon: '🍽️',
-    description: 'Ready for a satisfying meal'
-  },
-  {
-    id: 'nostalgic',
-    name: 'Nostalgic',
-    icon: '🕰️',
-    description: 'Reminiscing about the past'
-  },
-  {
-    id: 'adventurous',
-    name: 'Adventurous',
-    icon: '🌎',
-    description: 'Ready to try something new'
-  },
-  {
-    id: 'festive',
-    name: 'Festive',
-    icon: '🎉',
-    description: 'In a celebratory mood'
-  },
-  {
-    id: 'homesick',
-    name: 'Homesick',
-    icon: '🏠',
-    description: 'Missing the comforts of home'
-  },
-  {
-    id: 'romantic',
-    name: 'Romantic',
-    icon: '❤️',
-    description: 'In the mood for something special'
-  },
-  {
-    id: 'creative',
-    name: 'Creative',
-    icon: '🎨',
-    description: 'Feeling inspired and imaginative'
-  },
-  {
-    id: 'cozy',
-    name: 'Cozy',
-    icon: '🧣',
-    description: 'Seeking warmth and comfort'
-  },
-  {
-    id: 'indulgent',
-    name: 'Indulgent',
-    icon: '🍫',
-    description: 'Treating yourself to something special'
-  },
-  {
-    id: 'celebratory',
-    name: 'Celebratory',
-    icon: '🎊',
-    description: 'Commemorating a special occasion'
-  },
-  {
-    id: 'curious',
-    name: 'Curious',
-    icon: '🧐',
-    description: 'Interested in exploring new flavors'
-  },
-  {
-    id: 'sophisticated',
-    name: 'Sophisticated',
-    icon: '🥂',
-    description: 'In the mood for something elegant'
-  },
-  {
-    id: 'healthy-minded',
-    name: 'Health-Conscious',
-    icon: '🥗',
-    description: 'Focused on nutrition and wellbeing'
-  },
-  {
-    id: 'nostalgic-childhood',
-    name: 'Childhood Memories',
-    icon: '👶',
-    description: 'Craving foods from your youth'
-  },
-  {
-    id: 'wanderlust',
-    name: 'Wanderlust',
-    icon: '✈️',
-    description: 'Craving flavors from around the world'
-  },
-  {
-    id: 'fusion',
-    name: 'Fusion Explorer',
-    icon: '🔄',
-    description: 'Excited about mixed cultural cuisines'
-  },
-  {
-    id: 'traditional',
-    name: 'Traditional',
-    icon: '📜',
-    description: 'Appreciating authentic cultural dishes'
-  },
-  {
-    id: 'spice-lover',
-    name: 'Spice Lover',
-    icon: '🌶️',
-    description: 'Craving bold, spicy flavors'
-  },
-  {
-    id: 'comfort-seeker',
-    name: 'Comfort Seeker',
-    icon: '🧸',
-    description: 'Looking for familiar, soothing foods'
-  },
-  {
-    id: 'proud',
-    name: 'Proud',
-    icon: '🏆',
-    description: 'Celebrating achievements and milestones'
-  },
-  {
-    id: 'mindful',
-    name: 'Mindful',
-    icon: '🧘',
-    description: 'Being present and conscious of choices'
-  },
-  {
-    id: 'decadent',
-    name: 'Decadent',
-    icon: '✨',
-    description: 'Seeking rich, luxurious experiences'
-  },
-  {
-    id: 'nostalgic-travel',
-    name: 'Travel Memories',
-    icon: '🗺️',
-    description: 'Reminiscing about food from past travels'
-  },
-  {
-    id: 'seasonal',
-    name: 'Seasonal',
-    icon: '🍂',
-    description: 'Enjoying foods from the current season'
-  },
-  {
-    id: 'social',
-    name: 'Social',
-    icon: '👥',
-    description: 'Foods perfect for sharing with friends'
-  },
-  {
-    id: 'comforting',
-    name: 'Comforting',
-    icon: '🛋️',
-    description: 'Seeking emotional comfort through food'
-  },
-  {
-    id: 'inspired',
-    name: 'Inspired',
-    icon: '💫',
-    description: 'Ready to create something impressive'
-  },
-  {
-    id: 'time-pressed',
-    name: 'Time-Pressed',
-    icon: '⏱️',
-    description: 'Need something quick but satisfying'
-  },
-  {
-    id: 'refreshed',
-    name: 'Refreshed',
-    icon: '🌿',
-    description: 'Craving something cool and revitalizing'
-  }
-];
@@ -0,0 +1,275 @@
+import { NutritionFacts } from '@/types/nutrition';
+
+export interface IngredientNutrients {
+  per100g: NutritionFacts;
+  pieceGrams?: number; // Weight of one whole item, for counts like "2 eggs"
+  typicalGrams?: number; // Amount assumed for the whole recipe when no quantity is given
+}
+
+const per100g = (
+  calories: number, protein: number, carbs: number, fat: number, fiber: number, sugar: number,
+  sodium: number, vitaminC: number, calcium: number, iron: number, potassium: number
+): NutritionFacts => ({
+  calories, protein, carbs, fat, fiber, sugar, sodium,
+  micronutrients: { vitaminC, calcium, iron, potassium },
+});
+
+// Dried spices and fresh herbs are used in such small amounts that one profile each is close enough
+const SPICE = { per100g: per100g(300, 12, 55, 10, 30, 2, 50, 5, 500, 30, 1500), typicalGrams: 3 };
+const HERB = { per100g: per100g(40, 3, 6, 0.7, 4, 0.5, 20, 30, 150, 4, 500), typicalGrams: 5 };
+const BROTH = { per100g: per100g(6, 0.6, 0.4, 0.2, 0, 0.3, 343, 0, 3, 0.2, 22), typicalGrams: 500 };
+
+// Approximate values per 100 g, rounded from USDA FoodData Central. Keys are matched
+// against the parsed ingredient name on word boundaries, longest key first, and
+// also match simple plurals ("egg" matches "eggs").
+//
+//                                        kcal  prot  carb   fat  fib  sugar  Na mg  vitC  Ca    Fe    K
+export const INGREDIENT_NUTRIENTS: Record<string, IngredientNutrients> = {
+  // Grains, breads and pasta
+  flour: { per100g: per100g(364, 10, 76, 1, 2.7, 0.3, 2, 0, 15, 4.6, 107), typicalGrams: 60 },
+  'gram flour': { per100g: per100g(387, 22, 58, 6.7, 11, 11, 64, 0, 45, 4.9, 846), typicalGrams: 60 },
+  rice: { per100g: per100g(360, 6.6, 79, 0.6, 1.3, 0.1, 5, 0, 9, 0.8, 86), typicalGrams: 300 },
+  'cooked rice': { per100g: per100g(130, 2.7, 28, 0.3, 0.4, 0.1, 1, 0, 10, 0.2, 35), typicalGrams: 600 },
+  'steamed rice': { per100g: per100g(130, 2.7, 28, 0.3, 0.4, 0.1, 1, 0, 10, 0.2, 35), typicalGrams: 600 },
+  'brown rice': { per100g: per100g(367, 7.5, 76, 3.2, 3.4, 0.9, 4, 0, 9, 1.5, 250), typicalGrams: 300 },
+  'rice noodles': { per100g: per100g(364, 6, 80, 0.6, 1.6, 0.1, 182, 0, 18, 0.7, 30), typicalGrams: 250 },
+  'rice vermicelli': { per100g: per100g(364, 6, 80, 0.6, 1.6, 0.1, 182, 0, 18, 0.7, 30), typicalGrams: 200 },
+  'rice paper': { per100g: per100g(334, 5.9, 76, 0.6, 1.6, 0, 470, 0, 20, 1, 20), pieceGrams: 9 },
+  'rice cakes': { per100g: per100g(232, 4, 51, 0.5, 0.7, 0, 500, 0, 5, 0.3, 30), typicalGrams: 300 },
+  quinoa: { per100g: per100g(368, 14, 64, 6.1, 7, 0, 5, 0, 47, 4.6, 563), typicalGrams: 170 },
+  oats: { per100g: per100g(379, 13, 68, 6.5, 10, 1, 6, 0, 52, 4.3, 362), typicalGrams: 80 },
+  granola: { per100g: per100g(471, 10, 64, 20, 5.3, 25, 26, 1.2, 76, 3, 539), typicalGrams: 60 },
+  pasta: { per100g: per100g(371, 13, 75, 1.5, 3.2, 2.7, 6, 0, 21, 3.3, 223), typicalGrams: 400 },
+  spaghetti: { per100g: per100g(371, 13, 75, 1.5, 3.2, 2.7, 6, 0, 21, 3.3, 223), typicalGrams: 400 },
+  macaroni: { per100g: per100g(371, 13, 75, 1.5, 3.2, 2.7, 6, 0, 21, 3.3, 223), typicalGrams: 400 },
+  'lasagna sheets': { per100g: per100g(371, 13, 75, 1.5, 3.2, 2.7, 6, 0, 21, 3.3, 223), pieceGrams: 20 },
+  noodles: { per100g: per100g(384, 14, 71, 4.4, 3.3, 1.9, 21, 0, 29, 4.5, 244), typicalGrams: 300 },
+  'ramen noodles': { per100g: per100g(436, 10, 62, 16, 2.4, 1.5, 1160, 0, 21, 4.3, 120), pieceGrams: 85, typicalGrams: 170 },
+  bread: { per100g: per100g(265, 9, 49, 3.2, 2.7, 5, 491, 0, 260, 3.6, 115), pieceGrams: 30, typicalGrams: 120 },
+  baguette: { per100g: per100g(274, 11, 52, 1.6, 2.2, 4.3, 594, 0, 52, 3.9, 117), pieceGrams: 250 },
+  buns: { per100g: per100g(279, 9.5, 50, 4.3, 2, 6.6, 490, 0, 138, 3.3, 129), pieceGrams: 60 },
+  tortillas: { per100g: per100g(312, 8.3, 52, 8, 3.2, 3.1, 736, 0, 121, 3.6, 125), pieceGrams: 45 },
+  wrap: { per100g: per100g(300, 9, 50, 7, 6, 3, 650, 0, 100, 3, 150), pieceGrams: 60 },
+  'pizza dough': { per100g: per100g(250, 7.5, 48, 3, 1.8, 2, 500, 0, 15, 2.7, 100), typicalGrams: 400 },
+  'pizza bases': { per100g: per100g(270, 9, 50, 4, 2, 3, 550, 0, 20, 3, 120), pieceGrams: 100 },
+  'pie crust': { per100g: per100g(527, 6.5, 53, 32, 1.7, 2.4, 471, 0, 21, 2.5, 117), typicalGrams: 200 },
+  'puff pastry': { per100g: per100g(558, 7.4, 46, 39, 1.6, 0.7, 253, 0, 14, 2.8, 84), typicalGrams: 250 },
+  breadcrumbs: { per100g: per100g(395, 13, 72, 5.3, 4.5, 6.2, 732, 0, 183, 4.8, 196), typicalGrams: 50 },
+  ladyfingers: { per100g: per100g(365, 11, 60, 9, 1, 36, 147, 0, 43, 3.7, 106), pieceGrams: 10 },
+  'pound cake': { per100g: per100g(388, 5.5, 49, 19, 0.5, 26, 310, 0, 35, 1.4, 102), typicalGrams: 200 },
+  pancakes: { per100g: per100g(227, 6.4, 28, 9.7, 1, 5, 439, 0, 219, 1.8, 132), pieceGrams: 20 },
+
+  // Meat, fish and eggs
+  chicken: { per100g: per100g(190, 27, 0, 9, 0, 0, 82, 0, 12, 1, 240), pieceGrams: 1500, typicalGrams: 500 },
+  'chicken breast': { per100g: per100g(165, 31, 0, 3.6, 0, 0, 74, 0, 15, 1, 256), pieceGrams: 200, typicalGrams: 400 },
+  'chicken thighs': { per100g: per100g(209, 26, 0, 11, 0, 0, 84, 0, 11, 1.1, 222), pieceGrams: 120, typicalGrams: 500 },
+  'chicken wings': { per100g: per100g(203, 30, 0, 8.1, 0, 0, 82, 0, 15, 1.2, 220), pieceGrams: 35, typicalGrams: 500 },
+  turkey: { per100g: per100g(189, 29, 0, 7.4, 0, 0, 103, 0, 21, 1.4, 239), pieceGrams: 5000 },
+  duck: { per100g: per100g(337, 19, 0, 28, 0, 0, 59, 0, 11, 2.7, 204), pieceGrams: 2200, typicalGrams: 1000 },
+  beef: { per100g: per100g(250, 26, 0, 15, 0, 0, 72, 0, 18, 2.6, 318), typicalGrams: 500 },
+  'ground beef': { per100g: per100g(254, 17, 0, 20, 0, 0, 66, 0, 18, 1.9, 270), typicalGrams: 500 },
+  'ground lamb': { per100g: per100g(282, 17, 0, 23, 0, 0, 59, 0, 16, 1.6, 222), typicalGrams: 500 },
+  veal: { per100g: per100g(172, 24, 0, 7.6, 0, 0, 82, 0, 17, 1, 300), pieceGrams: 150 },
+  pork: { per100g: per100g(242, 27, 0, 14, 0, 0, 62, 0, 19, 0.9, 423), typicalGrams: 500 },
+  bacon: { per100g: per100g(541, 37, 1.4, 42, 0, 0, 1717, 0, 11, 1.4, 565), pieceGrams: 10, typicalGrams: 100 },
+  pancetta: { per100g: per100g(458, 15, 0, 44, 0, 0, 1800, 0, 8, 0.8, 300), typicalGrams: 100 },
+  prosciutto: { per100g: per100g(250, 26, 0, 16, 0, 0, 2300, 0, 10, 1, 400), pieceGrams: 15, typicalGrams: 100 },
+  chorizo: { per100g: per100g(455, 24, 1.9, 38, 0, 0, 1235, 0, 8, 1.6, 398), typicalGrams: 150 },
+  sausages: { per100g: per100g(301, 12, 1.4, 27, 0, 0, 749, 0, 11, 0.9, 204), pieceGrams: 70 },
+  salmon: { per100g: per100g(208, 20, 0, 13, 0, 0, 59, 0, 9, 0.3, 363), pieceGrams: 170, typicalGrams: 340 },
+  tuna: { per100g: per100g(132, 28, 0, 1.3, 0, 0, 47, 0, 4, 0.8, 441), typicalGrams: 300 },
+  'white fish': { per100g: per100g(90, 19, 0, 1, 0, 0, 70, 0, 20, 0.3, 350), pieceGrams: 150, typicalGrams: 400 },
+  shrimp: { per100g: per100g(99, 24, 0.2, 0.3, 0, 0, 111, 0, 70, 0.5, 259), pieceGrams: 15, typicalGrams: 300 },
+  mussels: { per100g: per100g(86, 12, 3.7, 2.2, 0, 0, 286, 8, 26, 4, 320), typicalGrams: 500 },
+  seafood: { per100g: per100g(90, 17, 2, 1.5, 0, 0, 300, 2, 50, 2.5, 280), typicalGrams: 400 },
+  'fish cakes': { per100g: per100g(172, 15, 9, 8.5, 0.5, 1, 600, 0, 30, 0.8, 250), pieceGrams: 40 },
+  tobiko: { per100g: per100g(140, 24, 1.5, 6.4, 0, 0, 1500, 16, 22, 0.6, 180), typicalGrams: 30 },
+  egg: { per100g: per100g(143, 13, 0.7, 9.5, 0, 0.4, 142, 0, 56, 1.8, 138), pieceGrams: 50, typicalGrams: 100 },
+  'egg yolk': { per100g: per100g(322, 16, 3.6, 27, 0, 0.6, 48, 0, 129, 2.7, 109), pieceGrams: 17 },
+  tofu: { per100g: per100g(76, 8, 1.9, 4.8, 0.3, 0.6, 7, 0.1, 350, 5.4, 121), typicalGrams: 400 },
+  'silken tofu': { per100g: per100g(55, 4.8, 2.9, 2.7, 0.1, 1.3, 5, 0, 31, 0.8, 180), typicalGrams: 400 },
+  jackfruit: { per100g: per100g(95, 1.7, 23, 0.6, 1.5, 19, 2, 14, 24, 0.2, 448), typicalGrams: 400 },
+
+  // Dairy and fats
+  milk: { per100g: per100g(61, 3.2, 4.8, 3.3, 0, 5.1, 43, 0, 113, 0, 132), typicalGrams: 250 },
+  'almond milk': { per100g: per100g(15, 0.6, 0.6, 1.2, 0.2, 0, 72, 0, 184, 0.3, 67), typicalGrams: 250 },
+  'coconut milk': { per100g: per100g(230, 2.3, 6, 24, 2.2, 3.3, 15, 2.8, 16, 1.6, 263), typicalGrams: 200 },
+  cream: { per100g: per100g(340, 2.8, 2.7, 36, 0, 2.9, 27, 0.6, 66, 0, 95), typicalGrams: 100 },
+  'clotted cream': { per100g: per100g(586, 1.6, 2.3, 64, 0, 2.3, 18, 0, 50, 0, 60), typicalGrams: 100 },
+  'cream cheese': { per100g: per100g(342, 6, 4.1, 34, 0, 3.2, 321, 0, 98, 0.4, 138), typicalGrams: 100 },
+  mascarpone: { per100g: per100g(429, 4.8, 4.8, 44, 0, 0.2, 40, 0, 143, 0, 60), typicalGrams: 250 },
+  yogurt: { per100g: per100g(61, 3.5, 4.7, 3.3, 0, 4.7, 46, 0.5, 121, 0.1, 155), typicalGrams: 200 },
+  'greek yogurt': { per100g: per100g(59, 10, 3.6, 0.4, 0, 3.2, 36, 0, 110, 0.1, 141), typicalGrams: 200 },
+  tzatziki: { per100g: per100g(94, 4, 4.5, 7, 0.3, 3.5, 300, 1.5, 100, 0.2, 150), typicalGrams: 150 },
+  cheese: { per100g: per100g(402, 25, 1.3, 33, 0, 0.5, 621, 0, 721, 0.7, 98), pieceGrams: 20, typicalGrams: 100 },
+  mozzarella: { per100g: per100g(280, 28, 3.1, 17, 0, 1, 627, 0, 505, 0.4, 76), typicalGrams: 125 },
+  parmesan: { per100g: per100g(431, 38, 4.1, 29, 0, 0.9, 1529, 0, 1184, 0.8, 92), typicalGrams: 30 },
+  feta: { per100g: per100g(264, 14, 4.1, 21, 0, 4.1, 917, 0, 493, 0.7, 62), typicalGrams: 100 },
+  butter: { per100g: per100g(717, 0.9, 0.1, 81, 0, 0.1, 11, 0, 24, 0, 24), typicalGrams: 30 },
+  ghee: { per100g: per100g(876, 0.3, 0, 99, 0, 0, 2, 0, 4, 0, 5), typicalGrams: 30 },
+  'chili oil': { per100g: per100g(884, 0, 0, 100, 0, 0, 0, 0, 1, 0.6, 1), typicalGrams: 10 },
+  oil: { per100g: per100g(884, 0, 0, 100, 0, 0, 0, 0, 1, 0.6, 1), typicalGrams: 20 },
+  mayo: { per100g: per100g(680, 1, 0.6, 75, 0, 0.6, 635, 0, 8, 0.2, 20), typicalGrams: 30 },
+  mayonnaise: { per100g: per100g(680, 1, 0.6, 75, 0, 0.6, 635, 0, 8, 0.2, 20), typicalGrams: 30 },
+
+  // Vegetables
+  onion: { per100g: per100g(40, 1.1, 9.3, 0.1, 1.7, 4.2, 4, 7.4, 23, 0.2, 146), pieceGrams: 110, typicalGrams: 110 },
+  'green onion': { per100g: per100g(32, 1.8, 7.3, 0.2, 2.6, 2.3, 16, 19, 72, 1.5, 276), pieceGrams: 15, typicalGrams: 15 },
+  scallions: { per100g: per100g(32, 1.8, 7.3, 0.2, 2.6, 2.3, 16, 19, 72, 1.5, 276), pieceGrams: 15, typicalGrams: 15 },
+  shallots: { per100g: per100g(72, 2.5, 17, 0.1, 3.2, 7.9, 12, 8, 37, 1.2, 334), pieceGrams: 30 },
+  leek: { per100g: per100g(61, 1.5, 14, 0.3, 1.8, 3.9, 20, 12, 59, 2.1, 180), pieceGrams: 90 },
+  garlic: { per100g: per100g(149, 6.4, 33, 0.5, 2.1, 1, 17, 31, 181, 1.7, 401), pieceGrams: 4, typicalGrams: 10 },
+  ginger: { per100g: per100g(80, 1.8, 18, 0.8, 2, 1.7, 13, 5, 16, 0.6, 415), typicalGrams: 10 },
+  tomato: { per100g: per100g(18, 0.9, 3.9, 0.2, 1.2, 2.6, 5, 14, 10, 0.3, 237), pieceGrams: 120, typicalGrams: 240 },
+  'cherry tomatoes': { per100g: per100g(18, 0.9, 3.9, 0.2, 1.2, 2.6, 5, 14, 10, 0.3, 237), pieceGrams: 17, typicalGrams: 150 },
+  'tomato sauce': { per100g: per100g(24, 1.2, 5.3, 0.3, 1.5, 3.6, 474, 7, 14, 1, 297), typicalGrams: 250 },
+  'tomato puree': { per100g: per100g(38, 1.7, 9, 0.2, 1.9, 4.8, 28, 11, 18, 1.8, 439), typicalGrams: 250 },
+  'bell pepper': { per100g: per100g(31, 1, 6, 0.3, 2.1, 4.2, 4, 128, 7, 0.4, 211), pieceGrams: 120, typicalGrams: 150 },
+  'green chili': { per100g: per100g(40, 2, 9.5, 0.2, 1.5, 5.1, 7, 242, 18, 1.2, 340), pieceGrams: 15, typicalGrams: 10 },
+  chili: { per100g: per100g(40, 2, 9.5, 0.2, 1.5, 5.1, 7, 144, 14, 1, 322), pieceGrams: 15, typicalGrams: 10 },
+  carrot: { per100g: per100g(41, 0.9, 9.6, 0.2, 2.8, 4.7, 69, 5.9, 33, 0.3, 320), pieceGrams: 60, typicalGrams: 100 },
+  celery: { per100g: per100g(16, 0.7, 3, 0.2, 1.6, 1.3, 80, 3.1, 40, 0.2, 260), pieceGrams: 40, typicalGrams: 40 },
+  potato: { per100g: per100g(77, 2, 17, 0.1, 2.2, 0.8, 6, 20, 12, 0.8, 425), pieceGrams: 170, typicalGrams: 500 },
+  'sweet potato': { per100g: per100g(86, 1.6, 20, 0.1, 3, 4.2, 55, 2.4, 30, 0.6, 337), pieceGrams: 130, typicalGrams: 300 },
+  'pumpkin puree': { per100g: per100g(34, 1.1, 8.1, 0.3, 2.9, 3.3, 5, 4.2, 26, 1.4, 206), typicalGrams: 250 },
+  spinach: { per100g: per100g(23, 2.9, 3.6, 0.4, 2.2, 0.4, 79, 28, 99, 2.7, 558), typicalGrams: 100 },
+  kale: { per100g: per100g(35, 2.9, 4.4, 1.5, 4.1, 1, 53, 93, 254, 1.6, 348), typicalGrams: 100 },
+  lettuce: { per100g: per100g(15, 1.4, 2.9, 0.2, 1.3, 0.8, 28, 9.2, 36, 0.9, 194), pieceGrams: 300, typicalGrams: 100 },
+  greens: { per100g: per100g(20, 2, 3.5, 0.3, 2, 0.5, 40, 20, 70, 1.5, 400), typicalGrams: 100 },
+  microgreens: { per100g: per100g(29, 2.2, 4.2, 0.5, 1.8, 0.5, 10, 40, 80, 1.5, 300), typicalGrams: 20 },
+  cabbage: { per100g: per100g(25, 1.3, 5.8, 0.1, 2.5, 3.2, 18, 37, 40, 0.5, 170), pieceGrams: 900, typicalGrams: 200 },
+  'slaw mix': { per100g: per100g(25, 1.3, 5.8, 0.1, 2.5, 3.2, 18, 37, 40, 0.5, 170), typicalGrams: 200 },
+  kimchi: { per100g: per100g(15, 1.1, 2.4, 0.5, 1.6, 1.1, 498, 0, 33, 2.5, 151), typicalGrams: 150 },
+  mushrooms: { per100g: per100g(22, 3.1, 3.3, 0.3, 1, 2, 5, 2.1, 3, 0.5, 318), pieceGrams: 18, typicalGrams: 200 },
+  avocado: { per100g: per100g(160, 2, 8.5, 15, 6.7, 0.7, 7, 10, 12, 0.6, 485), pieceGrams: 150, typicalGrams: 150 },
+  cucumber: { per100g: per100g(15, 0.7, 3.6, 0.1, 0.5, 1.7, 2, 2.8, 16, 0.3, 147), pieceGrams: 300, typicalGrams: 150 },
+  zucchini: { per100g: per100g(17, 1.2, 3.1, 0.3, 1, 2.5, 8, 18, 16, 0.4, 261), pieceGrams: 200, typicalGrams: 200 },
+  eggplant: { per100g: per100g(25, 1, 5.9, 0.2, 3, 3.5, 2, 2.2, 9, 0.2, 229), pieceGrams: 450, typicalGrams: 300 },
+  corn: { per100g: per100g(86, 3.3, 19, 1.4, 2, 6.3, 15, 6.8, 2, 0.5, 270), pieceGrams: 100, typicalGrams: 150 },
+  peas: { per100g: per100g(81, 5.4, 14, 0.4, 5.7, 5.7, 5, 40, 25, 1.5, 244), typicalGrams: 150 },
+  'green beans': { per100g: per100g(31, 1.8, 7, 0.2, 2.7, 3.3, 6, 12, 37, 1, 211), typicalGrams: 200 },
+  edamame: { per100g: per100g(121, 12, 8.9, 5.2, 5.2, 2.2, 6, 6.1, 63, 2.3, 436), typicalGrams: 150 },
+  'bean sprouts': { per100g: per100g(30, 3, 5.9, 0.2, 1.8, 4.1, 6, 13, 13, 0.9, 149), typicalGrams: 100 },
+  artichokes: { per100g: per100g(47, 3.3, 11, 0.2, 5.4, 1, 94, 12, 44, 1.3, 370), pieceGrams: 120 },
+  fennel: { per100g: per100g(31, 1.2, 7.3, 0.2, 3.1, 3.9, 52, 12, 49, 0.7, 414), pieceGrams: 230 },
+  radish: { per100g: per100g(16, 0.7, 3.4, 0.1, 1.6, 1.9, 39, 15, 25, 0.3, 233), pieceGrams: 10, typicalGrams: 50 },
+  vegetables: { per100g: per100g(35, 1.5, 7, 0.3, 2.5, 3, 30, 20, 30, 0.6, 250), typicalGrams: 300 },
+  olives: { per100g: per100g(145, 1, 3.8, 15, 3.3, 0.5, 1556, 0, 52, 0.5, 42), pieceGrams: 4, typicalGrams: 50 },
+  pickles: { per100g: per100g(11, 0.3, 2.3, 0.2, 1.2, 1.3, 1208, 1, 57, 0.4, 23), pieceGrams: 35, typicalGrams: 50 },
+  capers: { per100g: per100g(23, 2.4, 4.9, 0.9, 3.2, 0.4, 2348, 4.3, 40, 1.7, 40), typicalGrams: 15 },
+  'green papaya': { per100g: per100g(43, 0.5, 11, 0.3, 1.7, 7.8, 8, 61, 20, 0.3, 182), pieceGrams: 500, typicalGrams: 300 },
+  seaweed: { per100g: per100g(45, 3, 9, 0.6, 0.5, 0.7, 872, 3, 150, 2.2, 50), typicalGrams: 10 },
+  nori: { per100g: per100g(35, 5.8, 5.1, 0.3, 0.3, 0.5, 48, 39, 70, 1.8, 356), pieceGrams: 3, typicalGrams: 6 },
+
+  // Fruit
+  banana: { per100g: per100g(89, 1.1, 23, 0.3, 2.6, 12, 1, 8.7, 5, 0.3, 358), pieceGrams: 118, typicalGrams: 118 },
+  apple: { per100g: per100g(52, 0.3, 14, 0.2, 2.4, 10, 1, 4.6, 6, 0.1, 107), pieceGrams: 180 },
+  orange: { per100g: per100g(47, 0.9, 12, 0.1, 2.4, 9.4, 0, 53, 40, 0.1, 181), pieceGrams: 130, typicalGrams: 130 },
+  'orange juice': { per100g: per100g(45, 0.7, 10, 0.2, 0.2, 8.4, 1, 50, 11, 0.2, 200), typicalGrams: 250 },
+  grapefruit: { per100g: per100g(42, 0.8, 11, 0.1, 1.6, 6.9, 0, 31, 22, 0.1, 135), pieceGrams: 250 },
+  lemon: { per100g: per100g(29, 1.1, 9.3, 0.3, 2.8, 2.5, 2, 53, 26, 0.6, 138), pieceGrams: 60, typicalGrams: 30 },
+  lime: { per100g: per100g(30, 0.7, 11, 0.2, 2.8, 1.7, 2, 29, 33, 0.6, 102), pieceGrams: 45, typicalGrams: 30 },
+  'lemon juice': { per100g: per100g(22, 0.4, 6.9, 0.2, 0.3, 2.5, 1, 39, 6, 0.1, 103), typicalGrams: 15 },
+  'lime juice': { per100g: per100g(25, 0.4, 8.4, 0.1, 0.4, 1.7, 2, 30, 14, 0.1, 117), typicalGrams: 15 },
+  mango: { per100g: per100g(60, 0.8, 15, 0.4, 1.6, 14, 1, 36, 11, 0.2, 168), pieceGrams: 200, typicalGrams: 200 },
+  pineapple: { per100g: per100g(50, 0.5, 13, 0.1, 1.4, 10, 1, 48, 13, 0.3, 109), pieceGrams: 900, typicalGrams: 150 },
+  kiwi: { per100g: per100g(61, 1.1, 15, 0.5, 3, 9, 3, 93, 34, 0.3, 312), pieceGrams: 75 },
+  'dragon fruit': { per100g: per100g(60, 1.2, 13, 0, 3, 8, 0, 3, 18, 0.7, 116), pieceGrams: 350 },
+  grapes: { per100g: per100g(69, 0.7, 18, 0.2, 0.9, 16, 2, 3.2, 10, 0.4, 191), typicalGrams: 150 },
+  berries: { per100g: per100g(50, 0.7, 12, 0.3, 2.4, 7, 1, 30, 12, 0.3, 100), typicalGrams: 150 },
+  blueberries: { per100g: per100g(57, 0.7, 14, 0.3, 2.4, 10, 1, 9.7, 6, 0.3, 77), typicalGrams: 150 },
+  strawberries: { per100g: per100g(32, 0.7, 7.7, 0.3, 2, 4.9, 1, 59, 16, 0.4, 153), pieceGrams: 12, typicalGrams: 150 },
+  'pomegranate seeds': { per100g: per100g(83, 1.7, 19, 1.2, 4, 14, 3, 10, 10, 0.3, 236), typicalGrams: 50 },
+  dates: { per100g: per100g(277, 1.8, 75, 0.2, 6.7, 66, 1, 0, 64, 0.9, 696), pieceGrams: 24 },
+  fruit: { per100g: per100g(55, 0.7, 14, 0.2, 2, 10, 1, 25, 12, 0.3, 150), typicalGrams: 150 },
+
+  // Legumes, nuts and seeds
+  beans: { per100g: per100g(127, 8.7, 23, 0.5, 6.4, 0.3, 2, 1.2, 35, 2.9, 403), typicalGrams: 240 },
+  chickpeas: { per100g: per100g(164, 8.9, 27, 2.6, 7.6, 4.8, 7, 1.3, 49, 2.9, 291), typicalGrams: 240 },
+  lentils: { per100g: per100g(352, 25, 63, 1.1, 11, 2, 6, 4.5, 35, 6.5, 677), typicalGrams: 200 },
+  hummus: { per100g: per100g(166, 7.9, 14, 9.6, 6, 0.3, 379, 0, 38, 2.4, 228), typicalGrams: 100 },
+  peanuts: { per100g: per100g(567, 26, 16, 49, 8.5, 4, 18, 0, 92, 4.6, 705), typicalGrams: 30 },
+  'peanut butter': { per100g: per100g(588, 25, 20, 50, 6, 9.2, 459, 0, 43, 1.9, 649), typicalGrams: 32 },
+  nuts: { per100g: per100g(607, 20, 21, 54, 7, 4.4, 10, 0.5, 120, 3.5, 632), typicalGrams: 30 },
+  walnuts: { per100g: per100g(654, 15, 14, 65, 6.7, 2.6, 2, 1.3, 98, 2.9, 441), typicalGrams: 30 },
+  'chia seeds': { per100g: per100g(486, 17, 42, 31, 34, 0, 16, 1.6, 631, 7.7, 407), typicalGrams: 15 },
+  'flax seeds': { per100g: per100g(534, 18, 29, 42, 27, 1.6, 30, 0.6, 255, 5.7, 813), typicalGrams: 15 },
+  'sesame seeds': { per100g: per100g(573, 18, 23, 50, 12, 0.3, 11, 0, 975, 15, 468), typicalGrams: 10 },
+  seeds: { per100g: per100g(560, 20, 20, 47, 10, 1.5, 10, 1, 150, 6, 700), typicalGrams: 20 },
+  tahini: { per100g: per100g(595, 17, 21, 54, 9.3, 0.5, 115, 0, 426, 8.9, 414), typicalGrams: 30 },
+
+  // Sweeteners and baking
+  sugar: { per100g: per100g(387, 0, 100, 0, 0, 100, 1, 0, 1, 0, 2), typicalGrams: 50 },
+  'brown sugar': { per100g: per100g(380, 0.1, 98, 0, 0, 97, 28, 0, 83, 0.7, 133), typicalGrams: 50 },
+  honey: { per100g: per100g(304, 0.3, 82, 0, 0.2, 82, 4, 0.5, 6, 0.4, 52), typicalGrams: 30 },
+  'maple syrup': { per100g: per100g(260, 0, 67, 0.1, 0, 60, 12, 0, 102, 0.1, 212), typicalGrams: 30 },
+  jam: { per100g: per100g(278, 0.4, 69, 0.1, 1.1, 49, 32, 8.8, 20, 0.5, 77), typicalGrams: 40 },
+  marshmallows: { per100g: per100g(318, 1.8, 81, 0.2, 0.1, 58, 80, 0, 3, 0.2, 5), pieceGrams: 7, typicalGrams: 50 },
+  chocolate: { per100g: per100g(546, 4.9, 61, 31, 7, 48, 24, 0, 73, 8, 559), typicalGrams: 100 },
+  'chocolate chips': { per100g: per100g(479, 4.2, 63, 30, 5.9, 55, 11, 0, 32, 3.1, 365), typicalGrams: 100 },
+  'cocoa powder': { per100g: per100g(228, 20, 58, 14, 37, 1.8, 21, 0, 128, 14, 1524), typicalGrams: 20 },
+  'protein powder': { per100g: per100g(400, 80, 8, 4, 0, 3, 300, 0, 400, 2, 500), pieceGrams: 30 },
+  gelatin: { per100g: per100g(335, 86, 0, 0.1, 0, 0, 196, 0, 55, 1.1, 16), typicalGrams: 10 },
+  yeast: { per100g: per100g(325, 40, 41, 7.6, 27, 0, 51, 0.3, 30, 2.2, 955), typicalGrams: 7 },
+  vanilla: { per100g: per100g(288, 0.1, 13, 0.1, 0, 13, 9, 0, 11, 0.1, 148), pieceGrams: 2, typicalGrams: 5 },
+
+  // Sauces, broths and seasonings
+  'soy sauce': { per100g: per100g(53, 8.1, 4.9, 0.6, 0.8, 0.4, 5493, 0, 33, 1.5, 435), typicalGrams: 30 },
+  'fish sauce': { per100g: per100g(35, 5.1, 3.6, 0, 0, 3.6, 7851, 0.5, 43, 0.8, 288), typicalGrams: 15 },
+  'hoisin sauce': { per100g: per100g(220, 3.3, 44, 3.4, 2.8, 27, 1615, 0.4, 32, 1, 119), typicalGrams: 30 },
+  'ponzu sauce': { per100g: per100g(60, 4, 8, 0, 0, 4, 3500, 5, 20, 1, 200), typicalGrams: 30 },
+  'okonomiyaki sauce': { per100g: per100g(130, 1.5, 30, 0.1, 0.8, 25, 2200, 0, 20, 1, 250), typicalGrams: 30 },
+  'tamarind sauce': { per100g: per100g(170, 1.5, 42, 0.3, 2, 35, 800, 1, 40, 1.5, 300), typicalGrams: 30 },
+  'tamarind paste': { per100g: per100g(239, 2.8, 63, 0.6, 5.1, 57, 28, 3.5, 74, 2.8, 628), typicalGrams: 30 },
+  'taco sauce': { per100g: per100g(36, 1.2, 7, 0.3, 1.3, 4, 700, 3, 15, 0.6, 250), typicalGrams: 50 },
+  'hot sauce': { per100g: per100g(11, 0.5, 1.8, 0.4, 0.3, 1.3, 2643, 75, 8, 0.5, 144), typicalGrams: 10 },
+  sriracha: { per100g: per100g(93, 1.9, 19, 0.9, 2.2, 15, 2124, 27, 18, 1.6, 321), typicalGrams: 15 },
+  gochujang: { per100g: per100g(210, 4.6, 43, 1.6, 3, 22, 2800, 0, 30, 3, 400), typicalGrams: 30 },
+  'miso paste': { per100g: per100g(199, 12, 26, 6, 5.4, 6.2, 3728, 0, 57, 2.5, 210), typicalGrams: 30 },
+  'harissa paste': { per100g: per100g(150, 3, 14, 9, 6, 7, 2000, 30, 60, 3, 500), typicalGrams: 20 },
+  'curry paste': { per100g: per100g(120, 3, 14, 6, 5, 5, 3000, 10, 60, 3, 400), typicalGrams: 30 },
+  'béchamel sauce': { per100g: per100g(130, 3.7, 9, 8.5, 0.2, 4, 300, 0.5, 110, 0.3, 150), typicalGrams: 300 },
+  'dijon mustard': { per100g: per100g(66, 4.4, 5.8, 4, 3.3, 0.9, 1135, 0.3, 63, 1.6, 138), typicalGrams: 10 },
+  vinegar: { per100g: per100g(18, 0, 0.9, 0, 0, 0.4, 2, 0, 6, 0, 2), typicalGrams: 15 },
+  broth: BROTH,
+  stock: BROTH,
+  'chicken broth': BROTH,
+  'chicken stock': BROTH,
+  'beef broth': BROTH,
+  'beef stock': BROTH,
+  'vegetable stock': BROTH,
+  wine: { per100g: per100g(85, 0.1, 2.6, 0, 0, 0.6, 4, 0, 8, 0.5, 127), typicalGrams: 150 },
+  tea: { per100g: per100g(1, 0, 0.3, 0, 0, 0, 3, 0, 0, 0, 37), typicalGrams: 5 },
+  espresso: { per100g: per100g(9, 0.1, 1.7, 0.2, 0, 0, 14, 0.2, 2, 0.1, 115), typicalGrams: 60 },
+  'coconut water': { per100g: per100g(19, 0.7, 3.7, 0.2, 1.1, 2.6, 105, 2.4, 24, 0.3, 250), typicalGrams: 250 },
+  water: { per100g: per100g(0, 0, 0, 0, 0, 0, 4, 0, 3, 0, 0), typicalGrams: 250 },
+  'ice cubes': { per100g: per100g(0, 0, 0, 0, 0, 0, 4, 0, 3, 0, 0), typicalGrams: 250 },
+  salt: { per100g: per100g(0, 0, 0, 0, 0, 0, 38758, 0, 24, 0.3, 8), typicalGrams: 3 },
+  'black pepper': { per100g: per100g(251, 10, 64, 3.3, 25, 0.6, 20, 0, 443, 9.7, 1329), typicalGrams: 1 },
+  spices: SPICE,
+  seasoning: SPICE,
+  'taco seasoning': SPICE,
+  'garam masala': SPICE,
+  'chili powder': SPICE,
+  'crushed red pepper': SPICE,
+  peppercorns: SPICE,
+  paprika: SPICE,
+  cumin: SPICE,
+  turmeric: SPICE,
+  cinnamon: SPICE,
+  nutmeg: SPICE,
+  oregano: SPICE,
+  'star anise': SPICE,
+  'mustard seeds': SPICE,
+  'bay leaf': SPICE,
+  saffron: SPICE,
+  herbs: HERB,
+  basil: HERB,
+  mint: HERB,
+  thyme: HERB,
+  rosemary: HERB,
+  cilantro: HERB,
+  'lime leaves': HERB,
+  lavender: HERB,
+  chamomile: HERB,
+};
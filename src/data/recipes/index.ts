@@ -1,82 +1,55 @@
+import { MoodId, Recipe } from '@/types/recipe';
+import { moodFiles, recipeMoods } from 'virtual:recipe-catalog';
 
-import { happyRecipes } from './happyRecipes';
-import { sadRecipes } from './sadRecipes';
-import { energeticRecipes } from './energeticRecipes';
-import { tiredRecipes } from './tired';
-import { relaxedRecipes } from './relaxedRecipes';
-import { playfulRecipes } from './playfulRecipes';
-import { romanticRecipes } from './romanticRecipes';
-import { creativeRecipes } from './creativeRecipes';
-import { nostalgicRecipes } from './nostalgicRecipes';
-import { spicyRecipes } from './spicyRecipes';
-import { sweetRecipes } from './sweetRecipes';
-import { exoticRecipes } from './exoticRecipes';
-import { festiveRecipes } from './festiveRecipes';
-import { adventurousRecipes } from './adventurousRecipes';
-import { focusedRecipes } from './focusedRecipes';
-import { calmRecipes } from './calmRecipes';
-import { cozyRecipes } from './cozyRecipes';
+// The catalog is one JSON file per recipe in ./catalog/<mood>/. The build validates them
+// and emits each mood as its own asset; a mood's recipes are fetched the first time
+// something asks for them and kept for the rest of the session.
 
-import { refreshedRecipes } from './refreshedRecipes';
-import { timePressedRecipes } from './timePressedRecipes';
-import { inspiredRecipes } from './inspiredRecipes';
-import { stressedRecipes } from './stressedRecipes';
-import { hungryRecipes } from './hungryRecipes';
-import { homesickRecipes } from './homesickRecipes';
-import { indulgentRecipes } from './indulgentRecipes';
-import { celebratoryRecipes } from './celebratoryRecipes';
-import { curiousRecipes } from './curiousRecipes';
-import { healthConsciousRecipes } from './healthConsciousRecipes';
-import { sophisticatedRecipes } from './sophisticatedRecipes';
-import { childhoodMemoriesRecipes } from './childhoodMemoriesRecipes';
-import { wanderlustRecipes } from './wanderlustRecipes';
-import { traditionalRecipes } from './traditionalRecipes';
-import { spiceLoverRecipes } from './spiceLoverRecipes';
-import { comfortSeekerRecipes } from './comfortSeekerRecipes';
-import { decadentRecipes } from './decadentRecipes';
-import { seasonalRecipes } from './seasonalRecipes';
-import { socialRecipes } from './socialRecipes';
-import { comfortingRecipes } from './comfortingRecipes';
+export const RECIPE_CATALOG_EVENT = 'recipe-catalog-change';
 
-export const recipesData = {
-  happy: happyRecipes,
-  sad: sadRecipes,
-  energetic: energeticRecipes,
-  tired: tiredRecipes,
-  relaxed: relaxedRecipes,
-  playful: playfulRecipes,
-  romantic: romanticRecipes,
-  creative: creativeRecipes,
-  nostalgic: nostalgicRecipes,
-  spicy: spicyRecipes,
-  sweet: sweetRecipes,
-  exotic: exoticRecipes,
-  festive: festiveRecipes,
-  adventurous: adventurousRecipes,
-  focused: focusedRecipes,
-  calm: calmRecipes,
-  cozy: cozyRecipes,
+type Catalog = Partial<Record<MoodId, Recipe[]>>;
 
-  refreshed: refreshedRecipes,
-  'time pressed': timePressedRecipes,
-  inspired: inspiredRecipes,
-  stressed: stressedRecipes,
-  hungry: hungryRecipes,
-  homesick: homesickRecipes,
-  indulgent: indulgentRecipes,
-  celebratory: celebratoryRecipes,
-  curious: curiousRecipes,
-  'health conscious': healthConsciousRecipes,
-  sophisticated: sophisticatedRecipes,
-  'childhood memories': childhoodMemoriesRecipes,
-  wanderlust: wanderlustRecipes,
-  traditional: traditionalRecipes,
-  'spice lover': spiceLoverRecipes,
-  'comfort seeker': comfortSeekerRecipes,
-  decadent: decadentRecipes,
-  seasonal: seasonalRecipes,
-  social: socialRecipes,
-  comforting: comfortingRecipes,
+// Replaced (never mutated) on every load so callers can memoize on its identity
+let loadedCatalog: Catalog = {};
+const pendingMoods = new Map<MoodId, Promise<Recipe[]>>();
+
+export const CATALOG_MOODS = Object.keys(moodFiles) as MoodId[];
+
+// Recipes fetched so far, keyed by mood
+export const getLoadedCatalog = (): Catalog => loadedCatalog;
+
+// The mood file a built-in recipe lives in, known before anything is fetched
+export const getCatalogMood = (recipeId: string): MoodId | null => recipeMoods[recipeId] || null;
+
+export const loadMoodRecipes = (mood: MoodId): Promise<Recipe[]> => {
+  if (loadedCatalog[mood]) {
+    return Promise.resolve(loadedCatalog[mood]);
+  }
+  if (!moodFiles[mood]) {
+    return Promise.resolve([]);
+  }
+
+  if (!pendingMoods.has(mood)) {
+    const request = fetch(moodFiles[mood])
+      .then(response => {
+        if (!response.ok) {
+          throw new Error(`Could not load ${mood} recipes (${response.status})`);
+        }
+        return response.json() as Promise<Recipe[]>;
+      })
+      .then(recipes => {
+        loadedCatalog = { ...loadedCatalog, [mood]: recipes };
+        window.dispatchEvent(new Event(RECIPE_CATALOG_EVENT));
+        return recipes;
+      })
+      // A failed request can be retried by asking again
+      .finally(() => pendingMoods.delete(mood));
+    pendingMoods.set(mood, request);
+  }
+  return pendingMoods.get(mood);
 };
 
-export default recipesData;
+export const loadAllRecipes = async (): Promise<Catalog> => {
+  await Promise.all(CATALOG_MOODS.map(loadMoodRecipes));
+  return loadedCatalog;
+};
@@ -1,19 +0,0 @@
-
-import { Recipe } from '@/types/recipe';
-import { sadMacCheeseRecipe } from './sadMacCheeseRecipe';
-import { sadRamenRecipe } from './sadRamenRecipe';
-import { sadRisottoRecipe } from './sadRisottoRecipe';
-import { sadCurryRecipe } from './sadCurryRecipe';
-import { sadOnionSoupRecipe } from './sadOnionSoupRecipe';
-import { sadButterChickenRecipe } from './sadButterChickenRecipe';
-import { sadDimSumRecipe } from './sadDimSumRecipe';
-
-export const sadRecipes: Recipe[] = [
-  sadMacCheeseRecipe,
-  sadRamenRecipe,
-  sadRisottoRecipe,
-  sadCurryRecipe,
-  sadOnionSoupRecipe,
-  sadButterChickenRecipe,
-  sadDimSumRecipe
-];
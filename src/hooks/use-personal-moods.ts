@@ -0,0 +1,20 @@
+import { useState, useEffect } from 'react';
+import { Mood } from '@/types/recipe';
+import { getPersonalMoods, PERSONAL_MOODS_EVENT } from '@/utils/personalMoods';
+
+export const usePersonalMoods = () => {
+  const [personalMoods, setPersonalMoods] = useState<Mood[]>(getPersonalMoods);
+
+  // Keep every mood picker (and other tabs) in sync
+  useEffect(() => {
+    const sync = () => setPersonalMoods(getPersonalMoods());
+    window.addEventListener(PERSONAL_MOODS_EVENT, sync);
+    window.addEventListener('storage', sync);
+    return () => {
+      window.removeEventListener(PERSONAL_MOODS_EVENT, sync);
+      window.removeEventListener('storage', sync);
+    };
+  }, []);
+
+  return personalMoods;
+};
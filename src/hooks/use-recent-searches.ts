@@ -0,0 +1,19 @@
+import { useState, useEffect } from 'react';
+import { getRecentSearches, RECENT_SEARCHES_EVENT } from '@/utils/recentSearches';
+
+export const useRecentSearches = () => {
+  const [recentSearches, setRecentSearches] = useState<string[]>(getRecentSearches);
+
+  // Keep every search box (and other tabs) in sync
+  useEffect(() => {
+    const sync = () => setRecentSearches(getRecentSearches());
+    window.addEventListener(RECENT_SEARCHES_EVENT, sync);
+    window.addEventListener('storage', sync);
+    return () => {
+      window.removeEventListener(RECENT_SEARCHES_EVENT, sync);
+      window.removeEventListener('storage', sync);
+    };
+  }, []);
+
+  return recentSearches;
+};
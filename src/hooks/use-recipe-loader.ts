@@ -0,0 +1,60 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { Recipe } from '@/types/recipe';
+import { useToast } from '@/hooks/use-toast';
+
+// Last results per page (e.g. "mood:cozy"), so coming back to a page shows its grid at
+// once and the scroll position can be restored before anything is fetched
+const resultsByKey = new Map<string, Recipe[]>();
+
+// Recipe files are fetched on demand; only the latest mood or search gets to show its results
+export const useRecipeLoader = (cacheKey?: string) => {
+  const [recipes, setRecipes] = useState<Recipe[]>(() => (cacheKey && resultsByKey.get(cacheKey)) || []);
+  const [isFetching, setIsFetching] = useState(false);
+  const latestRequest = useRef(0);
+  const latestKey = useRef(cacheKey);
+  const { toast } = useToast();
+
+  // Same component, new page (e.g. one mood to another)
+  useEffect(() => {
+    if (latestKey.current !== cacheKey) {
+      latestKey.current = cacheKey;
+      setRecipes((cacheKey && resultsByKey.get(cacheKey)) || []);
+    }
+  }, [cacheKey]);
+
+  const showRecipes = useCallback(async (load: () => Promise<Recipe[]>) => {
+    const request = ++latestRequest.current;
+    const key = latestKey.current;
+    setIsFetching(true);
+    try {
+      const foundRecipes = await load();
+      if (request === latestRequest.current) {
+        setRecipes(foundRecipes);
+        if (key) {
+          resultsByKey.set(key, foundRecipes);
+        }
+      }
+    } catch (error) {
+      if (request === latestRequest.current) {
+        setRecipes([]);
+        toast({
+          title: "Couldn't load recipes",
+          description: (error as Error).message,
+          duration: 3000,
+        });
+      }
+    } finally {
+      if (request === latestRequest.current) {
+        setIsFetching(false);
+      }
+    }
+  }, [toast]);
+
+  const clearRecipes = useCallback(() => {
+    latestRequest.current++;
+    setIsFetching(false);
+    setRecipes([]);
+  }, []);
+
+  return { recipes, isFetching, showRecipes, clearRecipes };
+};
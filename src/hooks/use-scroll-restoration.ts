@@ -0,0 +1,55 @@
+import { useEffect, useLayoutEffect, useRef } from 'react';
+import { useLocation, useNavigationType } from 'react-router-dom';
+
+const STORAGE_KEY = 'scrollPositions';
+
+const readPositions = (): Record<string, number> => {
+  try {
+    return JSON.parse(sessionStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+// Puts a results page back where it was when the user returns with Back/Forward, leaves it
+// where it is when the page replaces its own location, and starts at the top otherwise. `ready` should turn true once the content that was scrolled is rendered.
+export const useScrollRestoration = (ready: boolean) => {
+  const location = useLocation();
+  const navigationType = useNavigationType();
+  const scrollY = useRef(0);
+  const restoredKey = useRef<string | null>(null);
+
+  useEffect(() => {
+    // The router decides where each page starts, not the browser
+    window.history.scrollRestoration = 'manual';
+  }, []);
+
+  // Tracked while scrolling: by the time this page unmounts, the next one may have
+  // already shrunk the document and moved the scroll position
+  useEffect(() => {
+    const key = location.key;
+    const handleScroll = () => {
+      scrollY.current = window.scrollY;
+    };
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    return () => {
+      window.removeEventListener('scroll', handleScroll);
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readPositions(), [key]: scrollY.current }));
+    };
+  }, [location.key]);
+
+  useLayoutEffect(() => {
+    if (!ready || restoredKey.current === location.key) {
+      return;
+    }
+    // A replace on this page (e.g. a facet filter updating the query string) keeps its place
+    const replacedHere = navigationType === 'REPLACE' && restoredKey.current !== null;
+    restoredKey.current = location.key;
+    if (replacedHere) {
+      return;
+    }
+    const saved = navigationType === 'POP' ? readPositions()[location.key] : undefined;
+    window.scrollTo(0, saved ?? 0);
+    scrollY.current = saved ?? 0;
+  }, [ready, location.key, navigationType]);
+};
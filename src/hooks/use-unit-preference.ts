@@ -0,0 +1,39 @@
+import { useState, useEffect, useCallback } from 'react';
+import { UnitSystem } from '@/types/ingredient';
+
+const STORAGE_KEY = 'unitSystem';
+const CHANGE_EVENT = 'unit-system-change';
+
+// Only the US (and a couple of holdouts) cook in imperial by default
+const getDefaultUnitSystem = (): UnitSystem => {
+  const locale = navigator.language || 'en-US';
+  return /-(US|LR|MM)$/i.test(locale) ? 'imperial' : 'metric';
+};
+
+const readUnitSystem = (): UnitSystem => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  return saved === 'metric' || saved === 'imperial' ? saved : getDefaultUnitSystem();
+};
+
+export const useUnitPreference = () => {
+  const [unitSystem, setUnitSystemState] = useState<UnitSystem>(readUnitSystem);
+
+  // Keep every mounted consumer (and other tabs) in sync
+  useEffect(() => {
+    const sync = () => setUnitSystemState(readUnitSystem());
+    window.addEventListener(CHANGE_EVENT, sync);
+    window.addEventListener('storage', sync);
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, sync);
+      window.removeEventListener('storage', sync);
+    };
+  }, []);
+
+  const setUnitSystem = useCallback((system: UnitSystem) => {
+    localStorage.setItem(STORAGE_KEY, system);
+    setUnitSystemState(system);
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+  }, []);
+
+  return { unitSystem, setUnitSystem };
+};
@@ -55,4 +55,11 @@ document.addEventListener('error', function(e) {
   }
 }, true);
 
+// Surface catalog problems (duplicate ids, unknown moods...) while developing
+if (import.meta.env.DEV) {
+  import('./utils/devCatalogCheck')
+    .then(({ runDevCatalogCheck }) => runDevCatalogCheck())
+    .catch(error => console.error('%cRecipe catalog: check failed', 'color: #dc2626', error));
+}
+
 createRoot(document.getElementById("root")!).render(<App />);
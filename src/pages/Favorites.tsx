@@ -1,7 +1,7 @@
 
 import { useState, useEffect } from 'react';
 import RecipeCard from '@/components/ui/RecipeCard';
-import { Recipe, getAllRecipes } from '@/utils/moodRecipeData';
+import { Recipe, loadRecipeById } from '@/utils/moodRecipeData';
 import { useToast } from "@/hooks/use-toast";
 
 const Favorites = () => {
@@ -16,11 +16,9 @@ const Favorites = () => {
       return;
     }
     
-    // Get all recipes and filter for favorites
-    const allRecipes = getAllRecipes();
-    const favorites = allRecipes.filter(recipe => savedFavoriteIds.includes(recipe.id));
-    
-    setFavoriteRecipes(favorites);
+    // Only the mood files holding a favorite get fetched
+    Promise.all(savedFavoriteIds.map((id: string) => loadRecipeById(id).catch(() => null)))
+      .then(favorites => setFavoriteRecipes(favorites.filter(Boolean)));
   }, []);
 
   const handleToggleFavorite = (recipe: Recipe) => {
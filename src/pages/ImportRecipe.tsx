@@ -0,0 +1,272 @@
+import { useState, useEffect, ChangeEvent } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { FileUp, Trash2, ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Recipe, MoodId, moods, hasRecipeId } from '@/utils/moodRecipeData';
+import { importRecipeFromText } from '@/utils/jsonLdImporter';
+import { recipeSchema, DIFFICULTIES } from '@/utils/recipeSchema';
+import {
+  getImportedRecipes,
+  saveImportedRecipe,
+  removeImportedRecipe,
+  IMPORTED_RECIPES_EVENT,
+} from '@/utils/importedRecipes';
+
+// The preview form edits lists as one item per line, and an empty image as ''
+interface RecipeDraft extends Omit<Recipe, 'ingredients' | 'instructions' | 'tags' | 'image'> {
+  ingredients: string;
+  instructions: string;
+  tags: string;
+  image: string;
+}
+
+const toDraft = (recipe: Recipe): RecipeDraft => ({
+  ...recipe,
+  ingredients: recipe.ingredients.join('\n'),
+  instructions: recipe.instructions.join('\n'),
+  tags: recipe.tags.join(', '),
+  image: recipe.image ?? '',
+});
+
+const splitLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+const fromDraft = ({ image, ...draft }: RecipeDraft): Recipe => ({
+  ...draft,
+  ingredients: splitLines(draft.ingredients),
+  instructions: splitLines(draft.instructions),
+  tags: draft.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+  ...(image.trim() ? { image: image.trim() } : {}),
+});
+
+// Imported ids must not shadow a built-in recipe or a different import
+const getUniqueId = (id: string, replacing?: string) => {
+  let candidate = id;
+  let suffix = 2;
+  while (candidate !== replacing && hasRecipeId(candidate)) {
+    candidate = `${id}-${suffix++}`;
+  }
+  return candidate;
+};
+
+const ImportRecipe = () => {
+  const [source, setSource] = useState('');
+  const [draft, setDraft] = useState<RecipeDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [importedRecipes, setImportedRecipes] = useState<Recipe[]>(getImportedRecipes);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const sync = () => setImportedRecipes(getImportedRecipes());
+    window.addEventListener(IMPORTED_RECIPES_EVENT, sync);
+    return () => window.removeEventListener(IMPORTED_RECIPES_EVENT, sync);
+  }, []);
+
+  const parseSource = async (text: string) => {
+    try {
+      const recipe = await importRecipeFromText(text);
+      setDraft(toDraft({ ...recipe, id: getUniqueId(recipe.id) }));
+      setError(null);
+    } catch (parseError) {
+      setDraft(null);
+      setError((parseError as Error).message);
+    }
+  };
+
+  const handleFileUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      const text = await file.text();
+      setSource(text);
+      await parseSource(text);
+    } catch (readError) {
+      setDraft(null);
+      setError(`Couldn't read ${file.name}: ${(readError as Error).message}`);
+    } finally {
+      event.target.value = '';
+    }
+  };
+
+  const updateDraft = <K extends keyof RecipeDraft>(field: K, value: RecipeDraft[K]) => {
+    setDraft(current => (current ? { ...current, [field]: value } : current));
+  };
+
+  // The nutrition label shows its own calories, so it has to follow the card's
+  const updateCalories = (calories: number) => {
+    setDraft(current => (current
+      ? { ...current, calories, ...(current.nutrition ? { nutrition: { ...current.nutrition, calories } } : {}) }
+      : current));
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    if (!draft.mood) {
+      setError('Pick a mood for this recipe');
+      return;
+    }
+    const recipe = fromDraft(draft);
+    const result = recipeSchema.safeParse(recipe);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      setError(`${issue.path.join('.') || 'Recipe'}: ${issue.message}`);
+      return;
+    }
+
+    saveImportedRecipe(recipe);
+    toast({
+      title: "Recipe imported",
+      description: `${recipe.name} has been added to your recipes`,
+      duration: 3000,
+    });
+    navigate(`/recipe/${recipe.id}`);
+  };
+
+  return (
+    <div className="min-h-screen pt-24 pb-12 px-4 sm:px-6 lg:px-8 max-w-3xl mx-auto">
+      <div className="text-center mb-10">
+        <h1 className="text-3xl md:text-4xl font-bold mb-4">Import a Recipe</h1>
+        <p className="text-lg text-gray-600 dark:text-gray-300">
+          Paste a recipe's schema.org JSON-LD or upload a saved recipe page
+        </p>
+      </div>
+
+      {!draft ? (
+        <div className="space-y-4">
+          <Textarea
+            value={source}
+            onChange={event => setSource(event.target.value)}
+            placeholder='{"@context": "https://schema.org", "@type": "Recipe", ...}'
+            className="min-h-[200px] font-mono text-xs"
+          />
+          <div className="flex flex-wrap gap-3 items-center">
+            <Button onClick={() => parseSource(source)} disabled={!source.trim()}>
+              Preview recipe
+            </Button>
+            <Label className="inline-flex items-center gap-2 cursor-pointer text-sm text-gray-600 dark:text-gray-300">
+              <FileUp className="h-4 w-4" />
+              Upload HTML or JSON file
+              <input type="file" accept=".html,.htm,.json,.jsonld" className="hidden" onChange={handleFileUpload} />
+            </Label>
+          </div>
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <button
+            onClick={() => setDraft(null)}
+            className="flex items-center text-sm text-gray-600 dark:text-gray-300 hover:text-primary transition-colors"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" /> Back to source
+          </button>
+
+          {draft.image && (
+            <img src={draft.image} alt={draft.name} className="w-full max-h-64 object-cover rounded-xl" />
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="import-name">Name</Label>
+            <Input id="import-name" value={draft.name} onChange={event => updateDraft('name', event.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="import-description">Description</Label>
+            <Textarea id="import-description" value={draft.description} onChange={event => updateDraft('description', event.target.value)} />
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="import-prep">Prep time</Label>
+              <Input id="import-prep" value={draft.prepTime} onChange={event => updateDraft('prepTime', event.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="import-cook">Cook time</Label>
+              <Input id="import-cook" value={draft.cookTime} onChange={event => updateDraft('cookTime', event.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="import-servings">Servings</Label>
+              <Input id="import-servings" type="number" min={1} value={draft.servings} onChange={event => updateDraft('servings', Number(event.target.value))} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="import-calories">Calories</Label>
+              <Input id="import-calories" type="number" min={0} value={draft.calories} onChange={event => updateCalories(Number(event.target.value))} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Difficulty</Label>
+              <Select value={draft.difficulty} onValueChange={value => updateDraft('difficulty', value as Recipe['difficulty'])}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {DIFFICULTIES.map(difficulty => (
+                    <SelectItem key={difficulty} value={difficulty}>{difficulty}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Mood</Label>
+              <Select value={draft.mood} onValueChange={value => updateDraft('mood', value as MoodId)}>
+                <SelectTrigger><SelectValue placeholder="Which mood is this for?" /></SelectTrigger>
+                <SelectContent>
+                  {moods.map(mood => (
+                    <SelectItem key={mood.id} value={mood.id}>{mood.icon} {mood.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="import-image">Image URL (optional)</Label>
+            <Input id="import-image" type="url" value={draft.image} onChange={event => updateDraft('image', event.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="import-tags">Tags (comma separated)</Label>
+            <Input id="import-tags" value={draft.tags} onChange={event => updateDraft('tags', event.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="import-ingredients">Ingredients (one per line)</Label>
+            <Textarea id="import-ingredients" className="min-h-[160px]" value={draft.ingredients} onChange={event => updateDraft('ingredients', event.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="import-instructions">Instructions (one step per line)</Label>
+            <Textarea id="import-instructions" className="min-h-[160px]" value={draft.instructions} onChange={event => updateDraft('instructions', event.target.value)} />
+          </div>
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+          <Button onClick={handleSave}>Save recipe</Button>
+        </div>
+      )}
+
+      {importedRecipes.length > 0 && (
+        <div className="mt-12">
+          <h2 className="text-xl font-medium mb-3">Your imported recipes</h2>
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {importedRecipes.map(recipe => (
+              <li key={recipe.id} className="flex items-center justify-between py-2">
+                <Link to={`/recipe/${recipe.id}`} className="hover:text-primary transition-colors">
+                  {recipe.name}
+                </Link>
+                <button
+                  onClick={() => removeImportedRecipe(recipe.id)}
+                  className="p-2 text-gray-500 hover:text-red-500 transition-colors"
+                  aria-label={`Remove ${recipe.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportRecipe;
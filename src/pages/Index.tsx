@@ -1,47 +1,38 @@
 
 import { useState, useEffect } from "react";
-import { getRecipesByMood, searchRecipes } from "@/utils/recipeOperations";
+import { useNavigate } from "react-router-dom";
 import MoodInput from "@/components/ui/MoodInput";
-import RecipeCard from "@/components/ui/RecipeCard";
 import SearchBar from "@/components/SearchBar";
 import ChatBot from "@/components/ui/ChatBot";
 import type { Mood } from "@/types/recipe";
+import type { MoodSelection } from "@/types/moodBlend";
+import { toSearchPath } from "@/utils/searchInterpretation";
+import { toMoodBlendPath, toMoodPath } from "@/utils/moodPages";
 import { Sparkles, ChefHat, Heart, Star } from "lucide-react";
 
 const Index = () => {
-  const [selectedMood, setSelectedMood] = useState<Mood | null>(null);
-  const [searchQuery, setSearchQuery] = useState("");
-  const [recipes, setRecipes] = useState([]);
   const [isLoaded, setIsLoaded] = useState(false);
+  const navigate = useNavigate();
 
   useEffect(() => {
     setIsLoaded(true);
   }, []);
 
-  // When mood is selected, fetch by mood
+  // Every mood, custom ones included, has its own page to link to and come back to
   const handleMoodSelect = (mood: Mood | null) => {
-    setSelectedMood(mood);
-
     if (mood) {
-      const foundRecipes = getRecipesByMood(mood.id);
-      setRecipes(foundRecipes);
-      setSearchQuery(''); // clear search query
-    } else {
-      setRecipes([]);
+      navigate(toMoodPath(mood.id));
     }
   };
 
-  // When search is performed
-  const handleSearch = (query: string) => {
-    setSearchQuery(query);
-    setSelectedMood(null);
+  const handleBlendSelect = (selections: MoodSelection[]) => {
+    navigate(toMoodBlendPath(selections));
+  };
 
-    if (query && query.trim().length > 0) {
-      // Try tf.js mood inference could go here, but that's in the App's main logic
-      const foundRecipes = searchRecipes(query.trim());
-      setRecipes(foundRecipes);
-    } else {
-      setRecipes([]);
+  // Text searches get their own page, so they can be linked to and revisited with back/forward
+  const handleSearch = (query: string) => {
+    if (query.trim()) {
+      navigate(toSearchPath(query.trim()));
     }
   };
 
@@ -108,7 +99,7 @@ const Index = () => {
             <div className="relative flex-1 animate-scale-in">
               <MoodInput 
                 onMoodSelect={handleMoodSelect}
-                selectedMood={selectedMood}
+                onBlendSelect={handleBlendSelect}
                 placeholder="How are you feeling? Type your mood or select below..."
               />
             </div>
@@ -116,65 +107,36 @@ const Index = () => {
             <div className="relative flex-1 animate-scale-in" style={{ animationDelay: '0.2s' }}>
               <SearchBar
                 onSearch={handleSearch}
+                onMoodSelect={handleMoodSelect}
                 showSearchButton
-                placeholder="Or search recipes by name, ingredient, or tag..."
+                placeholder="Or search by name, ingredient or tag, e.g. tag:spicy time:<30"
                 buttonClassName="bg-gradient-to-r from-orange-500 to-red-500 hover:from-orange-600 hover:to-red-600 text-white font-bold px-8 rounded-full transition-all duration-300 hover:scale-105 shadow-lg"
               />
             </div>
           </div>
 
-          {/* Fun interactive intro card only shown when no recipes and no mood/search */}
-          {recipes.length === 0 && !selectedMood && !searchQuery && (
-            <div className="w-full flex justify-center pt-8 pb-8 animate-fade-in" style={{ animationDelay: '0.5s' }}>
-              <div className="card-magic-background rounded-3xl shadow-2xl p-8 flex flex-col items-center max-w-2xl w-full transition-all duration-500 hover:scale-105 hover:shadow-3xl glass-card border border-white/30 backdrop-blur-lg">
-                <div className="text-7xl mb-6 animate-bounce floating-icon">🍽️</div>
-                <h3 className="text-4xl font-bold mb-4 text-white text-shadow-lg">
-                  Select a mood or search for recipes
-                </h3>
-                <div className="text-white/90 mb-4 text-xl text-center">
-                  We'll help you find the perfect dish for your current state of mind.
-                </div>
-                <div className="flex gap-3 mt-4 flex-wrap justify-center">
-                  <span className="px-4 py-2 bg-white/20 rounded-full text-white text-sm animate-pulse">🎯 Mood-based</span>
-                  <span className="px-4 py-2 bg-white/20 rounded-full text-white text-sm animate-pulse" style={{ animationDelay: '0.5s' }}>🎤 Voice guided</span>
-                  <span className="px-4 py-2 bg-white/20 rounded-full text-white text-sm animate-pulse" style={{ animationDelay: '1s' }}>🤖 AI powered</span>
-                </div>
+          {/* Fun interactive intro card */}
+          <div className="w-full flex justify-center pt-8 pb-8 animate-fade-in" style={{ animationDelay: '0.5s' }}>
+            <div className="card-magic-background rounded-3xl shadow-2xl p-8 flex flex-col items-center max-w-2xl w-full transition-all duration-500 hover:scale-105 hover:shadow-3xl glass-card border border-white/30 backdrop-blur-lg">
+              <div className="text-7xl mb-6 animate-bounce floating-icon">🍽️</div>
+              <h3 className="text-4xl font-bold mb-4 text-white text-shadow-lg">
+                Select a mood or search for recipes
+              </h3>
+              <div className="text-white/90 mb-4 text-xl text-center">
+                We'll help you find the perfect dish for your current state of mind.
+              </div>
+              <div className="flex gap-3 mt-4 flex-wrap justify-center">
+                <span className="px-4 py-2 bg-white/20 rounded-full text-white text-sm animate-pulse">🎯 Mood-based</span>
+                <span className="px-4 py-2 bg-white/20 rounded-full text-white text-sm animate-pulse" style={{ animationDelay: '0.5s' }}>🎤 Voice guided</span>
+                <span className="px-4 py-2 bg-white/20 rounded-full text-white text-sm animate-pulse" style={{ animationDelay: '1s' }}>🤖 AI powered</span>
               </div>
             </div>
-          )}
+          </div>
         </div>
       </div>
 
-      {/* Recipes Area */}
-      {(selectedMood || searchQuery) && (
-        <div className="max-w-6xl mx-auto p-4 relative z-10">
-          {(recipes.length === 0) ? (
-            <div className="text-white text-xl text-center py-16 backdrop-blur-sm bg-white/10 rounded-2xl border border-white/20">
-              <div className="text-6xl mb-4">🔍</div>
-              No recipes found for this search. Try another!
-            </div>
-          ) : (
-            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
-              {recipes.map((recipe: any, index: number) => (
-                <div 
-                  key={recipe.id}
-                  className="animate-scale-in hover-lift"
-                  style={{ animationDelay: `${index * 0.1}s` }}
-                >
-                  <RecipeCard
-                    recipe={recipe}
-                    isFavorite={false}
-                    onToggleFavorite={() => {}}
-                  />
-                </div>
-              ))}
-            </div>
-          )}
-        </div>
-      )}
-
       {/* Enhanced ChatBot */}
-      <ChatBot currentMood={selectedMood?.name || null} />
+      <ChatBot currentMood={null} />
     </div>
   );
 };
@@ -0,0 +1,180 @@
+import { Fragment, useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Clock, Search as SearchIcon } from 'lucide-react';
+import MoodInput from '@/components/ui/MoodInput';
+import RecipeResults from '@/components/ui/RecipeResults';
+import type { Mood as MoodType, Recipe } from '@/types/recipe';
+import type { CustomMoodReading, MoodSelection } from '@/types/moodBlend';
+import { getMood, isCustomMoodId, resolveMoodId, toRegistryMood } from '@/data/moods/moodRegistry';
+import { useRecipeLoader } from '@/hooks/use-recipe-loader';
+import { useScrollRestoration } from '@/hooks/use-scroll-restoration';
+import { getRecipesByMoodBlend, loadRecipesByMood, loadRecipesByMoodBlend } from '@/utils/recipeOperations';
+import { MOOD_INTENSITY_LABELS, blendRecipes, readCustomMood, toMoodBlend } from '@/utils/moodBlend';
+import { saveCustomMoodReading } from '@/utils/personalMoods';
+import { parseMoodBlend, toMoodBlendPath, toMoodPath } from '@/utils/moodPages';
+
+const Mood = () => {
+  const { moodId = '' } = useParams();
+  const navigate = useNavigate();
+  // Several moods picked at once ("tired:3+celebratory:1"), or null for a single mood
+  const selections = useMemo(() => parseMoodBlend(moodId), [moodId]);
+  const mood = selections ? null : resolveMoodId(moodId);
+  const isCustom = isCustomMoodId(moodId);
+  const registryMood = toRegistryMood(mood);
+  const { recipes, isFetching, showRecipes } = useRecipeLoader(`mood:${moodId}`);
+  // What a custom mood ("rainy sunday") was read as; null until it has been read
+  const [reading, setReading] = useState<CustomMoodReading | null>(null);
+
+  // Cached results render straight away, so there is something to scroll back to
+  useScrollRestoration(recipes.length > 0 || !isFetching);
+
+  const moodName = mood?.name;
+  const registryMoodId = registryMood?.id;
+  useEffect(() => {
+    setReading(null);
+    if (selections) {
+      showRecipes(async () => (await loadRecipesByMoodBlend(toMoodBlend(selections))).map(({ recipe }) => recipe));
+    } else if (registryMoodId) {
+      showRecipes(() => loadRecipesByMood(registryMoodId));
+    } else if (moodName) {
+      // Custom moods get recipes for the moods they read as, plus any that mention the text
+      showRecipes(async () => {
+        const customReading = await readCustomMood(moodName);
+        setReading(customReading);
+        saveCustomMoodReading(moodName, customReading.blend.map(({ mood: blendMood }) => blendMood));
+        return blendRecipes(customReading.blend, moodName).map(({ recipe }) => recipe);
+      });
+    }
+  }, [selections, moodName, registryMoodId, showRecipes]);
+
+  // Cards for a picked or read blend say which of its moods each recipe suits
+  const blend = useMemo(() => (selections ? toMoodBlend(selections) : reading?.blend || []), [selections, reading]);
+  const getMatchedMoods = useMemo(() => {
+    if (blend.length < 2 || recipes.length === 0) {
+      return undefined;
+    }
+    const matched = new Map(getRecipesByMoodBlend(blend).map(({ recipe, moods }) => [recipe.id, moods]));
+    return (recipe: Recipe) => matched.get(recipe.id) || [];
+  }, [blend, recipes]);
+
+  const handleMoodSelect = (selected: MoodType | null) => {
+    navigate(selected ? toMoodPath(selected.id) : '/');
+  };
+
+  const handleBlendSelect = (picked: MoodSelection[]) => {
+    navigate(toMoodBlendPath(picked));
+  };
+
+  return (
+    <div
+      className="min-h-screen w-full pt-24 pb-12 relative"
+      style={{
+        background: "linear-gradient(135deg, #667eea 0%, #764ba2 25%, #f093fb 50%, #f5576c 75%, #4facfe 100%)",
+        backgroundSize: "400% 400%",
+        animation: "gradient-bg 15s ease infinite"
+      }}
+    >
+      <div className="max-w-7xl mx-auto px-4">
+        <div className="max-w-2xl mx-auto mb-8 relative z-20">
+          <MoodInput
+            key={moodId}
+            onMoodSelect={handleMoodSelect}
+            onBlendSelect={handleBlendSelect}
+            selectedMood={mood}
+            selectedBlend={selections}
+            placeholder="Feeling something else? Type your mood or select below..."
+          />
+        </div>
+
+        {selections ? (
+          <>
+            <div className="mb-8 text-white">
+              <h1 className="text-3xl md:text-4xl font-bold mb-3">
+                Recipes for feeling{' '}
+                {selections.map(({ mood: picked }, index) => (
+                  <Fragment key={picked}>
+                    {index > 0 && ' + '}
+                    <span className="whitespace-nowrap">{getMood(picked).icon} {getMood(picked).name}</span>
+                  </Fragment>
+                ))}
+              </h1>
+              <p className="text-lg text-white/90 max-w-2xl">
+                {selections.map(({ mood: picked, intensity }) => `${MOOD_INTENSITY_LABELS[intensity]} ${getMood(picked).name.toLowerCase()}`).join(', ')}.
+                {' '}Recipes that suit more of your moods, and the stronger ones, come first.
+              </p>
+            </div>
+
+            <RecipeResults
+              recipes={recipes}
+              isFetching={isFetching}
+              emptyMessage="No recipes suit this mix of moods yet. Try another!"
+              note="Best fit first"
+              getMatchedMoods={getMatchedMoods}
+            />
+          </>
+        ) : mood ? (
+          <>
+            <div className="mb-8 text-white">
+              <h1 className="text-3xl md:text-4xl font-bold mb-3">
+                <span className="mr-2">{mood.icon}</span>
+                Recipes for feeling {mood.name}
+              </h1>
+              {isCustom ? (
+                <div className="inline-flex flex-wrap items-center gap-2 rounded-2xl bg-white/15 px-4 py-2 text-sm backdrop-blur-sm border border-white/20">
+                  <SearchIcon className="h-4 w-4" />
+                  <span>
+                    {!reading ? (
+                      <>Reading “{mood.name}”…</>
+                    ) : reading.blend.length > 0 ? (
+                      <>
+                        We read “{mood.name}” as{' '}
+                        {reading.blend.map(({ mood: blendMood }, index) => (
+                          <Fragment key={blendMood}>
+                            {index > 0 && ' + '}
+                            <Link to={toMoodPath(blendMood)} className="font-semibold underline-offset-2 hover:underline">
+                              {getMood(blendMood).icon} {getMood(blendMood).name}
+                            </Link>
+                          </Fragment>
+                        ))}
+                        {reading.textMatches > 0 && ', plus recipes that mention it'}.
+                      </>
+                    ) : (
+                      <>“{mood.name}” isn't like any of our moods, so we looked for it in recipe names, ingredients and tags.</>
+                    )}
+                  </span>
+                </div>
+              ) : (
+                <p className="text-lg text-white/90 max-w-2xl">
+                  {mood.description}
+                  {registryMood?.maxTotalMinutes && (
+                    <span className="ml-2 inline-flex items-center gap-1 text-sm font-semibold">
+                      <Clock className="h-4 w-4" />
+                      Plus anything ready in {registryMood.maxTotalMinutes} minutes or less
+                    </span>
+                  )}
+                </p>
+              )}
+            </div>
+
+            <RecipeResults
+              recipes={recipes}
+              isFetching={isFetching}
+              emptyMessage="No recipes found for this mood yet. Try another!"
+              note={isCustom ? 'Best matches first' : undefined}
+              getMatchedMoods={getMatchedMoods}
+            />
+          </>
+        ) : (
+          <div className="text-center text-white py-16">
+            <h1 className="text-3xl font-bold mb-4">We don't know that mood</h1>
+            <Link to="/" className="underline font-semibold hover:text-white/80">
+              Pick a mood on the home page
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Mood;
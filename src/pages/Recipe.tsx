@@ -1,35 +1,60 @@
-import { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, Clock, Users, ChefHat, Heart, Share2, ImageOff } from 'lucide-react';
-import { Recipe as RecipeType, getRecipeById } from '@/utils/moodRecipeData';
+import { useState, useEffect, useMemo } from 'react';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
+import { ArrowLeft, Clock, Users, ChefHat, Heart, Share2, ImageOff, Minus, Plus } from 'lucide-react';
+import { Recipe as RecipeType, loadRecipeById } from '@/utils/moodRecipeData';
 import RecipeAiFeatures from '@/components/ui/RecipeAiFeatures';
 import VoiceGuidance from '@/components/ui/VoiceGuidance';
+import DietaryBadges from '@/components/ui/DietaryBadges';
+import RecipeExportMenu from '@/components/ui/RecipeExportMenu';
 import { useToast } from "@/hooks/use-toast";
 import { AspectRatio } from "@/components/ui/aspect-ratio";
+import { scaleRecipe } from '@/utils/servingScaler';
+import { convertRecipeUnits } from '@/utils/unitConversion';
+import { useUnitPreference } from '@/hooks/use-unit-preference';
+import { useScrollRestoration } from '@/hooks/use-scroll-restoration';
+import { getRecipeTiming, formatMinutes } from '@/utils/durations';
 
 // Global reliable fallback image
 const GLOBAL_FALLBACK_IMAGE = 'https://images.unsplash.com/photo-1546069901-ba9599a7e63c?w=800&auto=format&fit=crop';
+const MAX_SERVINGS = 24;
 
 const Recipe = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const location = useLocation();
   const [recipe, setRecipe] = useState<RecipeType | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isFavorite, setIsFavorite] = useState(false);
   const [activeTab, setActiveTab] = useState<'ingredients' | 'instructions'>('ingredients');
   const [imageError, setImageError] = useState(false);
   const [imageSrc, setImageSrc] = useState('');
+  const [servings, setServings] = useState(1);
   const { toast } = useToast();
+  const { unitSystem, setUnitSystem } = useUnitPreference();
+
+  // Everything below the header (ingredients, instructions, voice guidance) reads the
+  // scaled copy; all but voice guidance, which converts units itself, in the user's units
+  const scaledRecipe = useMemo(() => (recipe ? scaleRecipe(recipe, servings) : null), [recipe, servings]);
+  const displayRecipe = useMemo(
+    () => (scaledRecipe ? convertRecipeUnits(scaledRecipe, unitSystem) : null),
+    [scaledRecipe, unitSystem]
+  );
 
   useEffect(() => {
+    let cancelled = false;
+
     if (id) {
       setIsLoading(true);
       setImageError(false);
-      const foundRecipe = getRecipeById(id);
-      
-      setTimeout(() => {
+
+      // Fetches the recipe's mood file the first time it's needed
+      loadRecipeById(id).catch(() => null).then(foundRecipe => {
+        if (cancelled) {
+          return;
+        }
         if (foundRecipe) {
           setRecipe(foundRecipe);
+          setServings(foundRecipe.servings || 1);
           
           // Prioritize direct image from the recipe
           if (foundRecipe.image) {
@@ -42,13 +67,30 @@ const Recipe = () => {
           setRecipe(null);
         }
         setIsLoading(false);
-      }, 300);
+      });
       
       const favorites = JSON.parse(localStorage.getItem('favoriteRecipes') || '[]');
       setIsFavorite(favorites.includes(id));
     }
+
+    return () => {
+      cancelled = true;
+    };
   }, [id]);
 
+  // Opens at the top, or where the reader was when coming back with Back/Forward
+  useScrollRestoration(!isLoading);
+
+  // Back to the mood or search page the recipe was opened from, with its results and scroll
+  // position; a recipe opened from a shared link has nothing to go back to
+  const goBack = () => {
+    if (location.key !== 'default') {
+      navigate(-1);
+    } else {
+      navigate('/');
+    }
+  };
+
   const handleImageError = () => {
     console.log('Recipe page: Image error, using reliable default');
     setImageSrc(GLOBAL_FALLBACK_IMAGE);
@@ -138,18 +180,20 @@ const Recipe = () => {
     );
   }
 
+  const timing = getRecipeTiming(recipe);
+
   return (
     <>
-      <div className="min-h-screen pt-20 pb-24 px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto animate-fade-in">
+      <div className="min-h-screen pt-20 pb-24 px-4 sm:px-6 lg:px-8 max-w-7xl mx-auto animate-fade-in print:p-0">
         <button
-          onClick={() => navigate('/')}
-          className="mb-6 flex items-center text-gray-600 dark:text-gray-300 hover:text-primary dark:hover:text-primary transition-colors"
+          onClick={goBack}
+          className="print:hidden mb-6 flex items-center text-gray-600 dark:text-gray-300 hover:text-primary dark:hover:text-primary transition-colors"
         >
           <ArrowLeft size={18} className="mr-2" />
           <span>Back to recipes</span>
         </button>
 
-        <div className="mb-8 rounded-xl overflow-hidden bg-gray-200 dark:bg-gray-800">
+        <div className="mb-8 rounded-xl overflow-hidden bg-gray-200 dark:bg-gray-800 print:hidden">
           <AspectRatio ratio={21/9} className="bg-muted">
             <img 
               src={imageSrc} 
@@ -172,21 +216,43 @@ const Recipe = () => {
             {recipe?.prepTime && recipe?.cookTime && (
               <div className="flex items-center">
                 <Clock size={16} className="mr-1" />
-                <span>Prep: {recipe.prepTime} | Cook: {recipe.cookTime}</span>
+                <span>
+                  Prep: {recipe.prepTime} | Cook: {recipe.cookTime} | Total: {formatMinutes(timing.totalMinutes)}
+                  {timing.passiveMinutes > 0 && ` (${formatMinutes(timing.activeMinutes)} hands-on)`}
+                </span>
               </div>
             )}
             
             {recipe?.servings && (
               <div className="flex items-center">
                 <Users size={16} className="mr-1" />
-                <span>Serves {recipe.servings}</span>
+                <span className="mr-2">Serves</span>
+                <div className="flex items-center rounded-full bg-white/60">
+                  <button
+                    onClick={() => setServings(prev => Math.max(1, prev - 1))}
+                    disabled={servings <= 1}
+                    className="p-1 rounded-full hover:bg-white disabled:opacity-40 transition-colors"
+                    aria-label="Decrease servings"
+                  >
+                    <Minus size={14} />
+                  </button>
+                  <span className="w-6 text-center font-medium" aria-live="polite">{servings}</span>
+                  <button
+                    onClick={() => setServings(prev => Math.min(MAX_SERVINGS, prev + 1))}
+                    disabled={servings >= MAX_SERVINGS}
+                    className="p-1 rounded-full hover:bg-white disabled:opacity-40 transition-colors"
+                    aria-label="Increase servings"
+                  >
+                    <Plus size={14} />
+                  </button>
+                </div>
               </div>
             )}
             
             {recipe?.calories && (
               <div className="flex items-center">
                 <ChefHat size={16} className="mr-1" />
-                <span>{recipe.calories} calories per serving</span>
+                <span>{recipe.calories} calories per serving · {recipe.calories * servings} total</span>
               </div>
             )}
             
@@ -205,8 +271,8 @@ const Recipe = () => {
         </div>
         
         <div className="mb-8">
-          <h3 className="text-lg font-medium mb-3">Tags</h3>
-          <div className="flex flex-wrap gap-2 mb-6">
+          <h3 className="text-lg font-medium mb-3 print:hidden">Tags</h3>
+          <div className="flex flex-wrap gap-2 mb-6 print:hidden">
             {recipe?.tags.map((tag, index) => (
               <span 
                 key={index} 
@@ -220,11 +286,18 @@ const Recipe = () => {
               </span>
             ))}
           </div>
+
+          <h3 className="text-lg font-medium mb-3">Diet &amp; Allergens</h3>
+          <div className="mb-6">
+            <DietaryBadges recipe={recipe} detailed />
+          </div>
           
-          <RecipeAiFeatures recipe={recipe} />
+          <div className="print:hidden">
+            <RecipeAiFeatures recipe={recipe} />
+          </div>
         </div>
         
-        <div className="grid md:grid-cols-4 gap-8 mb-8">
+        <div className="grid md:grid-cols-4 gap-8 mb-8 print:hidden">
           <div className="md:col-span-1 flex flex-col justify-between">
             <div className="space-y-4">
               <button
@@ -246,6 +319,8 @@ const Recipe = () => {
                 <Share2 size={18} className="mr-2" />
                 <span>Share Recipe</span>
               </button>
+
+              <RecipeExportMenu recipe={displayRecipe} />
             </div>
           </div>
           
@@ -285,9 +360,27 @@ const Recipe = () => {
             <div className="mb-12 animate-fade-in">
               {activeTab === 'ingredients' && (
                 <div>
-                  <h2 className="text-xl font-bold mb-4">Ingredients</h2>
+                  <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-bold">Ingredients</h2>
+                    <div className="flex rounded-full bg-gray-100 dark:bg-gray-800 p-1 text-xs" role="group" aria-label="Measurement units">
+                      {(['metric', 'imperial'] as const).map(system => (
+                        <button
+                          key={system}
+                          onClick={() => setUnitSystem(system)}
+                          aria-pressed={unitSystem === system}
+                          className={`px-3 py-1 rounded-full capitalize transition-colors ${
+                            unitSystem === system
+                              ? 'bg-primary text-white'
+                              : 'text-gray-600 dark:text-gray-300 hover:text-primary'
+                          }`}
+                        >
+                          {system}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
                   <ul className="space-y-3">
-                    {recipe?.ingredients.map((ingredient, index) => (
+                    {displayRecipe?.ingredients.map((ingredient, index) => (
                       <li key={index} className="flex items-start">
                         <div className="w-2 h-2 rounded-full bg-primary mt-2 mr-3"></div>
                         <span>{ingredient}</span>
@@ -304,7 +397,7 @@ const Recipe = () => {
                   </div>
                   
                   <ol className="space-y-6">
-                    {recipe?.instructions.map((instruction, index) => (
+                    {displayRecipe?.instructions.map((instruction, index) => (
                       <li key={index} className="flex">
                         <div className="flex-shrink-0 w-8 h-8 rounded-full text-white flex items-center justify-center mr-4"
                           style={{
@@ -324,9 +417,31 @@ const Recipe = () => {
             </div>
           </div>
         </div>
+
+        {/* Print layout: both lists at once, no tabs or buttons */}
+        <div className="hidden print:grid grid-cols-3 gap-8 print-recipe">
+          <section className="col-span-1">
+            <h2 className="text-xl font-bold mb-3">Ingredients</h2>
+            <ul className="space-y-1 list-disc pl-5">
+              {displayRecipe?.ingredients.map((ingredient, index) => (
+                <li key={index}>{ingredient}</li>
+              ))}
+            </ul>
+          </section>
+          <section className="col-span-2">
+            <h2 className="text-xl font-bold mb-3">Instructions</h2>
+            <ol className="space-y-2 list-decimal pl-5">
+              {displayRecipe?.instructions.map((instruction, index) => (
+                <li key={index}>{instruction}</li>
+              ))}
+            </ol>
+          </section>
+        </div>
       </div>
       
-      <VoiceGuidance recipe={recipe} />
+      <div className="print:hidden">
+        <VoiceGuidance recipe={scaledRecipe} />
+      </div>
     </>
   );
 };
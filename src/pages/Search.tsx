@@ -0,0 +1,147 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Search as SearchIcon, Smile, ArrowRightLeft } from 'lucide-react';
+import SearchBar from '@/components/SearchBar';
+import RecipeResults from '@/components/ui/RecipeResults';
+import { Mood, MoodDefinition } from '@/types/recipe';
+import { useRecipeLoader } from '@/hooks/use-recipe-loader';
+import { useScrollRestoration } from '@/hooks/use-scroll-restoration';
+import { loadRecipesByMood, loadSearchResults } from '@/utils/recipeOperations';
+import { inferSearchMood, inferSearchMoodQuickly, parseSearchMode, SearchMode } from '@/utils/searchInterpretation';
+import { toMoodPath } from '@/utils/moodPages';
+
+const Search = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = (searchParams.get('q') || '').trim();
+  const requestedMode = parseSearchMode(searchParams.get('as'));
+  // The mood the query reads as from its words (quick), and with the model once that has
+  // loaded (full; undefined until then)
+  const [reading, setReading] = useState<{ query: string; quick: MoodDefinition | null; full?: MoodDefinition | null } | null>(null);
+  const { recipes, isFetching, showRecipes, clearRecipes } = useRecipeLoader(`search:${requestedMode || ''}:${query}`);
+  const navigate = useNavigate();
+
+  const readingForQuery = reading?.query === query ? reading : null;
+  // Undefined below while the current query is still being read
+  const moodForQuery = readingForQuery ? readingForQuery.quick ?? readingForQuery.full ?? null : undefined;
+  // A query whose words read as a mood is shown as one, unless the user asked for a text
+  // search. Anything else is searched as text straight away; a mood only the model finds is
+  // offered as the other reading, unless the user asked for it.
+  const waitingForModel = !!readingForQuery && !readingForQuery.quick && readingForQuery.full === undefined;
+  const mode: SearchMode | null = !readingForQuery || (requestedMode === 'mood' && waitingForModel)
+    ? null
+    : readingForQuery.quick
+      ? (requestedMode === 'text' ? 'text' : 'mood')
+      : moodForQuery && requestedMode === 'mood' ? 'mood' : 'text';
+  const shownMoodId = mode === 'mood' ? moodForQuery.id : null;
+
+  useScrollRestoration(recipes.length > 0 || (mode !== null && !isFetching));
+
+  useEffect(() => {
+    let cancelled = false;
+    inferSearchMoodQuickly(query).then(quick => {
+      if (cancelled) {
+        return;
+      }
+      setReading({ query, quick });
+      // Only needed when the words alone found nothing
+      if (!quick) {
+        inferSearchMood(query).then(full => {
+          if (!cancelled) {
+            setReading({ query, quick, full });
+          }
+        });
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [query]);
+
+  useEffect(() => {
+    if (!query) {
+      clearRecipes();
+    } else if (shownMoodId) {
+      showRecipes(() => loadRecipesByMood(shownMoodId));
+    } else if (mode === 'text') {
+      showRecipes(() => loadSearchResults(query));
+    }
+  }, [query, mode, shownMoodId, showRecipes, clearRecipes]);
+
+  const handleSearch = (text: string) => {
+    if (text.trim()) {
+      setSearchParams({ q: text.trim() });
+    }
+  };
+
+  const handleMoodSelect = (mood: Mood) => {
+    navigate(toMoodPath(mood.id));
+  };
+
+  // Switching is a new history entry, so back returns to the other reading
+  const switchMode = (next: SearchMode) => {
+    const params = new URLSearchParams(searchParams);
+    params.set('as', next);
+    setSearchParams(params);
+  };
+
+  return (
+    <div
+      className="min-h-screen w-full pt-24 pb-12 relative"
+      style={{
+        background: "linear-gradient(135deg, #667eea 0%, #764ba2 25%, #f093fb 50%, #f5576c 75%, #4facfe 100%)",
+        backgroundSize: "400% 400%",
+        animation: "gradient-bg 15s ease infinite"
+      }}
+    >
+      <div className="max-w-7xl mx-auto px-4">
+        {/* Mobile hides the navbar search, so the page has its own */}
+        <div className="max-w-2xl mx-auto mb-8 md:hidden">
+          <SearchBar key={query} initialQuery={query} onSearch={handleSearch} onMoodSelect={handleMoodSelect} />
+        </div>
+
+        {query ? (
+          <div className="mb-8 text-white">
+            <h1 className="text-3xl md:text-4xl font-bold mb-3">
+              {mode === 'mood' && moodForQuery
+                ? <>{moodForQuery.icon} Recipes for feeling {moodForQuery.name}</>
+                : <>Results for “{query}”</>}
+            </h1>
+            {mode && (
+              <div className="inline-flex flex-wrap items-center gap-2 rounded-2xl bg-white/15 px-4 py-2 text-sm backdrop-blur-sm border border-white/20">
+                {mode === 'mood' ? <Smile className="h-4 w-4" /> : <SearchIcon className="h-4 w-4" />}
+                <span>
+                  {mode === 'mood'
+                    ? <>We read “{query}” as a mood: <strong>{moodForQuery.name}</strong>.</>
+                    : <>Searching recipe names, ingredients and tags for “{query}”.</>}
+                </span>
+                {/* Only offer the other reading when there is one */}
+                {moodForQuery && (
+                  <button
+                    onClick={() => switchMode(mode === 'mood' ? 'text' : 'mood')}
+                    className="inline-flex items-center gap-1 rounded-full bg-white/20 px-3 py-1 font-semibold hover:bg-white/30 transition-colors"
+                  >
+                    <ArrowRightLeft className="h-3.5 w-3.5" />
+                    {mode === 'mood' ? 'Search as text instead' : `Show ${moodForQuery.name} mood instead`}
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        ) : (
+          <h1 className="mb-8 text-3xl font-bold text-white">Search for a recipe, ingredient or mood</h1>
+        )}
+
+        {query && (
+          <RecipeResults
+            recipes={recipes}
+            isFetching={isFetching || mode === null}
+            emptyMessage="No recipes found for this search. Try another!"
+            note={mode === 'text' ? 'Best matches first' : undefined}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Search;
@@ -0,0 +1,28 @@
+// The major food allergens (FDA "Big 9")
+export type Allergen =
+  | 'gluten'
+  | 'dairy'
+  | 'egg'
+  | 'peanut'
+  | 'tree-nut'
+  | 'soy'
+  | 'fish'
+  | 'shellfish'
+  | 'sesame';
+
+export type Diet = 'vegan' | 'vegetarian' | 'pescatarian' | 'gluten-free' | 'dairy-free';
+
+export interface DietaryReviewItem {
+  ingredient: string;
+  reason: string;
+  possibleAllergens: Allergen[];
+  possibleMeat: boolean;
+  unknownContents: boolean; // Could be made of anything, so it may rule out any diet
+}
+
+export interface DietaryProfile {
+  allergens: Allergen[]; // Definitely present
+  possibleAllergens: Allergen[]; // Only from ingredients that need a closer look
+  diets: Diet[]; // Diets no ingredient rules out, definitely or possibly
+  review: DietaryReviewItem[];
+}
@@ -0,0 +1,28 @@
+import { Diet } from './dietary';
+import { MoodId } from './recipe';
+
+// Narrowing of the mood or search results; kept in the URL query string
+export interface FacetFilters {
+  difficulties: string[]; // Any of these
+  maxTotalMinutes: number | null;
+  calories: [number, number] | null; // Inclusive range
+  tags: string[]; // All of these, lowercased
+  diets: Diet[]; // All of these
+  moods: MoodId[]; // Any of these
+}
+
+export interface FacetOption<T = string> {
+  value: T;
+  label: string;
+  count: number; // Recipes with this value that pass the other facets
+  selected: boolean;
+}
+
+export interface RecipeFacets {
+  difficulties: FacetOption[];
+  times: FacetOption<number>[];
+  calories: { min: number; max: number } | null; // Bounds of the unfiltered results
+  tags: FacetOption[];
+  diets: FacetOption<Diet>[];
+  moods: FacetOption<MoodId>[];
+}
@@ -0,0 +1,37 @@
+export type IngredientUnit =
+  | 'tsp'
+  | 'tbsp'
+  | 'cup'
+  | 'fl oz'
+  | 'ml'
+  | 'l'
+  | 'g'
+  | 'kg'
+  | 'oz'
+  | 'lb'
+  | 'pinch'
+  | 'dash'
+  | 'clove'
+  | 'slice'
+  | 'stalk'
+  | 'sprig'
+  | 'scoop'
+  | 'bottle'
+  | 'can'
+  | 'bunch'
+  | 'handful'
+  | 'stick'
+  | 'sheet'
+  | 'piece';
+
+export interface ParsedIngredient {
+  original: string; // The untouched catalog string, kept for display
+  quantity: number | null;
+  quantityMax?: number; // Upper bound when the quantity is a range ("2-3 cloves")
+  unit: IngredientUnit | null;
+  item: string;
+  preparation?: string; // "segmented", "diced", "(dairy or plant-based)" etc.
+  optional: boolean;
+}
+
+export type UnitSystem = 'metric' | 'imperial';
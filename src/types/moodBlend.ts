@@ -0,0 +1,28 @@
+import { MoodId, Recipe } from './recipe';
+
+// One registry mood in a blend, and how much of the blend it is
+export interface MoodWeight {
+  mood: MoodId;
+  weight: number; // 0-1; a blend's weights add up to 1
+}
+
+// A custom mood ("rainy sunday") read as a blend of registry moods
+export interface CustomMoodReading {
+  text: string;
+  blend: MoodWeight[]; // Strongest first; empty when the text didn't suggest any mood
+  textMatches: number; // Recipes that mention the text itself
+}
+
+export interface BlendedRecipe {
+  recipe: Recipe;
+  score: number;
+  moods: MoodId[]; // The moods of the blend this recipe suits
+}
+
+// How strongly a mood picked in mood input is felt: a little, quite, very
+export type MoodIntensity = 1 | 2 | 3;
+
+export interface MoodSelection {
+  mood: MoodId;
+  intensity: MoodIntensity;
+}
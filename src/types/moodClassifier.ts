@@ -0,0 +1,12 @@
+import { MoodId } from './recipe';
+
+export interface MoodProbability {
+  mood: MoodId;
+  probability: number; // 0-1; a classification's probabilities add up to at most 1
+}
+
+// Stored in the model's model.json next to the network itself
+export interface MoodModelMetadata {
+  vocabulary: string[]; // Input features, in input order
+  labels: MoodId[]; // Output moods, in output order
+}
@@ -0,0 +1,33 @@
+import { MoodId } from './recipe';
+import { MoodProbability } from './moodClassifier';
+
+// One word (stemmed) or emoji of the text, and how strongly it is meant
+export interface MoodCue {
+  text: string; // As written
+  word: string;
+  weight: number; // Negative when negated ("not happy"); more with "so", less with "a bit" or before a "but"
+}
+
+// One way of reading moods from text: mood names, everyday keywords, emoji, the trained model
+export interface MoodInferenceStrategy {
+  name: string;
+  weight: number; // How much its reading counts against the other strategies'
+  infer: (text: string) => Promise<MoodProbability[]>; // Most likely first; empty when it has no idea
+  // The cue-weighted scores behind the reading, for strategies that have them. An engine adds
+  // these up across strategies before normalising, so a cue weakened by "a bit" or a "but"
+  // stays weak next to a strong cue another strategy found.
+  score?: (text: string) => Promise<Map<MoodId, number>>;
+}
+
+// What an engine made of a piece of text
+export interface MoodInference {
+  mood: MoodId | null; // The most likely mood, if the engine is sure enough of it
+  confident: boolean; // False when the user should choose between the candidates
+  candidates: MoodProbability[]; // Every mood any strategy found, most likely first
+  strategies: string[]; // The strategies that found something
+}
+
+export interface MoodInferenceEngine {
+  strategies: MoodInferenceStrategy[];
+  infer: (text: string) => Promise<MoodInference>;
+}
@@ -0,0 +1,20 @@
+export type Micronutrient = 'vitaminC' | 'calcium' | 'iron' | 'potassium';
+
+// Per-serving values. Macros in grams, sodium and micronutrients in milligrams.
+export interface NutritionFacts {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+  sugar: number;
+  sodium: number;
+  micronutrients: Record<Micronutrient, number>;
+}
+
+export interface RecipeNutrition {
+  facts: NutritionFacts;
+  source: 'hand-entered' | 'estimated' | 'partly-estimated'; // Partly: the recipe gives some values, the rest are estimated
+  coverage: number; // Share of ingredients found in the nutrient table (0-1)
+  unmatched: string[]; // Ingredients the estimate had to skip
+}
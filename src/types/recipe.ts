@@ -1,3 +1,48 @@
+import { NutritionFacts } from './nutrition';
+
+// Stable ids of every mood in the registry ('@/data/moods/moodRegistry')
+export type MoodId =
+  | 'happy'
+  | 'sad'
+  | 'energetic'
+  | 'tired'
+  | 'stressed'
+  | 'relaxed'
+  | 'hungry'
+  | 'nostalgic'
+  | 'adventurous'
+  | 'festive'
+  | 'homesick'
+  | 'romantic'
+  | 'creative'
+  | 'cozy'
+  | 'indulgent'
+  | 'celebratory'
+  | 'curious'
+  | 'sophisticated'
+  | 'healthy-minded'
+  | 'nostalgic-childhood'
+  | 'wanderlust'
+  | 'fusion'
+  | 'traditional'
+  | 'spice-lover'
+  | 'comfort-seeker'
+  | 'proud'
+  | 'mindful'
+  | 'decadent'
+  | 'nostalgic-travel'
+  | 'seasonal'
+  | 'social'
+  | 'comforting'
+  | 'inspired'
+  | 'time-pressed'
+  | 'refreshed'
+  | 'playful'
+  | 'spicy'
+  | 'sweet'
+  | 'exotic'
+  | 'focused'
+  | 'calm';
 
 export interface Mood {
   id: string;
@@ -6,6 +51,14 @@ export interface Mood {
   description: string;
 }
 
+// A registry mood: display metadata plus the words people use for it
+export interface MoodDefinition extends Mood {
+  id: MoodId;
+  aliases: string[];
+  // Also match any recipe that is ready within this many minutes, whatever its mood
+  maxTotalMinutes?: number;
+}
+
 export interface Recipe {
   id: string;
   name: string;
@@ -18,9 +71,10 @@ export interface Recipe {
   calories: number;
   tags: string[];
   difficulty: string;
-  mood: string;
+  mood: MoodId;
   aiSuggestion?: string;
   nutritionAnalysis?: string;
+  nutrition?: Partial<NutritionFacts>; // Hand-entered or published facts; whatever is missing is estimated from ingredients
   cookingTips?: string[];
   image?: string; // Added image as an optional property
 }
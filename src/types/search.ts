@@ -0,0 +1,36 @@
+// Filters that match words: tag:spicy, ingredient:"peanut butter", mood:cozy
+export type TextFilterField = 'tag' | 'ingredient' | 'mood' | 'difficulty' | 'diet' | 'name';
+
+// Filters that compare numbers: time:<30, calories:>=400, servings:4
+export type NumericFilterField = 'time' | 'calories' | 'servings';
+
+export type Comparison = '<' | '<=' | '>' | '>=' | '=';
+
+export type QueryClause =
+  | { kind: 'text'; value: string; phrase: boolean; negated: boolean }
+  | { kind: 'text-filter'; field: TextFilterField; value: string; negated: boolean }
+  | { kind: 'numeric-filter'; field: NumericFilterField; comparison: Comparison; value: number; negated: boolean };
+
+// A problem with part of the query, with the offending text's position for inline hints
+export interface QueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedQuery {
+  clauses: QueryClause[];
+  errors: QueryError[];
+}
+
+// Autocomplete entries under the search box; each kind does something different when picked
+export type SearchSuggestionType = 'recipe' | 'ingredient' | 'tag' | 'mood';
+
+export interface SearchSuggestion {
+  type: SearchSuggestionType;
+  value: string; // Recipe id, ingredient, tag or mood id
+  label: string;
+  detail?: string; // e.g. "12 recipes"
+  icon?: string;
+  highlights: [number, number][]; // [start, end) of the typed text within the label
+}
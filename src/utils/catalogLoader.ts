@@ -0,0 +1,79 @@
+import { Recipe } from '@/types/recipe';
+import { parseCooklang } from './cooklang';
+import { recipeSchema } from './recipeSchema';
+
+// Recipe files live at "<mood>/<recipe-id>.json" (or .cook) under src/data/recipes/catalog.
+// The folder and file name are the recipe's mood and id, so a file can leave those out.
+export const CATALOG_FILE_REGEX = /(?:^|\/)([^/]+)\/([^/]+)\.(json|cook)$/;
+
+export interface CatalogFileError {
+  file: string;
+  message: string;
+}
+
+export interface LoadedCatalog {
+  catalog: Record<string, Recipe[]>;
+  errors: CatalogFileError[];
+}
+
+const readRecipeFile = (file: string, source: string): Recipe => {
+  const [, mood, id, extension] = file.match(CATALOG_FILE_REGEX) || [];
+  if (!id) {
+    throw new Error('Recipe files must be named <mood>/<recipe-id>.json or <mood>/<recipe-id>.cook');
+  }
+
+  let data: Partial<Recipe>;
+  if (extension === 'cook') {
+    data = parseCooklang(source, { id, mood });
+  } else {
+    try {
+      data = JSON.parse(source);
+    } catch (error) {
+      throw new Error(`Invalid JSON: ${(error as Error).message}`);
+    }
+  }
+
+  if (data.id !== undefined && data.id !== id) {
+    throw new Error(`id "${data.id}" does not match the file name "${id}"`);
+  }
+  if (data.mood !== undefined && data.mood !== mood) {
+    throw new Error(`mood "${data.mood}" does not match the folder "${mood}"`);
+  }
+
+  const result = recipeSchema.safeParse({ ...data, id, mood });
+  if (!result.success) {
+    throw new Error(result.error.issues.map(issue => `${issue.path.join('.') || 'recipe'}: ${issue.message}`).join('; '));
+  }
+  return { ...data, id, mood } as Recipe;
+};
+
+// Builds the mood -> recipes catalog from file path -> contents, collecting every problem
+// rather than stopping at the first. Files are read in path order.
+export const loadCatalogFiles = (files: Record<string, string>, moodIds: string[]): LoadedCatalog => {
+  const catalog: Record<string, Recipe[]> = {};
+  const errors: CatalogFileError[] = [];
+  const fileById = new Map<string, string>();
+  const knownMoods = new Set(moodIds);
+
+  Object.keys(files).sort().forEach(file => {
+    try {
+      const recipe = readRecipeFile(file, files[file]);
+      if (!knownMoods.has(recipe.mood)) {
+        throw new Error(`"${recipe.mood}" is not a mood id; move the file into one of the mood folders`);
+      }
+      const firstFile = fileById.get(recipe.id);
+      if (firstFile) {
+        throw new Error(`recipe id "${recipe.id}" is already used by ${firstFile}`);
+      }
+      fileById.set(recipe.id, file);
+      catalog[recipe.mood] = [...(catalog[recipe.mood] || []), recipe];
+    } catch (error) {
+      errors.push({ file, message: (error as Error).message });
+    }
+  });
+
+  return { catalog, errors };
+};
+
+export const formatCatalogFileErrors = (errors: CatalogFileError[]): string =>
+  [`${errors.length} invalid recipe file(s):`, ...errors.map(({ file, message }) => `  ✖ ${file}: ${message}`)].join('\n');
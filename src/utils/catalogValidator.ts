@@ -0,0 +1,153 @@
+import { Mood, Recipe } from '@/types/recipe';
+import { recipeSchema } from './recipeSchema';
+import { getDietaryProfile } from './dietaryClassifier';
+import { getParsedIngredients } from './ingredientParser';
+
+export type CatalogIssueKind =
+  | 'schema'
+  | 'duplicate-id'
+  | 'orphan-mood'
+  | 'empty-mood'
+  | 'malformed-time'
+  | 'missing-image'
+  | 'unparsed-ingredient'
+  | 'dietary-review';
+
+export interface CatalogIssue {
+  kind: CatalogIssueKind;
+  severity: 'error' | 'warning';
+  message: string;
+  recipeId?: string;
+  moodId?: string;
+}
+
+export interface CatalogReport {
+  recipeCount: number;
+  moodCount: number;
+  issues: CatalogIssue[];
+}
+
+export interface CatalogSources {
+  catalog: Record<string, Recipe[]>;
+  moods: Mood[];
+}
+
+const TIME_FIELDS = ['prepTime', 'cookTime'];
+
+const checkSchema = (recipe: Recipe, issues: CatalogIssue[]) => {
+  const result = recipeSchema.safeParse(recipe);
+  if (result.success) {
+    return;
+  }
+
+  result.error.issues.forEach(issue => {
+    const field = issue.path.join('.');
+    const isTime = TIME_FIELDS.includes(String(issue.path[0]));
+    issues.push({
+      kind: isTime ? 'malformed-time' : 'schema',
+      severity: 'error',
+      message: `"${recipe.id}" ${field}: ${issue.message} (got ${JSON.stringify(recipe[issue.path[0] as keyof Recipe])})`,
+      recipeId: recipe.id,
+    });
+  });
+};
+
+export const validateCatalog = ({ catalog, moods }: CatalogSources): CatalogReport => {
+  const issues: CatalogIssue[] = [];
+  const moodIds = new Set(moods.map(mood => mood.id));
+  const recipesPerMood = new Map<string, number>();
+  const seenIds = new Map<string, string>();
+  let recipeCount = 0;
+
+  Object.entries(catalog).forEach(([category, recipes]) => {
+    recipes.forEach(recipe => {
+      recipeCount++;
+      checkSchema(recipe, issues);
+
+      const firstCategory = seenIds.get(recipe.id);
+      if (firstCategory !== undefined) {
+        issues.push({
+          kind: 'duplicate-id',
+          severity: 'error',
+          message: `Recipe id "${recipe.id}" appears more than once (in "${firstCategory}" and "${category}")`,
+          recipeId: recipe.id,
+        });
+      } else {
+        seenIds.set(recipe.id, category);
+      }
+
+      if (!moodIds.has(recipe.mood)) {
+        issues.push({
+          kind: 'orphan-mood',
+          severity: 'error',
+          message: `"${recipe.id}" has mood "${recipe.mood}", which is not a known mood id`,
+          recipeId: recipe.id,
+          moodId: recipe.mood,
+        });
+      }
+      recipesPerMood.set(recipe.mood, (recipesPerMood.get(recipe.mood) || 0) + 1);
+
+      if (!recipe.image) {
+        issues.push({
+          kind: 'missing-image',
+          severity: 'warning',
+          message: `"${recipe.id}" has no image`,
+          recipeId: recipe.id,
+        });
+      }
+
+      // An item that is empty or starts with punctuation means the parser left part of the line behind
+      getParsedIngredients(recipe).forEach(ingredient => {
+        if (!/^[\p{L}\p{N}]/u.test(ingredient.item)) {
+          issues.push({
+            kind: 'unparsed-ingredient',
+            severity: 'warning',
+            message: `"${recipe.id}" ingredient "${ingredient.original}" parses to the item "${ingredient.item}"`,
+            recipeId: recipe.id,
+          });
+        }
+      });
+
+      getDietaryProfile(recipe).review.forEach(item => {
+        issues.push({
+          kind: 'dietary-review',
+          severity: 'warning',
+          message: `"${recipe.id}" ingredient "${item.ingredient}" needs a manual allergen check: ${item.reason}`,
+          recipeId: recipe.id,
+        });
+      });
+    });
+  });
+
+  moods.forEach(mood => {
+    if (!recipesPerMood.get(mood.id)) {
+      issues.push({
+        kind: 'empty-mood',
+        severity: 'warning',
+        message: `Mood "${mood.id}" has no recipes`,
+        moodId: mood.id,
+      });
+    }
+  });
+
+  return { recipeCount, moodCount: moods.length, issues };
+};
+
+export const formatCatalogReport = (report: CatalogReport): string => {
+  const errors = report.issues.filter(issue => issue.severity === 'error').length;
+  const warnings = report.issues.length - errors;
+  const lines = [
+    `Checked ${report.recipeCount} recipes across ${report.moodCount} moods: ${errors} error(s), ${warnings} warning(s)`,
+  ];
+
+  const kinds = Array.from(new Set(report.issues.map(issue => issue.kind)));
+  kinds.forEach(kind => {
+    const ofKind = report.issues.filter(issue => issue.kind === kind);
+    lines.push('', `${kind} (${ofKind.length})`);
+    ofKind.forEach(issue => {
+      lines.push(`  ${issue.severity === 'error' ? '✖' : '⚠'} ${issue.message}`);
+    });
+  });
+
+  return lines.join('\n');
+};
@@ -1,4 +1,5 @@
-import { moods } from '@/data/moods/moodsList';
+import { MoodDefinition, MoodId } from '@/types/recipe';
+import { getMood } from '@/data/moods/moodRegistry';
 import { getRecipesByMood } from './recipeOperations';
 
 // Helper functions for random responses
@@ -46,188 +47,11 @@ function pickRandom(arr: string[]) {
   return arr[Math.floor(Math.random() * arr.length)];
 }
 
-function inferMood(message: string): string | null {
-  const lower = message.toLowerCase();
-  
-  const directMatch = moods.find((m) => lower.includes(m.name.toLowerCase()));
-  if (directMatch) return directMatch.id;
-  
-  if (
-    lower.includes('sad') || 
-    lower.includes('depressed') || 
-    lower.includes('feeling down') || 
-    lower.includes('unhappy') || 
-    lower.includes('miserable') || 
-    lower.includes('blue') ||
-    lower.includes('not feeling good') ||
-    lower.includes('crying')
-  ) {
-    return 'sad';
-  }
-  
-  if (
-    lower.includes('happy') || 
-    lower.includes('joy') || 
-    lower.includes('excited') || 
-    lower.includes('great') || 
-    lower.includes('wonderful') ||
-    lower.includes('good mood') ||
-    lower.includes('feeling awesome')
-  ) {
-    return 'happy';
-  }
-  
-  if (
-    lower.includes('romantic') || 
-    lower.includes('date night') || 
-    lower.includes('anniversary') || 
-    lower.includes('love') || 
-    lower.includes('special dinner')
-  ) {
-    return 'romantic';
-  }
-  
-  if (
-    lower.includes('comfort') || 
-    lower.includes('cozy') || 
-    lower.includes('relaxing') || 
-    lower.includes('need something warm') ||
-    lower.includes('comfort food')
-  ) {
-    return 'comforting';
-  }
-  
-  if (
-    lower.includes('adventurous') || 
-    lower.includes('exciting') || 
-    lower.includes('try something new') || 
-    lower.includes('exotic') || 
-    lower.includes('different cuisine')
-  ) {
-    return 'adventurous';
-  }
-  
-  if (
-    lower.includes('nostalgic') || 
-    lower.includes('childhood') || 
-    lower.includes('memory') || 
-    lower.includes('reminds me of') || 
-    lower.includes('like mom used to make')
-  ) {
-    return 'nostalgic';
-  }
-  
-  if (
-    lower.includes('energetic') || 
-    lower.includes('energy') || 
-    lower.includes('boost') || 
-    lower.includes('workout') || 
-    lower.includes('active') ||
-    lower.includes('need power')
-  ) {
-    return 'energetic';
-  }
-  
-  if (
-    lower.includes('stressed') || 
-    lower.includes('anxious') || 
-    lower.includes('overwhelmed') || 
-    lower.includes('pressure') || 
-    lower.includes('busy') ||
-    lower.includes('no time')
-  ) {
-    return 'stressed';
-  }
-  
-  if (
-    lower.includes('celebration') || 
-    lower.includes('party') || 
-    lower.includes('achievement') || 
-    lower.includes('special occasion') || 
-    lower.includes('celebrate')
-  ) {
-    return 'celebratory';
-  }
-  
-  if (
-    lower.includes('tired') || 
-    lower.includes('exhausted') || 
-    lower.includes('fatigue') || 
-    lower.includes('no energy') || 
-    lower.includes('sleepy')
-  ) {
-    return 'tired';
-  }
-  
-  if (
-    lower.includes('indulge') || 
-    lower.includes('treat myself') || 
-    lower.includes('decadent') || 
-    lower.includes('rich food') || 
-    lower.includes('spoil myself')
-  ) {
-    return 'indulgent';
-  }
-  
-  if (
-    lower.includes('mindful') || 
-    lower.includes('healthy') || 
-    lower.includes('nutritious') || 
-    lower.includes('balanced') || 
-    lower.includes('diet')
-  ) {
-    return 'mindful';
-  }
-  
-  if (
-    lower.includes('social') || 
-    lower.includes('friends') || 
-    lower.includes('gathering') || 
-    lower.includes('dinner party') || 
-    lower.includes('get together')
-  ) {
-    return 'social';
-  }
-  
-  if (
-    lower.includes('creative') || 
-    lower.includes('artistic') || 
-    lower.includes('something different') || 
-    lower.includes('unusual') || 
-    lower.includes('experimental')
-  ) {
-    return 'creative';
-  }
-  
-  if (
-    lower.includes('traditional') || 
-    lower.includes('classic') || 
-    lower.includes('authentic') || 
-    lower.includes('heritage') || 
-    lower.includes('old fashioned')
-  ) {
-    return 'traditional';
-  }
-  
-  return null;
-}
-
-export const getChatbotResponse = (message: string, moodId: string | null): string => {
+// moodId is the mood the message was read as (see ./moodInference), if any
+export const getChatbotResponse = (message: string, moodId: MoodId | null): string => {
   const lowerMessage = message.toLowerCase();
 
-  let mood: typeof moods[0] | null = null;
-  let usedMoodId = moodId;
-  
-  if (!usedMoodId) {
-    const inferredMood = inferMood(lowerMessage);
-    if (inferredMood) {
-      usedMoodId = inferredMood;
-    }
-  }
-  
-  if (usedMoodId) {
-    mood = moods.find(m => m.id === usedMoodId) || null;
-  }
+  const mood: MoodDefinition | null = moodId ? getMood(moodId) : null;
 
   if (mood) {
     const recipes = getRecipesByMood(mood.id);
@@ -0,0 +1,299 @@
+import { MoodId, Recipe } from '@/types/recipe';
+import { parseIngredient, parseQuantity } from './ingredientParser';
+
+// Cooklang (https://cooklang.org) with a few conventions of our own:
+// - recipe fields live in ">> key: value" metadata lines (or YAML-style front matter)
+// - an "== Ingredients ==" section lists ingredients one per line, in order, so
+//   Recipe.ingredients round-trips exactly; files without it collect @ingredients from the steps
+// - every other paragraph is one instruction step
+
+export interface CookIngredient {
+  name: string;
+  quantity?: string;
+  unit?: string;
+  note?: string;
+}
+
+export interface CookStep {
+  text: string; // The step as a reader sees it, markup removed
+  ingredients: CookIngredient[];
+  cookware: string[];
+  timers: string[];
+}
+
+const INGREDIENT_REGEX = /@(?:([^@#~{}\n]+?)\{([^}]*)\}|([\p{L}\p{N}_-]+))(?:\(([^)]*)\))?/gu;
+const COOKWARE_REGEX = /#(?:([^@#~{}\n]+?)\{([^}]*)\}|([\p{L}\p{N}_-]+))/gu;
+const TIMER_REGEX = /~([^@#~{}\n]*?)\{([^}]*)\}/gu;
+
+// Escaped markup characters are swapped for placeholders while parsing. "\-" keeps "--" and "[-"
+// from starting a comment; "\=" and "\>" keep a line from reading as a section or metadata.
+const ESCAPES: [string, string][] = [
+  ['\\@', '\u0001'], ['\\#', '\u0002'], ['\\~', '\u0003'], ['\\{', '\u0004'], ['\\}', '\u0005'],
+  ['\\-', '\u0006'], ['\\=', '\u0007'], ['\\>', '\u0008'],
+];
+
+const protectEscapes = (text: string) => ESCAPES.reduce((result, [escaped, placeholder]) => result.split(escaped).join(placeholder), text);
+const restoreEscapes = (text: string) => ESCAPES.reduce((result, [escaped, placeholder]) => result.split(placeholder).join(escaped.slice(1)), text);
+const escapeComments = (text: string) => text.replace(/(?<=[-[])-/g, '\\-');
+const escapeMarkup = (text: string) => escapeComments(text)
+  .replace(/[@#~{}]/g, match => `\\${match}`)
+  .replace(/^(\s*)([=>])/gm, '$1\\$2');
+
+// "2%cups" -> { quantity: "2", unit: "cups" }
+const parseAmount = (amount = ''): Pick<CookIngredient, 'quantity' | 'unit'> => {
+  const [quantity, unit] = amount.split('%').map(part => part.trim());
+  return {
+    ...(quantity ? { quantity } : {}),
+    ...(unit ? { unit } : {}),
+  };
+};
+
+// The ingredient line our Recipe type stores: "2 cups flour, sifted"
+export const formatCookIngredient = ({ name, quantity, unit, note }: CookIngredient): string =>
+  [quantity, unit, name].filter(Boolean).join(' ') + (note ? `, ${note}` : '');
+
+export const parseCookStep = (source: string): CookStep => {
+  const ingredients: CookIngredient[] = [];
+  const cookware: string[] = [];
+  const timers: string[] = [];
+
+  const text = protectEscapes(source)
+    .replace(INGREDIENT_REGEX, (_, longName, amount, shortName, note) => {
+      const name = (longName ?? shortName).trim();
+      ingredients.push({ name, ...parseAmount(amount), ...(note ? { note: note.trim() } : {}) });
+      return name;
+    })
+    .replace(COOKWARE_REGEX, (_, longName, __, shortName) => {
+      const name = (longName ?? shortName).trim();
+      cookware.push(name);
+      return name;
+    })
+    .replace(TIMER_REGEX, (_, __, amount) => {
+      const { quantity, unit } = parseAmount(amount);
+      const duration = [quantity, unit].filter(Boolean).join(' ');
+      timers.push(duration);
+      return duration;
+    });
+
+  return {
+    text: restoreEscapes(text).replace(/\s+/g, ' ').trim(),
+    ingredients: ingredients.map(ingredient => ({
+      ...ingredient,
+      name: restoreEscapes(ingredient.name),
+      ...(ingredient.note ? { note: restoreEscapes(ingredient.note) } : {}),
+    })),
+    cookware,
+    timers,
+  };
+};
+
+const stripComments = (source: string) => source
+  .replace(/\[-[\s\S]*?-\]/g, '')
+  .split('\n')
+  .map(line => line.replace(/(^|\s)--.*$/, ''))
+  .join('\n');
+
+// "prep_time", "prepTime" and "Prep Time" are the same key
+const normalizeKey = (key: string) => key
+  .replace(/([a-z])([A-Z])/g, '$1 $2')
+  .toLowerCase()
+  .replace(/[_-]+/g, ' ')
+  .trim();
+
+interface CookDocument {
+  metadata: Map<string, string[]>;
+  sections: { name: string; paragraphs: string[][] }[];
+}
+
+const readDocument = (source: string): CookDocument => {
+  const metadata = new Map<string, string[]>();
+  const addMetadata = (key: string, value: string) => {
+    const normalized = normalizeKey(key);
+    metadata.set(normalized, [...(metadata.get(normalized) || []), value.trim().replace(/\\-/g, '-')]);
+  };
+
+  let body = stripComments(source.replace(/\r\n?/g, '\n'));
+  const frontMatter = body.match(/^---\n([\s\S]*?)\n---\n?/);
+  if (frontMatter) {
+    frontMatter[1].split('\n').forEach(line => {
+      const match = line.match(/^([^:]+):\s*(.*)$/);
+      if (match) addMetadata(match[1], match[2].replace(/^["']|["']$/g, ''));
+    });
+    body = body.slice(frontMatter[0].length);
+  }
+
+  const sections: CookDocument['sections'] = [{ name: '', paragraphs: [] }];
+  let paragraph: string[] = [];
+  const endParagraph = () => {
+    if (paragraph.length) sections[sections.length - 1].paragraphs.push(paragraph);
+    paragraph = [];
+  };
+
+  body.split('\n').forEach(rawLine => {
+    const line = rawLine.trim();
+    const meta = line.match(/^>>\s*([^:]+):\s*(.*)$/);
+    const section = line.match(/^=+\s*(.*?)\s*=*$/);
+    if (meta) {
+      addMetadata(meta[1], meta[2]);
+    } else if (section) {
+      endParagraph();
+      sections.push({ name: section[1], paragraphs: [] });
+    } else if (!line) {
+      endParagraph();
+    } else {
+      paragraph.push(line);
+    }
+  });
+  endParagraph();
+
+  return { metadata, sections };
+};
+
+const INGREDIENTS_SECTION_REGEX = /^ingredients$/i;
+
+const firstNumber = (value?: string): number | null => {
+  const match = value?.match(/\d+(?:\.\d+)?/);
+  return match ? Number(match[0]) : null;
+};
+
+const DIFFICULTY_REGEX = /^(easy|medium|hard)$/i;
+
+export interface CookFileDefaults {
+  id?: string; // Usually the file name
+  mood?: string; // Usually the folder name
+}
+
+// Parses a .cook file into a Recipe. Fields the file leaves out fall back to `defaults`
+// or to neutral values the catalog validator will point out.
+export const parseCooklang = (source: string, defaults: CookFileDefaults = {}): Recipe => {
+  const { metadata, sections } = readDocument(source);
+  const meta = (...keys: string[]) => keys.map(key => metadata.get(key)?.[0]).find(value => value !== undefined);
+
+  const ingredientSection = sections.find(section => INGREDIENTS_SECTION_REGEX.test(section.name));
+  const stepSections = sections.filter(section => section !== ingredientSection);
+  const steps = stepSections.flatMap(section => section.paragraphs.map(lines => parseCookStep(lines.join(' '))));
+
+  let ingredients: string[];
+  if (ingredientSection) {
+    ingredients = ingredientSection.paragraphs.flat().map(line => {
+      const parsed = parseCookStep(line);
+      return parsed.ingredients.length === 1 && parsed.text === parsed.ingredients[0].name
+        ? formatCookIngredient(parsed.ingredients[0])
+        : parsed.text;
+    });
+  } else {
+    const seen = new Set<string>();
+    ingredients = steps.flatMap(step => step.ingredients).filter(ingredient => {
+      const key = ingredient.name.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    }).map(formatCookIngredient);
+  }
+
+  const difficulty = meta('difficulty');
+  const recipe: Recipe = {
+    id: meta('id') ?? defaults.id ?? '',
+    name: meta('title', 'name') ?? defaults.id ?? '',
+    description: meta('description') ?? '',
+    ingredients,
+    instructions: steps.map(step => step.text),
+    prepTime: meta('prep time') ?? '0 min',
+    cookTime: meta('cook time') ?? '0 min',
+    servings: Math.round(firstNumber(meta('servings', 'serves', 'yield')) ?? 1),
+    calories: firstNumber(meta('calories')) ?? 0,
+    tags: (meta('tags') ?? '').split(',').map(tag => tag.trim()).filter(Boolean),
+    difficulty: difficulty && DIFFICULTY_REGEX.test(difficulty)
+      ? (difficulty.charAt(0).toUpperCase() + difficulty.slice(1).toLowerCase()) as Recipe['difficulty']
+      : 'Medium',
+    mood: (meta('mood') ?? defaults.mood ?? '') as MoodId,
+  };
+
+  const image = meta('image');
+  const aiSuggestion = meta('ai suggestion');
+  const nutritionAnalysis = meta('nutrition analysis');
+  const nutrition = meta('nutrition');
+  const cookingTips = metadata.get('cooking tip') ?? metadata.get('tip');
+  if (aiSuggestion) recipe.aiSuggestion = aiSuggestion;
+  if (nutritionAnalysis) recipe.nutritionAnalysis = nutritionAnalysis;
+  if (nutrition) recipe.nutrition = JSON.parse(nutrition);
+  if (cookingTips) recipe.cookingTips = cookingTips;
+  if (image) recipe.image = image;
+  return recipe;
+};
+
+// Splits "1 1/2 cups flour, sifted" into Cooklang parts, or null when the line
+// can't be rebuilt word for word (it is then kept as a plain ingredient name)
+const toCookIngredient = (line: string): CookIngredient | null => {
+  const parsed = parseIngredient(line);
+  const itemIndex = line.indexOf(parsed.item);
+  if (parsed.quantity === null || parsed.optional || itemIndex <= 0) {
+    return null;
+  }
+
+  const words = line.slice(0, itemIndex).trim().split(/\s+/);
+  const suffix = line.slice(itemIndex + parsed.item.length);
+  const note = suffix.startsWith(', ') ? suffix.slice(2) : undefined;
+
+  for (let count = words.length; count > 0; count--) {
+    const quantity = words.slice(0, count).join(' ');
+    if (parseQuantity(quantity) === null && !/^[\d./½¼¾⅓⅔⅛]+\s*(?:-|–)\s*[\d./½¼¾⅓⅔⅛]+$/.test(quantity)) {
+      continue;
+    }
+    const unit = words.slice(count).join(' ');
+    const candidate: CookIngredient = {
+      name: parsed.item,
+      quantity,
+      ...(unit ? { unit } : {}),
+      ...(note ? { note } : {}),
+    };
+    return formatCookIngredient(candidate) === line ? candidate : null;
+  }
+  return null;
+};
+
+const formatIngredientMarkup = (line: string): string => {
+  const cook = toCookIngredient(line);
+  // A ")" would end the note early, and the amount has no escapes
+  if (!cook || cook.note?.includes(')') || /[@#~{}%]/.test(`${cook.quantity}${cook.unit ?? ''}`)) {
+    return `@${escapeMarkup(line)}{}`;
+  }
+  const amount = cook.unit ? `${cook.quantity}%${cook.unit}` : cook.quantity;
+  return `@${escapeMarkup(cook.name)}{${amount}}${cook.note ? `(${escapeMarkup(cook.note)})` : ''}`;
+};
+
+// Writes a Recipe as a .cook file that parseCooklang reads back into the same Recipe
+export const serializeCooklang = (recipe: Recipe): string => {
+  const metadata: [string, string | undefined][] = [
+    ['id', recipe.id],
+    ['title', recipe.name],
+    ['description', recipe.description],
+    ['mood', recipe.mood],
+    ['servings', String(recipe.servings)],
+    ['prep time', recipe.prepTime],
+    ['cook time', recipe.cookTime],
+    ['calories', String(recipe.calories)],
+    ['difficulty', recipe.difficulty],
+    ['tags', recipe.tags.join(', ')],
+    ['image', recipe.image],
+    ['ai suggestion', recipe.aiSuggestion],
+    ['nutrition analysis', recipe.nutritionAnalysis],
+    ['nutrition', recipe.nutrition && JSON.stringify(recipe.nutrition)],
+    ...(recipe.cookingTips || []).map(tip => ['cooking tip', tip] as [string, string]),
+  ];
+
+  return [
+    ...metadata
+      .filter((entry): entry is [string, string] => Boolean(entry[1]))
+      .map(([key, value]) => `>> ${key}: ${escapeComments(value)}`),
+    '',
+    '== Ingredients ==',
+    '',
+    ...recipe.ingredients.map(formatIngredientMarkup),
+    '',
+    '== Method ==',
+    '',
+    recipe.instructions.map(escapeMarkup).join('\n\n'),
+    '',
+  ].join('\n');
+};
@@ -0,0 +1,22 @@
+import { loadAllRecipes } from '@/data/recipes/index';
+import { moods } from '@/data/moods/moodRegistry';
+import { validateCatalog, formatCatalogReport } from './catalogValidator';
+
+// Dev-only: prints the catalog integrity report to the console on startup. Broken recipe
+// files already stop the dev server; this covers the softer checks on top.
+export const runDevCatalogCheck = async () => {
+  const report = validateCatalog({
+    catalog: await loadAllRecipes(),
+    moods,
+  });
+
+  if (report.issues.length === 0) {
+    console.info(`Recipe catalog OK (${report.recipeCount} recipes)`);
+    return;
+  }
+
+  const hasErrors = report.issues.some(issue => issue.severity === 'error');
+  console.groupCollapsed(`%cRecipe catalog: ${report.issues.length} issue(s) found`, `color: ${hasErrors ? '#dc2626' : '#d97706'}`);
+  console.log(formatCatalogReport(report));
+  console.groupEnd();
+};
@@ -0,0 +1,148 @@
+import { Recipe } from '@/types/recipe';
+import { Allergen, Diet, DietaryProfile, DietaryReviewItem } from '@/types/dietary';
+import { INGREDIENT_RULES } from '@/data/dietary/ingredientRules';
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  gluten: 'Gluten',
+  dairy: 'Dairy',
+  egg: 'Egg',
+  peanut: 'Peanuts',
+  'tree-nut': 'Tree nuts',
+  soy: 'Soy',
+  fish: 'Fish',
+  shellfish: 'Shellfish',
+  sesame: 'Sesame',
+};
+
+export const DIET_LABELS: Record<Diet, string> = {
+  vegan: 'Vegan',
+  vegetarian: 'Vegetarian',
+  pescatarian: 'Pescatarian',
+  'gluten-free': 'Gluten-free',
+  'dairy-free': 'Dairy-free',
+};
+
+const ALLERGENS = Object.keys(ALLERGEN_LABELS) as Allergen[];
+const DIETS = Object.keys(DIET_LABELS) as Diet[];
+
+interface IngredientTraits {
+  allergens: Set<Allergen>;
+  meat: boolean;
+  honey: boolean;
+}
+
+export interface IngredientClassification extends IngredientTraits {
+  review: DietaryReviewItem[];
+}
+
+const emptyTraits = (): IngredientTraits => ({ allergens: new Set(), meat: false, honey: false });
+
+// "tofu or shrimp": the cook picks one, so nothing about it is certain
+const ALTERNATIVES_REGEX = /\s+or\s+/i;
+
+export const classifyIngredient = (ingredient: string): IngredientClassification => {
+  const text = ingredient.toLowerCase();
+  const definite = emptyTraits();
+  const review: DietaryReviewItem[] = [];
+
+  INGREDIENT_RULES.forEach(rule => {
+    if (!rule.pattern.test(text) || rule.unless?.test(text)) {
+      return;
+    }
+    rule.allergens?.forEach(allergen => definite.allergens.add(allergen));
+    definite.meat = definite.meat || Boolean(rule.meat);
+    definite.honey = definite.honey || Boolean(rule.honey);
+    if (rule.review) {
+      review.push({
+        ingredient,
+        reason: rule.review.reason,
+        possibleAllergens: rule.review.allergens || [],
+        possibleMeat: Boolean(rule.review.meat),
+        unknownContents: Boolean(rule.review.unknown),
+      });
+    }
+  });
+
+  if (ALTERNATIVES_REGEX.test(text) && (definite.allergens.size || definite.meat || definite.honey)) {
+    review.push({
+      ingredient,
+      reason: 'Offers a choice of ingredients; depends on which one you use',
+      possibleAllergens: Array.from(definite.allergens),
+      possibleMeat: definite.meat,
+      unknownContents: false,
+    });
+    return { ...emptyTraits(), review };
+  }
+
+  return { ...definite, review };
+};
+
+const ANIMAL_ALLERGENS: Allergen[] = ['dairy', 'egg', 'fish', 'shellfish'];
+
+// Which diets a set of traits rules out
+const excludedDiets = (allergens: Set<Allergen>, meat: boolean, honey: boolean): Set<Diet> => {
+  const excluded = new Set<Diet>();
+  const seafood = allergens.has('fish') || allergens.has('shellfish');
+  if (meat) {
+    excluded.add('vegan').add('vegetarian').add('pescatarian');
+  }
+  if (seafood) {
+    excluded.add('vegan').add('vegetarian');
+  }
+  if (honey || ANIMAL_ALLERGENS.some(allergen => allergens.has(allergen))) {
+    excluded.add('vegan');
+  }
+  if (allergens.has('gluten')) {
+    excluded.add('gluten-free');
+  }
+  if (allergens.has('dairy')) {
+    excluded.add('dairy-free');
+  }
+  return excluded;
+};
+
+const profileByRecipe = new WeakMap<Recipe, DietaryProfile>();
+
+// Allergens and diets for a recipe. The rules list what rules a diet out, so an ingredient
+// no rule matches ("Carrots") is taken to fit every diet; products whose contents vary
+// ("protein powder", "seeds mix", "hotpot broth base") have rules that send them to
+// `review` instead. A diet is listed unless some ingredient rules it out or might.
+export const getDietaryProfile = (recipe: Recipe): DietaryProfile => {
+  const cached = profileByRecipe.get(recipe);
+  if (cached) {
+    return cached;
+  }
+
+  const allergens = new Set<Allergen>();
+  const possible = new Set<Allergen>();
+  const review: DietaryReviewItem[] = [];
+  let meat = false;
+  let honey = false;
+  let possibleMeat = false;
+  let unknownContents = false;
+
+  recipe.ingredients.forEach(ingredient => {
+    const classification = classifyIngredient(ingredient);
+    classification.allergens.forEach(allergen => allergens.add(allergen));
+    meat = meat || classification.meat;
+    honey = honey || classification.honey;
+    classification.review.forEach(item => {
+      item.possibleAllergens.forEach(allergen => possible.add(allergen));
+      possibleMeat = possibleMeat || item.possibleMeat;
+      unknownContents = unknownContents || item.unknownContents;
+      review.push(item);
+    });
+  });
+
+  const excluded = excludedDiets(allergens, meat, honey);
+  const maybeExcluded = excludedDiets(possible, possibleMeat, false);
+
+  const profile: DietaryProfile = {
+    allergens: ALLERGENS.filter(allergen => allergens.has(allergen)),
+    possibleAllergens: ALLERGENS.filter(allergen => possible.has(allergen) && !allergens.has(allergen)),
+    diets: unknownContents ? [] : DIETS.filter(diet => !excluded.has(diet) && !maybeExcluded.has(diet)),
+    review,
+  };
+  profileByRecipe.set(recipe, profile);
+  return profile;
+};
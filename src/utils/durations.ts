@@ -0,0 +1,104 @@
+import { Recipe } from '@/types/recipe';
+
+export interface ParsedDuration {
+  minutes: number;
+  maxMinutes?: number; // Upper bound for ranges like "10-15 mins"
+  passive?: boolean; // True for waits such as "overnight"
+}
+
+export interface RecipeTiming {
+  prepMinutes: number;
+  cookMinutes: number;
+  totalMinutes: number;
+  activeMinutes: number; // Hands-on time
+  passiveMinutes: number; // Oven, fridge, simmering and other waiting time
+}
+
+// How long "overnight" counts for when adding up times
+export const OVERNIGHT_MINUTES = 8 * 60;
+
+const UNIT_MINUTES: Record<string, number> = {
+  s: 1 / 60, sec: 1 / 60, secs: 1 / 60, second: 1 / 60, seconds: 1 / 60,
+  m: 1, min: 1, mins: 1, minute: 1, minutes: 1,
+  h: 60, hr: 60, hrs: 60, hour: 60, hours: 60,
+  d: 24 * 60, day: 24 * 60, days: 24 * 60,
+};
+
+const PART_REGEX = /(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*(seconds?|secs?|s|minutes?|mins?|m|hours?|hrs?|hr|h|days?|d)\b/gi;
+
+// Parses "15 mins", "1 hour 30 mins", "1.5 hours", "10-15 mins" or "overnight" into minutes
+export const parseDuration = (text: string): ParsedDuration | null => {
+  const value = text.trim().toLowerCase();
+  if (!value) {
+    return null;
+  }
+  if (/\bovernight\b/.test(value)) {
+    return { minutes: OVERNIGHT_MINUTES, passive: true };
+  }
+
+  let minutes = 0;
+  let maxMinutes = 0;
+  let hasRange = false;
+  let matched = false;
+
+  for (const match of value.matchAll(PART_REGEX)) {
+    const perUnit = UNIT_MINUTES[match[3].toLowerCase()];
+    const low = Number(match[1]) * perUnit;
+    const high = match[2] ? Number(match[2]) * perUnit : low;
+    minutes += low;
+    maxMinutes += high;
+    hasRange = hasRange || Boolean(match[2]);
+    matched = true;
+  }
+
+  if (!matched) {
+    // A bare number is taken as minutes
+    return /^\d+(\.\d+)?$/.test(value) ? { minutes: Number(value) } : null;
+  }
+
+  const parsed: ParsedDuration = { minutes: Math.round(minutes) };
+  if (hasRange) {
+    parsed.maxMinutes = Math.round(maxMinutes);
+  }
+  return parsed;
+};
+
+// Cooking that mostly happens without you standing over it
+const PASSIVE_STEP_REGEX = /\b(bake|baking|roast|simmer|slow[- ]cook|braise|chill|refrigerate|freeze|marinate|rest|rise|proof|steep|set aside|let (?:it )?set)\b/i;
+
+const timingByRecipe = new WeakMap<Recipe, RecipeTiming>();
+
+// Normalised prep/cook/total minutes for a recipe, split into active and passive time
+export const getRecipeTiming = (recipe: Recipe): RecipeTiming => {
+  const cached = timingByRecipe.get(recipe);
+  if (cached) {
+    return cached;
+  }
+
+  const prep = parseDuration(recipe.prepTime);
+  const cook = parseDuration(recipe.cookTime);
+  const prepMinutes = prep?.minutes ?? 0;
+  const cookMinutes = cook?.minutes ?? 0;
+  const cookIsPassive = cook?.passive || recipe.instructions.some(step => PASSIVE_STEP_REGEX.test(step));
+  const passiveMinutes = (prep?.passive ? prepMinutes : 0) + (cookIsPassive ? cookMinutes : 0);
+
+  const timing: RecipeTiming = {
+    prepMinutes,
+    cookMinutes,
+    totalMinutes: prepMinutes + cookMinutes,
+    activeMinutes: prepMinutes + cookMinutes - passiveMinutes,
+    passiveMinutes,
+  };
+  timingByRecipe.set(recipe, timing);
+  return timing;
+};
+
+// "45 min", "1 hr 15 min", "2 hr"
+export const formatMinutes = (minutes: number): string => {
+  if (minutes < 60) {
+    return `${minutes} min`;
+  }
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours} hr ${rest} min` : `${hours} hr`;
+};
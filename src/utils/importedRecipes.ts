@@ -0,0 +1,47 @@
+import { Recipe } from '@/types/recipe';
+import { recipeSchema } from './recipeSchema';
+
+const STORAGE_KEY = 'importedRecipes';
+export const IMPORTED_RECIPES_EVENT = 'imported-recipes-change';
+
+let cachedRaw: string | null = null;
+let cachedRecipes: Recipe[] = [];
+
+// Recipes the user imported, kept in localStorage. Parsed once per change so every
+// caller gets the same objects (the parsers memoize by object identity).
+export const getImportedRecipes = (): Recipe[] => {
+  if (typeof localStorage === 'undefined') {
+    return [];
+  }
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (raw === cachedRaw) {
+    return cachedRecipes;
+  }
+
+  cachedRaw = raw;
+  try {
+    const stored: unknown[] = JSON.parse(raw || '[]');
+    // Drop anything that no longer matches the schema rather than crash the catalog
+    cachedRecipes = stored.filter(recipe => recipeSchema.safeParse(recipe).success) as Recipe[];
+  } catch {
+    cachedRecipes = [];
+  }
+  return cachedRecipes;
+};
+
+const writeImportedRecipes = (recipes: Recipe[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(recipes));
+  window.dispatchEvent(new Event(IMPORTED_RECIPES_EVENT));
+};
+
+export const saveImportedRecipe = (recipe: Recipe) => {
+  const others = getImportedRecipes().filter(existing => existing.id !== recipe.id);
+  writeImportedRecipes([...others, recipe]);
+};
+
+export const removeImportedRecipe = (id: string) => {
+  writeImportedRecipes(getImportedRecipes().filter(recipe => recipe.id !== id));
+};
+
+export const isImportedRecipe = (id: string): boolean =>
+  getImportedRecipes().some(recipe => recipe.id === id);
@@ -0,0 +1,180 @@
+import { Recipe } from '@/types/recipe';
+import { IngredientUnit, ParsedIngredient } from '@/types/ingredient';
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '½': 1 / 2,
+  '⅓': 1 / 3,
+  '⅔': 2 / 3,
+  '¼': 1 / 4,
+  '¾': 3 / 4,
+  '⅕': 1 / 5,
+  '⅛': 1 / 8,
+  '⅜': 3 / 8,
+  '⅝': 5 / 8,
+  '⅞': 7 / 8,
+};
+
+// Every spelling we accept, mapped to its canonical unit
+const UNIT_ALIASES: Record<string, IngredientUnit> = {
+  tsp: 'tsp', tsps: 'tsp', teaspoon: 'tsp', teaspoons: 'tsp',
+  tbsp: 'tbsp', tbsps: 'tbsp', tablespoon: 'tbsp', tablespoons: 'tbsp',
+  cup: 'cup', cups: 'cup',
+  'fl oz': 'fl oz', 'fluid ounce': 'fl oz', 'fluid ounces': 'fl oz',
+  ml: 'ml', milliliter: 'ml', milliliters: 'ml', millilitre: 'ml', millilitres: 'ml',
+  l: 'l', liter: 'l', liters: 'l', litre: 'l', litres: 'l',
+  g: 'g', gram: 'g', grams: 'g',
+  kg: 'kg', kilogram: 'kg', kilograms: 'kg',
+  oz: 'oz', ounce: 'oz', ounces: 'oz',
+  lb: 'lb', lbs: 'lb', pound: 'lb', pounds: 'lb',
+  pinch: 'pinch', pinches: 'pinch',
+  dash: 'dash', dashes: 'dash',
+  clove: 'clove', cloves: 'clove',
+  slice: 'slice', slices: 'slice',
+  stalk: 'stalk', stalks: 'stalk',
+  sprig: 'sprig', sprigs: 'sprig',
+  scoop: 'scoop', scoops: 'scoop',
+  bottle: 'bottle', bottles: 'bottle',
+  can: 'can', cans: 'can',
+  bunch: 'bunch', bunches: 'bunch',
+  handful: 'handful', handfuls: 'handful',
+  stick: 'stick', sticks: 'stick',
+  sheet: 'sheet', sheets: 'sheet',
+  piece: 'piece', pieces: 'piece',
+};
+
+// Longest aliases first so "fl oz" wins over "oz" and "cups" over "cup"
+const UNIT_PATTERN = Object.keys(UNIT_ALIASES)
+  .sort((a, b) => b.length - a.length)
+  .map(alias => alias.replace(' ', '\\s+'))
+  .join('|');
+
+const FRACTION_CHARS = Object.keys(UNICODE_FRACTIONS).join('');
+const NUMBER_PATTERN = `(?:\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d*[${FRACTION_CHARS}]|\\d+(?:\\.\\d+)?)`;
+const QUANTITY_REGEX = new RegExp(
+  `^(${NUMBER_PATTERN})(?:\\s*(?:-|–|to)\\s*(${NUMBER_PATTERN}))?\\s*`
+);
+const UNIT_REGEX = new RegExp(`^(${UNIT_PATTERN})\\.?(?=\\s|$)(\\s+of\\b)?\\s*`, 'i');
+// "(optional)", "Optional: chili flakes" or "chili flakes, optional"
+const OPTIONAL_REGEX = /\(\s*optional\s*\)|^optional\s*[:-]\s*|,?\s*\boptional\b/i;
+
+// Parses "1 1/2", "3/4", "½", "1½" or "2.5" into a number
+export const parseQuantity = (text: string): number | null => {
+  const value = text.trim();
+
+  const mixed = value.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) {
+    return Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+  }
+
+  const fraction = value.match(/^(\d+)\/(\d+)$/);
+  if (fraction) {
+    return Number(fraction[2]) === 0 ? null : Number(fraction[1]) / Number(fraction[2]);
+  }
+
+  const unicode = value.match(new RegExp(`^(\\d*)([${FRACTION_CHARS}])$`));
+  if (unicode) {
+    return (unicode[1] ? Number(unicode[1]) : 0) + UNICODE_FRACTIONS[unicode[2]];
+  }
+
+  const numeric = Number(value);
+  return value !== '' && !Number.isNaN(numeric) ? numeric : null;
+};
+
+export const parseIngredient = (original: string): ParsedIngredient => {
+  let rest = original.trim();
+  const notes: string[] = [];
+
+  const optional = OPTIONAL_REGEX.test(rest);
+  if (optional) {
+    rest = rest.replace(OPTIONAL_REGEX, '').trim();
+  }
+
+  // Parenthetical remarks are notes, not part of the item name
+  rest = rest.replace(/\(([^)]*)\)/g, (_, note: string) => {
+    if (note.trim()) notes.push(note.trim());
+    return '';
+  }).replace(/\s{2,}/g, ' ').trim();
+
+  let quantity: number | null = null;
+  let quantityMax: number | undefined;
+  const quantityMatch = rest.match(QUANTITY_REGEX);
+  if (quantityMatch) {
+    quantity = parseQuantity(quantityMatch[1]);
+    if (quantityMatch[2]) {
+      quantityMax = parseQuantity(quantityMatch[2]) ?? undefined;
+    }
+    rest = rest.slice(quantityMatch[0].length);
+  }
+
+  let unit: IngredientUnit | null = null;
+  const unitMatch = rest.match(UNIT_REGEX);
+  if (unitMatch) {
+    const remainder = rest.slice(unitMatch[0].length).trim();
+    // "4 cloves" on its own is the spice, not a unit of something else, and
+    // without a number only "Pinch of ..." style phrases count ("Gram flour")
+    const hasMeasure = quantity !== null || Boolean(unitMatch[2]);
+    if (hasMeasure && remainder && !remainder.startsWith(',')) {
+      unit = UNIT_ALIASES[unitMatch[1].toLowerCase().replace(/\s+/g, ' ')];
+      rest = remainder;
+    }
+  }
+
+  const commaIndex = rest.indexOf(',');
+  if (commaIndex !== -1) {
+    const preparation = rest.slice(commaIndex + 1).trim();
+    if (preparation) notes.unshift(preparation);
+    rest = rest.slice(0, commaIndex).trim();
+  }
+
+  const toTaste = rest.match(/\s+(to taste|as needed)$/i);
+  if (toTaste) {
+    notes.push(toTaste[1].toLowerCase());
+    rest = rest.slice(0, toTaste.index).trim();
+  }
+
+  const parsed: ParsedIngredient = {
+    original,
+    quantity,
+    unit,
+    item: rest,
+    optional,
+  };
+
+  if (quantityMax !== undefined) {
+    parsed.quantityMax = quantityMax;
+  }
+  if (notes.length > 0) {
+    parsed.preparation = notes.join(', ');
+  }
+
+  return parsed;
+};
+
+// Keyed by the ingredients array itself so an edited copy of a recipe is re-parsed
+const parsedByIngredientList = new WeakMap<string[], ParsedIngredient[]>();
+
+export const getParsedIngredients = (recipe: Recipe): ParsedIngredient[] => {
+  const cached = parsedByIngredientList.get(recipe.ingredients);
+  if (cached) {
+    return cached;
+  }
+
+  const parsed = recipe.ingredients.map(ingredient => parseIngredient(ingredient));
+  parsedByIngredientList.set(recipe.ingredients, parsed);
+  return parsed;
+};
+
+// Parses every recipe in a mood -> recipes catalog, keyed by recipe id
+export const parseCatalogIngredients = (
+  catalog: Record<string, Recipe[]>
+): Record<string, ParsedIngredient[]> => {
+  const result: Record<string, ParsedIngredient[]> = {};
+
+  Object.values(catalog).forEach(categoryRecipes => {
+    categoryRecipes.forEach(recipe => {
+      result[recipe.id] = getParsedIngredients(recipe);
+    });
+  });
+
+  return result;
+};
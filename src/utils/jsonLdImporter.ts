@@ -0,0 +1,269 @@
+import { MoodId, Recipe } from '@/types/recipe';
+import { NutritionFacts } from '@/types/nutrition';
+import { formatMinutes } from './durations';
+import { inferMood } from './moodInference';
+import { getRecipeNutrition } from './nutrition';
+
+// Loosely typed schema.org node; blogs fill these in every way the spec allows
+type JsonLdNode = Record<string, unknown>;
+
+const JSON_LD_SCRIPT_REGEX = /<script[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', frac12: '½', frac14: '¼', frac34: '¾', deg: '°',
+};
+
+// Blog JSON-LD often carries HTML tags and entities inside its strings
+const cleanText = (value: unknown): string => String(value ?? '')
+  .replace(/<[^>]+>/g, ' ')
+  .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+  .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+  .replace(/&([a-z0-9]+);/gi, (match, name) => HTML_ENTITIES[name.toLowerCase()] ?? match)
+  .replace(/\s+/g, ' ')
+  .trim();
+
+const toArray = <T,>(value: T | T[] | undefined | null): T[] =>
+  value === undefined || value === null ? [] : Array.isArray(value) ? value : [value];
+
+const hasType = (node: JsonLdNode, type: string) =>
+  toArray(node['@type'] as string | string[]).some(value => String(value).toLowerCase() === type.toLowerCase());
+
+// Pulls every JSON-LD block out of an HTML page
+export const extractJsonLdFromHtml = (html: string): unknown[] => {
+  const blocks: unknown[] = [];
+  for (const match of html.matchAll(JSON_LD_SCRIPT_REGEX)) {
+    try {
+      blocks.push(JSON.parse(match[1].trim()));
+    } catch {
+      // Broken blocks (ads, trackers) are common; skip them
+    }
+  }
+  return blocks;
+};
+
+// Finds the first Recipe node, looking through arrays and @graph containers
+export const findRecipeNode = (data: unknown): JsonLdNode | null => {
+  if (Array.isArray(data)) {
+    for (const item of data) {
+      const found = findRecipeNode(item);
+      if (found) return found;
+    }
+    return null;
+  }
+  if (!data || typeof data !== 'object') {
+    return null;
+  }
+  const node = data as JsonLdNode;
+  if (hasType(node, 'Recipe')) {
+    return node;
+  }
+  return node['@graph'] ? findRecipeNode(node['@graph']) : null;
+};
+
+const ISO_DURATION_REGEX = /^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i;
+
+// "PT1H30M" -> 90. Returns null for anything that isn't an ISO-8601 duration.
+export const parseIsoDuration = (value: unknown): number | null => {
+  const match = typeof value === 'string' ? value.trim().match(ISO_DURATION_REGEX) : null;
+  if (!match || match.slice(1).every(part => part === undefined)) {
+    return null;
+  }
+  const [days, hours, minutes, seconds] = match.slice(1).map(part => Number(part ?? 0));
+  return Math.round(days * 24 * 60 + hours * 60 + minutes + seconds / 60);
+};
+
+const firstNumber = (value: unknown): number | null => {
+  for (const item of toArray(value)) {
+    const match = String(item).match(/\d+(?:\.\d+)?/);
+    if (match) return Number(match[0]);
+  }
+  return null;
+};
+
+const mapInstructions = (value: unknown, section?: string): string[] => {
+  if (typeof value === 'string') {
+    // A single string may hold the whole method, one step per line
+    return value.split(/\n+/).map(cleanText).filter(Boolean).map(step => (section ? `${section}: ${step}` : step));
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(item => mapInstructions(item, section));
+  }
+  if (!value || typeof value !== 'object') {
+    return [];
+  }
+  const node = value as JsonLdNode;
+  if (hasType(node, 'HowToSection')) {
+    const name = cleanText(node.name);
+    return mapInstructions(node.itemListElement, name || section);
+  }
+  if (node.itemListElement) {
+    return mapInstructions(node.itemListElement, section);
+  }
+  return mapInstructions(node.text ?? node.name, section);
+};
+
+// A full http(s) URL, with relative ones resolved against baseUrl; undefined otherwise
+const toHttpUrl = (value: unknown, baseUrl?: string): string | undefined => {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  try {
+    const url = new URL(value.trim(), baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Images are often relative ("/wp-content/uploads/..."), so they are resolved against the
+// recipe's or the page's URL. The recipe schema only accepts full URLs, so anything else is dropped.
+const mapImage = (value: unknown, baseUrl?: string): string | undefined => {
+  const first = toArray(value)[0];
+  return toHttpUrl(first && typeof first === 'object'
+    ? (first as JsonLdNode).url ?? (first as JsonLdNode).contentUrl
+    : first, baseUrl);
+};
+
+const PAGE_URL_REGEXES = [
+  /<base[^>]*href\s*=\s*["']([^"']+)["']/i,
+  /<link[^>]*rel\s*=\s*["']canonical["'][^>]*href\s*=\s*["']([^"']+)["']/i,
+  /<meta[^>]*property\s*=\s*["']og:url["'][^>]*content\s*=\s*["']([^"']+)["']/i,
+];
+
+// Where a saved page came from, if it says
+export const extractPageUrlFromHtml = (html: string): string | undefined => {
+  for (const regex of PAGE_URL_REGEXES) {
+    const url = toHttpUrl(html.match(regex)?.[1]);
+    if (url) return url;
+  }
+  return undefined;
+};
+
+const mapTags = (node: JsonLdNode): string[] => {
+  const values = [
+    ...toArray(node.recipeCuisine),
+    ...toArray(node.recipeCategory),
+    ...toArray(node.keywords).flatMap(keywords => String(keywords).split(',')),
+  ].map(cleanText).filter(Boolean);
+
+  const seen = new Set<string>();
+  return values.filter(tag => {
+    const key = tag.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  }).slice(0, 8);
+};
+
+// schema.org field -> our field; values look like "12 g" or "300 mg"
+const NUTRITION_FIELDS: [string, keyof Omit<NutritionFacts, 'micronutrients'>][] = [
+  ['calories', 'calories'],
+  ['proteinContent', 'protein'],
+  ['carbohydrateContent', 'carbs'],
+  ['fatContent', 'fat'],
+  ['fiberContent', 'fiber'],
+  ['sugarContent', 'sugar'],
+  ['sodiumContent', 'sodium'],
+];
+
+const mapNutrition = (value: unknown): Partial<NutritionFacts> => {
+  if (!value || typeof value !== 'object') {
+    return {};
+  }
+  const node = value as JsonLdNode;
+  const facts: Partial<NutritionFacts> = {};
+  NUTRITION_FIELDS.forEach(([field, key]) => {
+    const amount = firstNumber(node[field]);
+    if (amount !== null) {
+      facts[key] = amount;
+    }
+  });
+  return facts;
+};
+
+const slugify = (text: string) => text
+  .toLowerCase()
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .replace(/[^a-z0-9]+/g, '-')
+  .replace(/^-+|-+$/g, '');
+
+const guessDifficulty = (totalMinutes: number, steps: number): Recipe['difficulty'] => {
+  if (totalMinutes <= 30 && steps <= 6) return 'Easy';
+  if (totalMinutes <= 90) return 'Medium';
+  return 'Hard';
+};
+
+// Maps a schema.org Recipe node onto our Recipe. Fields the source doesn't have
+// (mood, difficulty) are guessed so the preview has something to edit, though the mood stays
+// empty when nothing points to one. pageUrl is where the node was found, for resolving
+// relative image URLs.
+export const mapJsonLdRecipe = async (node: JsonLdNode, pageUrl?: string): Promise<Recipe> => {
+  const name = cleanText(node.name) || 'Imported recipe';
+  const description = cleanText(node.description) || name;
+  const ingredients = toArray(node.recipeIngredient ?? node.ingredients).map(cleanText).filter(Boolean);
+  const instructions = mapInstructions(node.recipeInstructions);
+  const tags = mapTags(node);
+
+  const prepMinutes = parseIsoDuration(node.prepTime);
+  const cookMinutes = parseIsoDuration(node.cookTime);
+  const totalMinutes = parseIsoDuration(node.totalTime);
+  // Some sites only give a total; count it all as cooking time
+  const cook = cookMinutes ?? (totalMinutes !== null ? Math.max(totalMinutes - (prepMinutes ?? 0), 0) : 0);
+  const prep = prepMinutes ?? 0;
+
+  const nutrition = mapNutrition(node.nutrition);
+
+  const recipe: Recipe = {
+    id: slugify(name) || 'imported-recipe',
+    name,
+    description,
+    ingredients,
+    instructions,
+    prepTime: formatMinutes(prep),
+    cookTime: formatMinutes(cook),
+    servings: Math.max(Math.round(firstNumber(node.recipeYield) ?? 4), 1),
+    calories: Math.round(nutrition.calories ?? 0),
+    tags,
+    difficulty: guessDifficulty(prep + cook, instructions.length),
+    mood: ((await inferMood([name, description, ...tags].join(' '))) ?? '') as MoodId,
+  };
+
+  const image = mapImage(node.image, toHttpUrl(node.url) ?? pageUrl);
+  if (image) {
+    recipe.image = image;
+  }
+
+  if (!recipe.calories) {
+    recipe.calories = getRecipeNutrition({ ...recipe }).facts.calories;
+  }
+  // Keep only the publisher's values; getRecipeNutrition estimates the rest (micronutrients
+  // aren't in schema.org) each time they're shown
+  if (Object.keys(nutrition).length > 1) {
+    recipe.nutrition = nutrition;
+  }
+
+  return recipe;
+};
+
+// Accepts either a pasted JSON-LD blob or a full HTML page
+export const importRecipeFromText = async (input: string): Promise<Recipe> => {
+  const text = input.trim();
+  let data: unknown;
+  let pageUrl: string | undefined;
+
+  if (text.startsWith('{') || text.startsWith('[')) {
+    try {
+      data = JSON.parse(text);
+    } catch (error) {
+      throw new Error(`That doesn't look like valid JSON: ${(error as Error).message}`);
+    }
+  } else {
+    data = extractJsonLdFromHtml(text);
+    pageUrl = extractPageUrlFromHtml(text);
+  }
+
+  const node = findRecipeNode(data);
+  if (!node) {
+    throw new Error('No schema.org Recipe was found. Paste the JSON-LD block or upload the saved page.');
+  }
+  return mapJsonLdRecipe(node, pageUrl);
+};
@@ -0,0 +1,76 @@
+// Blends of registry moods: picked in mood input with an intensity each ("very Tired, a little
+// Celebratory"), or read from moods that aren't in the registry ("rainy sunday"). Recipes are
+// ranked by how well they fit the blend and, for typed moods, the text.
+import { MoodId } from '@/types/recipe';
+import { BlendedRecipe, CustomMoodReading, MoodIntensity, MoodSelection, MoodWeight } from '@/types/moodBlend';
+import { loadAllRecipes } from '@/data/recipes/index';
+import { moodInferenceEngine } from './moodInference';
+import { getRecipesByMoodBlend, searchRecipesRanked } from './recipeOperations';
+
+// The recipes that best match the text vote for their own moods, so "rainy sunday" leans
+// towards whatever the rainy-day recipes are filed under. The votes count for more the more
+// recipes match, so one loose match can't swing the reading.
+const VOTING_RECIPES = 20;
+const RECIPE_VOTES_WEIGHT = 0.5; // With every voter, next to the inference engine's 1
+
+// A mood has to be this much of the reading to be part of the blend
+const MIN_BLEND_WEIGHT = 0.2;
+const MAX_BLEND_MOODS = 3;
+
+// How much mentioning the text counts next to fitting the whole blend (1)
+const TEXT_MATCH_WEIGHT = 0.5;
+
+const normalize = (scores: Map<MoodId, number>): MoodWeight[] => {
+  const total = Array.from(scores.values()).reduce((sum, score) => sum + score, 0);
+  return Array.from(scores.entries())
+    .map(([mood, score]) => ({ mood, weight: total ? score / total : 0 }))
+    .sort((a, b) => b.weight - a.weight);
+};
+
+export const MOOD_INTENSITY_LABELS: Record<MoodIntensity, string> = {
+  1: 'A little',
+  2: 'Quite',
+  3: 'Very',
+};
+
+// Picked moods as shares of a blend, in proportion to their intensities
+export const toMoodBlend = (selections: MoodSelection[]): MoodWeight[] => {
+  const total = selections.reduce((sum, { intensity }) => sum + intensity, 0);
+  return selections.map(({ mood, intensity }) => ({ mood, weight: intensity / total }));
+};
+
+// Reads free text as up to three registry moods, from what the inference engine makes of it
+// and from the moods of the recipes whose names, descriptions and tags are closest to it
+export const readCustomMood = async (text: string): Promise<CustomMoodReading> => {
+  await loadAllRecipes();
+  const inference = await moodInferenceEngine.infer(text);
+  const matches = searchRecipesRanked(text);
+
+  const scores = new Map<MoodId, number>();
+  const add = (mood: MoodId, score: number) => scores.set(mood, (scores.get(mood) || 0) + score);
+  inference.candidates.forEach(({ mood, probability }) => add(mood, probability));
+  const voters = matches.slice(0, VOTING_RECIPES);
+  const votes = voters.reduce((sum, { score }) => sum + score, 0);
+  const votesWeight = (RECIPE_VOTES_WEIGHT * voters.length) / VOTING_RECIPES;
+  voters.forEach(({ recipe, score }) => add(recipe.mood, (votesWeight * score) / votes));
+
+  const strongest = normalize(scores).filter(({ weight }) => weight >= MIN_BLEND_WEIGHT).slice(0, MAX_BLEND_MOODS);
+  const blend = normalize(new Map(strongest.map(({ mood, weight }) => [mood, weight])));
+  return { text, blend, textMatches: matches.length };
+};
+
+// Recipes for the blend (see getRecipesByMoodBlend), with recipes that mention the text
+// lifted above the rest
+export const blendRecipes = (blend: MoodWeight[], text = ''): BlendedRecipe[] => {
+  const results = new Map(getRecipesByMoodBlend(blend).map(result => [result.recipe.id, result]));
+
+  const matches = text.trim() ? searchRecipesRanked(text) : [];
+  const bestMatch = matches[0]?.score || 1;
+  matches.forEach(({ recipe, score }) => {
+    const result = results.get(recipe.id) || { recipe, score: 0, moods: [] };
+    result.score += (TEXT_MATCH_WEIGHT * score) / bestMatch;
+    results.set(recipe.id, result);
+  });
+
+  return Array.from(results.values()).sort((a, b) => b.score - a.score);
+};
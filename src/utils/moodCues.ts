@@ -0,0 +1,104 @@
+import { MoodCue } from '@/types/moodInference';
+import { stem, tokenize } from './recipeSearch';
+
+// Words, emoji and the punctuation that ends a negation ("not hungry, just tired")
+const TOKEN_PATTERN = /\p{Extended_Pictographic}|[\p{L}\p{N}'’]+|[,.;:!?]/gu;
+
+const NEGATORS = new Set(['not', 'no', 'never', 'nothing', 'without', 'hardly', 'barely', 'neither', 'nor', 'cannot']);
+
+// A negation covers the next few words, or less if the clause ends or moves on first
+const NEGATION_SCOPE = 4;
+const NEGATION_BREAKS = new Set(['and', 'just', 'only', 'rather', 'instead']);
+
+// How much a word turns up or down the word after it ("so tired", "a bit stressed")
+const INTENSIFIERS: Record<string, number> = {
+  so: 1.5,
+  very: 1.5,
+  really: 1.5,
+  super: 1.5,
+  totally: 1.5,
+  completely: 1.5,
+  absolutely: 1.5,
+  extremely: 2,
+  incredibly: 2,
+  bit: 0.5,
+  little: 0.5,
+  slightly: 0.5,
+  somewhat: 0.5,
+  mildly: 0.5,
+  kinda: 0.5,
+  kind: 0.5, // "kind of"
+  sort: 0.5, // "sort of"
+};
+
+// Skipped between an intensifier and the word it changes ("a bit of a", "kind of")
+const FILLERS = new Set(['a', 'an', 'of', 'the']);
+
+// What comes after these outweighs what came before: "I was tired but now I'm starving"
+const CONTRASTS = new Set(['but', 'though', 'although', 'however', 'yet', 'except']);
+const CONTRASTED_WEIGHT = 0.5;
+
+const isNegator = (token: string) => NEGATORS.has(token) || /n['’]t$/.test(token);
+
+// Splits text into weighted cues. A word's weight is negative when it is negated, scaled by
+// any intensifier before it, and halved for every "but" after it.
+export const readMoodCues = (text: string): MoodCue[] => {
+  const cues: MoodCue[] = [];
+  let negatedWords = 0;
+  let intensity = 1;
+  const contrastIndexes: number[] = [];
+
+  (text.toLowerCase().match(TOKEN_PATTERN) || []).forEach(token => {
+    if (/^[,.;:!?]$/.test(token)) {
+      negatedWords = 0;
+      intensity = 1;
+      return;
+    }
+    if (/\p{Extended_Pictographic}/u.test(token)) {
+      cues.push({ text: token, word: token, weight: intensity });
+      intensity = 1;
+      return;
+    }
+    if (NEGATION_BREAKS.has(token)) {
+      negatedWords = 0;
+    }
+    if (CONTRASTS.has(token)) {
+      negatedWords = 0;
+      contrastIndexes.push(cues.length);
+    }
+
+    const sign = negatedWords > 0 ? -1 : 1;
+    tokenize(token).forEach(word => cues.push({ text: token, word: stem(word), weight: sign * intensity }));
+    negatedWords = Math.max(negatedWords - 1, 0);
+
+    if (isNegator(token)) {
+      negatedWords = NEGATION_SCOPE;
+    }
+    if (INTENSIFIERS[token]) {
+      intensity *= INTENSIFIERS[token];
+    } else if (!FILLERS.has(token)) {
+      intensity = 1;
+    }
+  });
+
+  // Everything before a "but" counts for less, and less again before an earlier one
+  if (contrastIndexes.length) {
+    let passed = 0;
+    cues.forEach((cue, index) => {
+      while (passed < contrastIndexes.length && contrastIndexes[passed] <= index) {
+        passed++;
+      }
+      cue.weight *= CONTRASTED_WEIGHT ** (contrastIndexes.length - passed);
+    });
+  }
+  return cues;
+};
+
+// The text without its negations, for readers that can't tell "not happy" from "happy"
+export const toAffirmedText = (cues: MoodCue[]): string =>
+  cues
+    .filter(({ text, weight }) => weight > 0 && !isNegator(text))
+    // "don't" gives two cues but should only be written once
+    .filter((cue, index, affirmed) => cue.text !== affirmed[index - 1]?.text)
+    .map(({ text }) => text)
+    .join(' ');
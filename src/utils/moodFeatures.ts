@@ -0,0 +1,23 @@
+import { stem, tokenize } from './recipeSearch';
+
+// Where scripts/train-mood-model.ts writes the mood classifier, under public/
+export const MOOD_MODEL_PATH = 'models/mood-classifier/model.json';
+
+// What the mood classifier reads: stemmed words plus each pair of neighbours, so
+// "date night" and "not hungry" mean more than their parts
+export const toMoodFeatures = (text: string): string[] => {
+  const words = tokenize(text).map(stem);
+  return [...words, ...words.slice(1).map((word, index) => `${words[index]} ${word}`)];
+};
+
+// One input per vocabulary entry, 1 when the text has it; features outside the vocabulary are dropped
+export const encodeMoodFeatures = (features: string[], vocabulary: Map<string, number>): Float32Array => {
+  const input = new Float32Array(vocabulary.size);
+  features.forEach(feature => {
+    const index = vocabulary.get(feature);
+    if (index !== undefined) {
+      input[index] = 1;
+    }
+  });
+  return input;
+};
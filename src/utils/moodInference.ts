@@ -0,0 +1,247 @@
+// Reads moods from free text ("had a rough week, want something warm") for search, the chatbot,
+// mood input and the recipe importer. Each way of reading is a strategy; an engine asks all of
+// its strategies and weighs their answers into one ranked list of candidates.
+// scripts/evaluate-mood-inference.ts scores an engine against src/data/moods/moodTestCorpus.json.
+import { MoodId } from '@/types/recipe';
+import { MoodProbability } from '@/types/moodClassifier';
+import { MoodCue, MoodInference, MoodInferenceEngine, MoodInferenceStrategy } from '@/types/moodInference';
+import { MOOD_IDS, getMood } from '@/data/moods/moodRegistry';
+import { readMoodCues, toAffirmedText } from './moodCues';
+import { stem, tokenize } from './recipeSearch';
+import { classifyMood } from './tfMoodInfer';
+
+// Below this the engine is guessing, and no mood is better than a wrong one
+export const MIN_MOOD_PROBABILITY = 0.3;
+
+// Below this the engine has a favourite but the user should get to choose
+export const CONFIDENT_MOOD_PROBABILITY = 0.6;
+
+// How many candidates to offer when the engine isn't confident, and how unlikely they can be
+export const MAX_MOOD_CANDIDATES = 3;
+const MIN_CANDIDATE_PROBABILITY = 0.1;
+
+// Everyday words for each mood, beyond the names and aliases in the registry. Entries are one
+// or two words and are matched stemmed, so "celebrate" also finds "celebrating".
+const MOOD_KEYWORDS: Record<MoodId, string[]> = {
+  happy: ['happy', 'joy', 'great', 'awesome', 'wonderful', 'thrilled', 'delighted', 'smiling', 'feel good'],
+  sad: ['cry', 'depressed', 'miserable', 'heartbroken', 'lonely', 'gloomy', 'feeling down', 'bad news', 'feeling low'],
+  energetic: ['energy', 'workout', 'gym', 'boost', 'active', 'power', 'training'],
+  tired: ['fatigue', 'drained', 'no energy', 'wiped out', 'long day'],
+  stressed: ['stress', 'pressure', 'deadline', 'nervous', 'worried', 'panic'],
+  relaxed: ['relax', 'lazy', 'unwind', 'kick back', 'kicking back'],
+  hungry: ['starved', 'filling', 'growling', 'so hungry'],
+  nostalgic: ['memory', 'memories', 'old days', 'reminds me', 'like mom'],
+  adventurous: ['adventure', 'explore', 'challenge', 'try new', 'something new', 'never tried'],
+  festive: ['christmas', 'thanksgiving', 'halloween', 'holidays', 'new year'],
+  homesick: ['hometown', 'miss home', 'like home'],
+  romantic: ['romance', 'love', 'anniversary', 'valentine', 'partner', 'special dinner', 'first date'],
+  creative: ['experiment', 'invent', 'imaginative', 'unique', 'unusual'],
+  cozy: ['cosy', 'warm', 'blanket', 'fireplace', 'stay in'],
+  indulgent: ['indulge', 'treat', 'spoil'],
+  celebratory: ['celebrate', 'celebration', 'party', 'achievement', 'birthday', 'champagne', 'engaged'],
+  curious: ['wonder', 'learn', 'never heard'],
+  sophisticated: ['refined', 'impress', 'dinner party'],
+  'healthy-minded': ['diet', 'balanced', 'vegetables', 'wholesome', 'calories'],
+  'nostalgic-childhood': ['grandma', 'a kid', 'was little'],
+  wanderlust: ['travel', 'travelling', 'abroad', 'trip', 'the world'],
+  fusion: ['mashup', 'blend', 'two cuisines'],
+  traditional: ['traditional', 'old fashioned'],
+  'spice-lover': ['chilli', 'chili', 'peppers', 'hotter'],
+  'comfort-seeker': ['familiar', 'usual', 'old reliable'],
+  proud: ['proud', 'finally', 'won the', 'goal'],
+  mindful: ['meditation', 'intentional', 'gratitude', 'slow down'],
+  decadent: ['rich', 'richest', 'luxury', 'opulent'],
+  'nostalgic-travel': ['my trip', 'street food', 'backpacking'],
+  seasonal: ['season', 'spring', 'summer', 'autumn', 'harvest'],
+  social: ['friends', 'gathering', 'crowd', 'share', 'guests', 'potluck'],
+  comforting: ['comfort', 'hug', 'soup', 'ramen', 'heavy', 'feel better'],
+  inspired: ['inspiration', 'ambitious', 'showstopper'],
+  'time-pressed': ['quick', 'fast', 'hurry', 'no time'],
+  refreshed: ['refresh', 'fresh', 'cool', 'light', 'crisp', 'zesty', 'too hot'],
+  playful: ['goofy', 'kids', 'sprinkles'],
+  spicy: ['spicy', 'heat', 'kick'],
+  sweet: ['dessert', 'chocolate', 'cake', 'sugary'],
+  exotic: ['coconut', 'mango', 'island', 'tropics'],
+  focused: ['focus', 'study', 'exam', 'concentrate', 'brain food'],
+  calm: ['quiet', 'yoga', 'gentle'],
+};
+
+// Emoji people use for a mood, beyond each mood's own icon
+const MOOD_EMOJI: Partial<Record<MoodId, string[]>> = {
+  happy: ['😀', '😃', '😄', '😁', '🙂', '🤩', '☀️'],
+  sad: ['😭', '😞', '😔', '🙁', '☹️', '💔'],
+  tired: ['🥱', '😫', '😩', '💤'],
+  stressed: ['😬', '😟', '😖', '🤯'],
+  relaxed: ['😎', '🛀'],
+  hungry: ['🤤', '😋'],
+  romantic: ['🥰', '😍', '💕', '💘', '🌹'],
+  cozy: ['☕', '🕯️'],
+  celebratory: ['🥳', '🍾', '🎂'],
+  energetic: ['💪', '🏃'],
+  sweet: ['🍰', '🍩', '🧁'],
+  calm: ['🧘'],
+};
+
+// Stored without variation selectors, which readMoodCues drops
+const toEmojiKey = (emoji: string) => emoji.replace(/\uFE0F/g, '');
+
+interface MoodPhrase {
+  words: string[];
+  moods: MoodId[];
+}
+
+// Phrases are matched longest first, so "comfort food" doesn't also count as "comfort"
+const createPhraseScorer = (entries: { mood: MoodId; words: string[] }[]) => {
+  const phrases = new Map<string, MoodPhrase>();
+  entries.filter(({ words }) => words.length).forEach(({ mood, words }) => {
+    const phrase = phrases.get(words.join(' ')) || { words, moods: [] };
+    if (!phrase.moods.includes(mood)) {
+      phrase.moods.push(mood);
+    }
+    phrases.set(words.join(' '), phrase);
+  });
+  const byFirstWord = new Map<string, MoodPhrase[]>();
+  Array.from(phrases.values())
+    .sort((a, b) => b.words.length - a.words.length)
+    .forEach(phrase => byFirstWord.set(phrase.words[0], [...(byFirstWord.get(phrase.words[0]) || []), phrase]));
+
+  // A matched phrase scores its first word's weight for each of its words, so a pair ("no
+  // energy") outweighs one of its words and a negated phrase counts against its mood
+  return (cues: MoodCue[]): Map<MoodId, number> => {
+    const scores = new Map<MoodId, number>();
+    let index = 0;
+    while (index < cues.length) {
+      const match = (byFirstWord.get(cues[index].word) || [])
+        .find(({ words }) => words.every((word, offset) => cues[index + offset]?.word === word));
+      if (!match) {
+        index++;
+        continue;
+      }
+      match.moods.forEach(mood =>
+        scores.set(mood, (scores.get(mood) || 0) + cues[index].weight * match.words.length)
+      );
+      index += match.words.length;
+    }
+    return scores;
+  };
+};
+
+// Moods that scored above nothing, with their share of the total
+const toProbabilities = (scores: Map<MoodId, number>): MoodProbability[] => {
+  const found = Array.from(scores.entries()).filter(([, score]) => score > 0);
+  const total = found.reduce((sum, [, score]) => sum + score, 0);
+  return found
+    .map(([mood, score]) => ({ mood, probability: score / total }))
+    .sort((a, b) => b.probability - a.probability);
+};
+
+const createLexicalStrategy = (
+  name: string,
+  entries: { mood: MoodId; words: string[] }[]
+): MoodInferenceStrategy => {
+  const score = createPhraseScorer(entries);
+  return {
+    name,
+    weight: 1,
+    infer: async text => toProbabilities(score(readMoodCues(text))),
+    score: async text => score(readMoodCues(text)),
+  };
+};
+
+const toWords = (text: string) => tokenize(text).map(stem);
+
+// Moods the registry names outright ("so sleepy tonight" is Tired)
+export const registryStrategy = createLexicalStrategy(
+  'registry',
+  MOOD_IDS.flatMap(mood => {
+    const { name, aliases } = getMood(mood);
+    return [mood, name, ...aliases].map(text => ({ mood, words: toWords(text) }));
+  })
+);
+
+export const keywordStrategy = createLexicalStrategy(
+  'keywords',
+  MOOD_IDS.flatMap(mood => MOOD_KEYWORDS[mood].map(keyword => ({ mood, words: toWords(keyword) })))
+);
+
+export const emojiStrategy = createLexicalStrategy(
+  'emoji',
+  MOOD_IDS.flatMap(mood =>
+    [getMood(mood).icon, ...(MOOD_EMOJI[mood] || [])].map(emoji => ({ mood, words: [toEmojiKey(emoji)] }))
+  )
+);
+
+// The trained classifier, which only sees what wasn't negated. Its readings are spread over
+// every mood it knows, so it counts for less than the word lists. Scripts pass one that reads
+// the model from disk.
+export const createModelStrategy = (
+  classify: (text: string) => Promise<MoodProbability[]> = classifyMood
+): MoodInferenceStrategy => ({
+  name: 'model',
+  weight: 0.5,
+  infer: async text => {
+    const affirmed = toAffirmedText(readMoodCues(text));
+    return affirmed ? classify(affirmed) : [];
+  },
+});
+
+export const createMoodInferenceEngine = (strategies: MoodInferenceStrategy[]): MoodInferenceEngine => ({
+  strategies,
+  infer: async text => {
+    const readings = await Promise.all(
+      strategies.map(async strategy => {
+        const scores = strategy.score ? await strategy.score(text) : null;
+        return { strategy, scores, probabilities: scores ? toProbabilities(scores) : await strategy.infer(text) };
+      })
+    );
+    const answered = readings.filter(({ probabilities }) => probabilities.length);
+
+    // Strategies with cue scores are added up first and read as one: "a bit stressed but
+    // mostly hungry" is Hungry, even though "stressed" is both a mood name and a keyword
+    const scored = readings.filter(({ scores }) => scores);
+    const cueScores = new Map<MoodId, number>();
+    scored.forEach(({ strategy, scores }) => {
+      scores.forEach((score, mood) => cueScores.set(mood, (cueScores.get(mood) || 0) + score * strategy.weight));
+    });
+    const cueProbabilities = toProbabilities(cueScores);
+    const combinedReadings = [
+      ...(cueProbabilities.length ? [{ weight: Math.max(...scored.map(({ strategy }) => strategy.weight)), probabilities: cueProbabilities }] : []),
+      ...answered.filter(({ scores }) => !scores).map(({ strategy, probabilities }) => ({ weight: strategy.weight, probabilities })),
+    ];
+    // Shared over at least one full strategy's weight, so the model alone is never confident
+    const totalWeight = Math.max(combinedReadings.reduce((sum, { weight }) => sum + weight, 0), 1);
+
+    const combined = new Map<MoodId, number>();
+    combinedReadings.forEach(({ weight, probabilities }) => {
+      probabilities.forEach(({ mood, probability }) => {
+        combined.set(mood, (combined.get(mood) || 0) + (probability * weight) / totalWeight);
+      });
+    });
+    const candidates = Array.from(combined.entries())
+      .map(([mood, probability]) => ({ mood, probability }))
+      .sort((a, b) => b.probability - a.probability);
+
+    const [best] = candidates;
+    return {
+      mood: best && best.probability >= MIN_MOOD_PROBABILITY ? best.mood : null,
+      confident: !!best && best.probability >= CONFIDENT_MOOD_PROBABILITY,
+      candidates,
+      strategies: answered.map(({ strategy }) => strategy.name),
+    };
+  },
+});
+
+// The few candidates worth offering when the engine isn't confident enough to pick one
+export const getMoodCandidates = ({ candidates }: MoodInference): MoodProbability[] =>
+  candidates.filter(({ probability }) => probability >= MIN_CANDIDATE_PROBABILITY).slice(0, MAX_MOOD_CANDIDATES);
+
+// The engine the app uses everywhere a mood is read from text
+export const moodInferenceEngine = createMoodInferenceEngine([
+  registryStrategy,
+  keywordStrategy,
+  emojiStrategy,
+  createModelStrategy(),
+]);
+
+// The single most likely mood, if the engine is reasonably sure of it
+export const inferMood = async (text: string): Promise<MoodId | null> => (await moodInferenceEngine.infer(text)).mood;
@@ -0,0 +1,35 @@
+import { MoodIntensity, MoodSelection } from '@/types/moodBlend';
+import { isMoodId } from '@/data/moods/moodRegistry';
+
+export const MOOD_ROUTE = '/mood/:moodId';
+
+// Custom moods keep their typed text in the id, so it has to be encoded ("__custom-rainy%20sunday")
+export const toMoodPath = (moodId: string): string => `/mood/${encodeURIComponent(moodId)}`;
+
+export const DEFAULT_MOOD_INTENSITY: MoodIntensity = 2;
+
+const BLEND_SEPARATOR = '+';
+
+// Blends list each mood with its intensity: "/mood/tired:3+celebratory:1". A blend of one mood
+// is just that mood, as its intensity has nothing to be weighed against.
+export const toMoodBlendPath = (selections: MoodSelection[]): string =>
+  selections.length === 1
+    ? toMoodPath(selections[0].mood)
+    : `/mood/${selections.map(({ mood, intensity }) => `${mood}:${intensity}`).join(BLEND_SEPARATOR)}`;
+
+// The moods of a blend's id, or null when the id isn't a blend of known moods
+export const parseMoodBlend = (moodId: string): MoodSelection[] | null => {
+  const parts = moodId.split(BLEND_SEPARATOR);
+  if (parts.length < 2) {
+    return null;
+  }
+  const selections: MoodSelection[] = [];
+  for (const part of parts) {
+    const [mood, intensity = String(DEFAULT_MOOD_INTENSITY)] = part.split(':');
+    if (!isMoodId(mood) || !/^[123]$/.test(intensity) || selections.some(selection => selection.mood === mood)) {
+      return null;
+    }
+    selections.push({ mood, intensity: Number(intensity) as MoodIntensity });
+  }
+  return selections;
+};
@@ -1,13 +1,22 @@
 
 // Re-export the necessary types
-export type { Mood, Recipe } from '@/types/recipe';
-export { moods } from '@/data/moods/moodsList';
-export { recipesData } from '@/data/recipes/index';
+export type { Mood, MoodDefinition, MoodId, Recipe } from '@/types/recipe';
+export type { SimilarRecipe } from './recipeSimilarity';
+export { moods, moodRegistry, getMood, findMood, isMoodId, toRegistryMood } from '@/data/moods/moodRegistry';
+export { loadAllRecipes, loadMoodRecipes, RECIPE_CATALOG_EVENT } from '@/data/recipes/index';
 export {
   getAllRecipes,
   getRecipeById,
   getRecipesByMood,
+  getRecipesByTag,
+  getRecipesByIngredient,
   searchRecipes,
-  getSimilarRecipes
+  getSimilarRecipes,
+  getSimilarRecipesRanked,
+  hasRecipeId,
+  loadRecipeById,
+  loadRecipesByMood,
+  loadSearchResults,
+  loadSimilarRecipes
 } from './recipeOperations';
 export { getChatbotResponse } from './chatbotResponse';
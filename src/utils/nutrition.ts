@@ -0,0 +1,190 @@
+import { Recipe } from '@/types/recipe';
+import { IngredientUnit, ParsedIngredient } from '@/types/ingredient';
+import { Micronutrient, NutritionFacts, RecipeNutrition } from '@/types/nutrition';
+import { INGREDIENT_NUTRIENTS, IngredientNutrients } from '@/data/nutrition/ingredientNutrients';
+import { getParsedIngredients } from './ingredientParser';
+import { getWeightInGrams } from './unitConversion';
+
+export const MICRONUTRIENTS: Micronutrient[] = ['vitaminC', 'calcium', 'iron', 'potassium'];
+
+// FDA reference daily values for a 2,000 kcal diet
+export const DAILY_VALUES: Omit<NutritionFacts, 'calories' | 'micronutrients'> & Record<Micronutrient, number> = {
+  protein: 50,
+  carbs: 275,
+  fat: 78,
+  fiber: 28,
+  sugar: 50,
+  sodium: 2300,
+  vitaminC: 90,
+  calcium: 1300,
+  iron: 18,
+  potassium: 4700,
+};
+
+// Rough grams for units that are neither a weight nor a volume
+const UNIT_GRAMS: Partial<Record<IngredientUnit, number>> = {
+  pinch: 0.4,
+  dash: 0.6,
+  clove: 4,
+  slice: 30,
+  stalk: 40,
+  sprig: 1,
+  scoop: 30,
+  bottle: 750,
+  can: 400,
+  bunch: 100,
+  handful: 30,
+  stick: 113,
+  sheet: 20,
+};
+
+// Used for a bare count of something the table has no piece weight for
+const DEFAULT_PIECE_GRAMS = 50;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Longest key first so "peanut butter" beats "butter"; "egg" also matches "eggs"
+const NUTRIENT_MATCHERS = Object.keys(INGREDIENT_NUTRIENTS)
+  .sort((a, b) => b.length - a.length)
+  .map(key => ({ pattern: new RegExp(`\\b${escapeRegExp(key)}(?:e?s)?\\b`, 'i'), key }));
+
+export const findIngredientNutrients = (item: string): IngredientNutrients | null => {
+  const match = NUTRIENT_MATCHERS.find(({ pattern }) => pattern.test(item));
+  return match ? INGREDIENT_NUTRIENTS[match.key] : null;
+};
+
+// How many grams of the ingredient the recipe uses, or null if we can't tell
+const estimateGrams = (ingredient: ParsedIngredient, nutrients: IngredientNutrients): number | null => {
+  const { quantity, quantityMax, unit } = ingredient;
+  if (quantity === null) {
+    return unit && UNIT_GRAMS[unit] ? UNIT_GRAMS[unit] : nutrients.typicalGrams ?? nutrients.pieceGrams ?? null;
+  }
+
+  // Take the middle of ranges like "2-3 cloves"
+  const amount = quantityMax !== undefined ? (quantity + quantityMax) / 2 : quantity;
+  const measured = getWeightInGrams({ ...ingredient, quantity: amount });
+  if (measured !== null) {
+    return measured;
+  }
+  if (unit === null || unit === 'piece') {
+    return amount * (nutrients.pieceGrams ?? DEFAULT_PIECE_GRAMS);
+  }
+  return UNIT_GRAMS[unit] ? amount * UNIT_GRAMS[unit] : null;
+};
+
+const emptyFacts = (): NutritionFacts => ({
+  calories: 0,
+  protein: 0,
+  carbs: 0,
+  fat: 0,
+  fiber: 0,
+  sugar: 0,
+  sodium: 0,
+  micronutrients: { vitaminC: 0, calcium: 0, iron: 0, potassium: 0 },
+});
+
+const scaleFacts = (facts: NutritionFacts, factor: number): NutritionFacts => ({
+  calories: facts.calories * factor,
+  protein: facts.protein * factor,
+  carbs: facts.carbs * factor,
+  fat: facts.fat * factor,
+  fiber: facts.fiber * factor,
+  sugar: facts.sugar * factor,
+  sodium: facts.sodium * factor,
+  micronutrients: {
+    vitaminC: facts.micronutrients.vitaminC * factor,
+    calcium: facts.micronutrients.calcium * factor,
+    iron: facts.micronutrients.iron * factor,
+    potassium: facts.micronutrients.potassium * factor,
+  },
+});
+
+const addFacts = (total: NutritionFacts, facts: NutritionFacts): NutritionFacts => ({
+  calories: total.calories + facts.calories,
+  protein: total.protein + facts.protein,
+  carbs: total.carbs + facts.carbs,
+  fat: total.fat + facts.fat,
+  fiber: total.fiber + facts.fiber,
+  sugar: total.sugar + facts.sugar,
+  sodium: total.sodium + facts.sodium,
+  micronutrients: {
+    vitaminC: total.micronutrients.vitaminC + facts.micronutrients.vitaminC,
+    calcium: total.micronutrients.calcium + facts.micronutrients.calcium,
+    iron: total.micronutrients.iron + facts.micronutrients.iron,
+    potassium: total.micronutrients.potassium + facts.micronutrients.potassium,
+  },
+});
+
+// Whole grams for macros, whole milligrams for minerals, one decimal for iron
+const roundFacts = (facts: NutritionFacts): NutritionFacts => ({
+  calories: Math.round(facts.calories),
+  protein: Math.round(facts.protein),
+  carbs: Math.round(facts.carbs),
+  fat: Math.round(facts.fat),
+  fiber: Math.round(facts.fiber),
+  sugar: Math.round(facts.sugar),
+  sodium: Math.round(facts.sodium),
+  micronutrients: {
+    vitaminC: Math.round(facts.micronutrients.vitaminC),
+    calcium: Math.round(facts.micronutrients.calcium),
+    iron: Math.round(facts.micronutrients.iron * 10) / 10,
+    potassium: Math.round(facts.micronutrients.potassium),
+  },
+});
+
+// The stated calories may be off from our estimate by portion size, but not by more than this
+const MAX_CALIBRATION = 4;
+
+const nutritionByRecipe = new WeakMap<Recipe, RecipeNutrition>();
+
+// Per-serving nutrition for a recipe: the hand-entered facts when present, otherwise an
+// estimate from the bundled ingredient table, scaled to agree with the recipe's calories.
+// Facts that only give some values (imported recipes) have the rest estimated.
+export const getRecipeNutrition = (recipe: Recipe): RecipeNutrition => {
+  const cached = nutritionByRecipe.get(recipe);
+  if (cached) {
+    return cached;
+  }
+
+  const stated = recipe.nutrition;
+  if (stated && (Object.keys(emptyFacts()) as (keyof NutritionFacts)[]).every(key => stated[key] !== undefined)) {
+    const handEntered: RecipeNutrition = { facts: stated as NutritionFacts, source: 'hand-entered', coverage: 1, unmatched: [] };
+    nutritionByRecipe.set(recipe, handEntered);
+    return handEntered;
+  }
+
+  const ingredients = getParsedIngredients(recipe);
+  const unmatched: string[] = [];
+  let total = emptyFacts();
+
+  ingredients.forEach(ingredient => {
+    const nutrients = findIngredientNutrients(ingredient.item);
+    const grams = nutrients ? estimateGrams(ingredient, nutrients) : null;
+    if (grams === null) {
+      unmatched.push(ingredient.original);
+      return;
+    }
+    total = addFacts(total, scaleFacts(nutrients.per100g, grams / 100));
+  });
+
+  let perServing = scaleFacts(total, 1 / Math.max(recipe.servings, 1));
+  if (recipe.calories > 0 && perServing.calories > 0) {
+    const factor = recipe.calories / perServing.calories;
+    if (factor <= MAX_CALIBRATION && factor >= 1 / MAX_CALIBRATION) {
+      perServing = scaleFacts(perServing, factor);
+    }
+  }
+
+  const nutrition: RecipeNutrition = {
+    facts: { ...roundFacts(perServing), ...stated },
+    source: stated ? 'partly-estimated' : 'estimated',
+    coverage: ingredients.length ? (ingredients.length - unmatched.length) / ingredients.length : 0,
+    unmatched,
+  };
+  nutritionByRecipe.set(recipe, nutrition);
+  return nutrition;
+};
+
+// Percent of the daily value; calories have none
+export const getDailyValuePercent = (nutrient: keyof typeof DAILY_VALUES, amount: number): number =>
+  Math.round((amount / DAILY_VALUES[nutrient]) * 100);
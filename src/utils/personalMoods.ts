@@ -0,0 +1,87 @@
+import { Mood, MoodId } from '@/types/recipe';
+import { createCustomMood, getMood, isMoodId } from '@/data/moods/moodRegistry';
+
+const STORAGE_KEY = 'customMoodUses';
+export const PERSONAL_MOODS_EVENT = 'personal-moods-change';
+
+// A custom mood typed this many times becomes one of the user's own moods
+const PERSONAL_MOOD_USES = 2;
+const MAX_PERSONAL_MOODS = 6;
+
+// Older custom moods are forgotten past this many
+const MAX_STORED_MOODS = 50;
+
+interface CustomMoodUse {
+  text: string;
+  uses: number;
+  lastUsed: number;
+  moods: MoodId[]; // What the text was last read as, strongest first
+}
+
+const toKey = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const getCustomMoodUses = (): CustomMoodUse[] => {
+  if (typeof localStorage === 'undefined') {
+    return [];
+  }
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored)
+      ? stored
+          .filter((use): use is CustomMoodUse => typeof use?.text === 'string' && typeof use?.uses === 'number')
+          .map(use => ({ ...use, moods: Array.isArray(use.moods) ? use.moods.filter(isMoodId) : [] }))
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeCustomMoodUses = (uses: CustomMoodUse[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(uses));
+  } catch {
+    // Storage is full or blocked; picking the mood still works, it just isn't remembered
+    return;
+  }
+  window.dispatchEvent(new Event(PERSONAL_MOODS_EVENT));
+};
+
+// Counted each time the user picks a custom mood; the latest spelling is kept
+export const recordCustomMoodUse = (text: string) => {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return;
+  }
+  const uses = getCustomMoodUses();
+  const existing = uses.find(use => toKey(use.text) === toKey(trimmed));
+  const others = uses.filter(use => use !== existing);
+  writeCustomMoodUses([
+    { text: trimmed, uses: (existing?.uses || 0) + 1, lastUsed: Date.now(), moods: existing?.moods || [] },
+    ...others,
+  ].slice(0, MAX_STORED_MOODS));
+};
+
+// Remembers what a custom mood was read as, so its personal mood can say so
+export const saveCustomMoodReading = (text: string, moods: MoodId[]) => {
+  const uses = getCustomMoodUses();
+  const existing = uses.find(use => toKey(use.text) === toKey(text));
+  if (existing && existing.moods.join() !== moods.join()) {
+    writeCustomMoodUses(uses.map(use => (use === existing ? { ...use, moods } : use)));
+  }
+};
+
+export const forgetPersonalMood = (moodId: string) => {
+  writeCustomMoodUses(getCustomMoodUses().filter(use => createCustomMood(use.text).id !== moodId));
+};
+
+// Custom moods the user keeps coming back to, most recently used first
+export const getPersonalMoods = (): Mood[] =>
+  getCustomMoodUses()
+    .filter(({ uses }) => uses >= PERSONAL_MOOD_USES)
+    .sort((a, b) => b.lastUsed - a.lastUsed)
+    .slice(0, MAX_PERSONAL_MOODS)
+    .map(({ text, moods }) => ({
+      ...createCustomMood(text),
+      icon: moods.length ? getMood(moods[0]).icon : '🙂',
+      description: moods.length ? `Your mood: ${moods.map(mood => getMood(mood).name).join(' + ')}` : 'Your mood',
+    }));
@@ -0,0 +1,40 @@
+const STORAGE_KEY = 'recentSearches';
+export const RECENT_SEARCHES_EVENT = 'recent-searches-change';
+
+const MAX_RECENT_SEARCHES = 8;
+
+// Searches run from this browser, newest first
+export const getRecentSearches = (): string[] => {
+  if (typeof localStorage === 'undefined') {
+    return [];
+  }
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter((query): query is string => typeof query === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeRecentSearches = (queries: string[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(queries));
+  window.dispatchEvent(new Event(RECENT_SEARCHES_EVENT));
+};
+
+// Running a search again moves it back to the top rather than listing it twice
+export const addRecentSearch = (query: string) => {
+  const trimmed = query.trim();
+  if (!trimmed) {
+    return;
+  }
+  const others = getRecentSearches().filter(existing => existing.toLowerCase() !== trimmed.toLowerCase());
+  writeRecentSearches([trimmed, ...others].slice(0, MAX_RECENT_SEARCHES));
+};
+
+export const removeRecentSearch = (query: string) => {
+  writeRecentSearches(getRecentSearches().filter(existing => existing !== query));
+};
+
+export const clearRecentSearches = () => {
+  writeRecentSearches([]);
+};
@@ -0,0 +1,164 @@
+import { Recipe, MoodId } from '@/types/recipe';
+import { Diet } from '@/types/dietary';
+import { FacetFilters, FacetOption, RecipeFacets } from '@/types/facets';
+import { getMood, isMoodId } from '@/data/moods/moodRegistry';
+import { DIET_LABELS, getDietaryProfile } from './dietaryClassifier';
+import { getRecipeTiming } from './durations';
+import { DIFFICULTIES } from './recipeSchema';
+
+export const TIME_FACET_OPTIONS = [15, 30, 45, 60];
+
+export const EMPTY_FACET_FILTERS: FacetFilters = {
+  difficulties: [],
+  maxTotalMinutes: null,
+  calories: null,
+  tags: [],
+  diets: [],
+  moods: [],
+};
+
+type FacetKey = keyof FacetFilters;
+
+const FACET_KEYS = Object.keys(EMPTY_FACET_FILTERS) as FacetKey[];
+const DIETS = Object.keys(DIET_LABELS) as Diet[];
+
+// Query string names: ?difficulty=Easy,Medium&time=30&calories=200-600&tag=spicy&diet=vegan&mood=cozy
+const PARAM_NAMES: Record<FacetKey, string> = {
+  difficulties: 'difficulty',
+  maxTotalMinutes: 'time',
+  calories: 'calories',
+  tags: 'tag',
+  diets: 'diet',
+  moods: 'mood',
+};
+
+const normalizeTag = (tag: string) => tag.trim().toLowerCase();
+
+const hasFacet = (filters: FacetFilters, key: FacetKey) => {
+  const value = filters[key];
+  return Array.isArray(value) ? value.length > 0 : value !== null;
+};
+
+// Which filters a recipe fails, so counts can be worked out in one pass over the results
+const failedFacets = (recipe: Recipe, filters: FacetFilters): FacetKey[] => {
+  const tags = recipe.tags.map(normalizeTag);
+  const checks: Record<FacetKey, () => boolean> = {
+    difficulties: () => filters.difficulties.includes(recipe.difficulty),
+    maxTotalMinutes: () => getRecipeTiming(recipe).totalMinutes <= filters.maxTotalMinutes,
+    calories: () => recipe.calories >= filters.calories[0] && recipe.calories <= filters.calories[1],
+    tags: () => filters.tags.every(tag => tags.includes(tag)),
+    diets: () => filters.diets.every(diet => getDietaryProfile(recipe).diets.includes(diet)),
+    moods: () => filters.moods.includes(recipe.mood),
+  };
+  return FACET_KEYS.filter(key => hasFacet(filters, key) && !checks[key]());
+};
+
+export const hasActiveFacets = (filters: FacetFilters) => FACET_KEYS.some(key => hasFacet(filters, key));
+
+export const filterByFacets = (recipes: Recipe[], filters: FacetFilters): Recipe[] =>
+  hasActiveFacets(filters) ? recipes.filter(recipe => failedFacets(recipe, filters).length === 0) : recipes;
+
+// Facet options over the mood or search results. "Any of" facets (difficulty, time, mood)
+// count recipes that pass every other facet, so picking a second value shows what it adds;
+// "all of" facets (tags, diets) count recipes that pass everything.
+export const getRecipeFacets = (recipes: Recipe[], filters: FacetFilters): RecipeFacets => {
+  const difficulties = new Map<string, number>(DIFFICULTIES.map(difficulty => [difficulty, 0]));
+  const times = new Map<number, number>(TIME_FACET_OPTIONS.map(minutes => [minutes, 0]));
+  const tags = new Map<string, { label: string; count: number }>();
+  const diets = new Map<Diet, number>(DIETS.map(diet => [diet, 0]));
+  const moods = new Map<MoodId, number>();
+  const increment = <T>(counts: Map<T, number>, key: T) => counts.set(key, (counts.get(key) || 0) + 1);
+  let minCalories = Infinity;
+  let maxCalories = -Infinity;
+
+  recipes.forEach(recipe => {
+    minCalories = Math.min(minCalories, recipe.calories);
+    maxCalories = Math.max(maxCalories, recipe.calories);
+    recipe.tags.forEach(tag => {
+      // Every tag gets listed, even ones no recipe passing the filters has
+      const key = normalizeTag(tag);
+      if (!tags.has(key)) {
+        tags.set(key, { label: tag, count: 0 });
+      }
+    });
+    if (!moods.has(recipe.mood)) {
+      moods.set(recipe.mood, 0);
+    }
+
+    const failed = failedFacets(recipe, filters);
+    const passesAllBut = (key: FacetKey) => failed.length === 0 || (failed.length === 1 && failed[0] === key);
+
+    if (passesAllBut('difficulties')) {
+      increment(difficulties, recipe.difficulty);
+    }
+    if (passesAllBut('moods')) {
+      increment(moods, recipe.mood);
+    }
+    if (passesAllBut('maxTotalMinutes')) {
+      const { totalMinutes } = getRecipeTiming(recipe);
+      TIME_FACET_OPTIONS.filter(minutes => totalMinutes <= minutes).forEach(minutes => increment(times, minutes));
+    }
+    if (failed.length === 0) {
+      new Set(recipe.tags.map(normalizeTag)).forEach(tag => tags.get(tag).count++);
+      getDietaryProfile(recipe).diets.forEach(diet => increment(diets, diet));
+    }
+  });
+
+  const toOptions = <T>(counts: Map<T, number>, selected: T[], label: (value: T) => string): FacetOption<T>[] =>
+    Array.from(counts.entries()).map(([value, count]) => ({ value, label: label(value), count, selected: selected.includes(value) }));
+
+  return {
+    difficulties: toOptions(difficulties, filters.difficulties, difficulty => difficulty),
+    times: toOptions(times, filters.maxTotalMinutes === null ? [] : [filters.maxTotalMinutes], minutes => `≤ ${minutes} min`),
+    calories: recipes.length ? { min: minCalories, max: maxCalories } : null,
+    // Most common first
+    tags: Array.from(tags.entries())
+      .map(([value, { label, count }]) => ({ value, label, count, selected: filters.tags.includes(value) }))
+      .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label)),
+    diets: toOptions(diets, filters.diets, diet => DIET_LABELS[diet]),
+    moods: toOptions(moods, filters.moods, mood => `${getMood(mood).icon} ${getMood(mood).name}`)
+      .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label)),
+  };
+};
+
+export const toggleFacetValue = <T>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter(item => item !== value) : [...values, value];
+
+const readList = (params: URLSearchParams, key: FacetKey) =>
+  (params.get(PARAM_NAMES[key]) || '').split(',').map(value => value.trim()).filter(Boolean);
+
+// Reads facets from the query string, dropping anything that isn't a valid value
+export const parseFacetParams = (params: URLSearchParams): FacetFilters => {
+  const minutes = Number(params.get(PARAM_NAMES.maxTotalMinutes));
+  const [, low, high] = (params.get(PARAM_NAMES.calories) || '').match(/^(\d+)-(\d+)$/) || [];
+
+  return {
+    difficulties: readList(params, 'difficulties')
+      .map(value => DIFFICULTIES.find(difficulty => difficulty.toLowerCase() === value.toLowerCase()))
+      .filter(Boolean),
+    maxTotalMinutes: minutes > 0 ? minutes : null,
+    calories: low && Number(low) <= Number(high) ? [Number(low), Number(high)] : null,
+    tags: Array.from(new Set(readList(params, 'tags').map(normalizeTag))),
+    diets: readList(params, 'diets').filter((value): value is Diet => (DIETS as string[]).includes(value)),
+    moods: readList(params, 'moods').filter(isMoodId),
+  };
+};
+
+// Writes facets into a copy of the query string, leaving other parameters alone
+export const toFacetParams = (filters: FacetFilters, params: URLSearchParams): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  FACET_KEYS.forEach(key => {
+    const value = filters[key];
+    const text = !hasFacet(filters, key)
+      ? null
+      : key === 'calories'
+        ? filters.calories.join('-')
+        : Array.isArray(value) ? value.join(',') : String(value);
+    if (text === null) {
+      next.delete(PARAM_NAMES[key]);
+    } else {
+      next.set(PARAM_NAMES[key], text);
+    }
+  });
+  return next;
+};
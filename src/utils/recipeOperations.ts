@@ -1,53 +1,98 @@
+import { MoodId, Recipe } from '@/types/recipe';
+import { SearchSuggestion } from '@/types/search';
+import { BlendedRecipe, MoodWeight } from '@/types/moodBlend';
+import { CATALOG_MOODS, getCatalogMood, getLoadedCatalog, loadAllRecipes, loadMoodRecipes } from '@/data/recipes/index';
+import { getMood } from '@/data/moods/moodRegistry';
+import { getImportedRecipes } from './importedRecipes';
+import { createRecipeRepository, RecipeRepository } from './recipeRepository';
+import { RecipeSearchResult } from './recipeSearch';
+import { SimilarRecipe } from './recipeSimilarity';
+import { parseSearchQuery, runSearchQuery } from './searchQuery';
+import { suggestSearches } from './searchSuggestions';
 
-import { Recipe } from '@/types/recipe';
-import { recipesData } from '@/data/recipes/index';
-
-export const getAllRecipes = (): Recipe[] => {
-  const allRecipes: Recipe[] = [];
-  
-  // Fix the iterator issue by making sure we're iterating over an array
-  Object.values(recipesData).forEach(categoryRecipes => {
-    if (Array.isArray(categoryRecipes)) {
-      allRecipes.push(...categoryRecipes);
-    }
-  });
-  
-  return allRecipes;
+let repository: RecipeRepository | null = null;
+let repositorySources: { catalog: ReturnType<typeof getLoadedCatalog>; imported: Recipe[] } | null = null;
+
+// Rebuilt only when another mood file arrives or the imported recipes change; both
+// sources hand back the same object until then.
+export const getRecipeRepository = (): RecipeRepository => {
+  const catalog = getLoadedCatalog();
+  const imported = getImportedRecipes();
+  if (!repository || repositorySources.catalog !== catalog || repositorySources.imported !== imported) {
+    // Recipes imported in this browser sit alongside the built-in catalog
+    repository = createRecipeRepository([...CATALOG_MOODS.flatMap(mood => catalog[mood] || []), ...imported]);
+    repositorySources = { catalog, imported };
+  }
+  return repository;
 };
 
-export const getRecipeById = (id: string): Recipe | null => {
-  const allRecipes = getAllRecipes();
-  return allRecipes.find(recipe => recipe.id === id) || null;
+// The functions below only see catalog moods that have already been fetched; the load*
+// functions fetch what they need first. Returned arrays are shared, so copy before sorting.
+export const getAllRecipes = (): Recipe[] => getRecipeRepository().recipes;
+
+export const getRecipeById = (id: string): Recipe | null => getRecipeRepository().getById(id);
+
+export const getRecipesByMood = (moodId: MoodId): Recipe[] => getRecipeRepository().getByMood(moodId);
+
+// Recipes that suit any mood of the blend, each with the moods it suits; those that suit
+// more of the blend, and its stronger moods, come first
+export const getRecipesByMoodBlend = (blend: MoodWeight[]): BlendedRecipe[] =>
+  getRecipeRepository().getByMoodBlend(blend);
+
+export const getRecipesByTag = (tag: string): Recipe[] => getRecipeRepository().getByTag(tag);
+
+export const getRecipesByIngredient = (item: string): Recipe[] => getRecipeRepository().getByIngredient(item);
+
+// Understands filters such as "tag:spicy time:<30 -ingredient:peanut" (see searchQuery);
+// free text comes back best match first, scored as described in recipeSearch
+export const searchRecipes = (query: string): Recipe[] =>
+  runSearchQuery(getRecipeRepository(), parseSearchQuery(query));
+
+// Recipe names, ingredients, tags and moods starting with what has been typed so far
+export const getSearchSuggestions = (query: string): SearchSuggestion[] => suggestSearches(getRecipeRepository().recipes, query);
+
+export const searchRecipesRanked = (query: string): RecipeSearchResult[] => getRecipeRepository().searchRanked(query);
+
+export const getSimilarRecipes = (recipeId: string, limit: number = 3): Recipe[] =>
+  getRecipeRepository().getSimilar(recipeId, limit);
+
+// With the reasons each one is similar, strongest first
+export const getSimilarRecipesRanked = (recipeId: string, limit: number = 3): SimilarRecipe[] =>
+  getRecipeRepository().getSimilarRanked(recipeId, limit);
+
+// True for ids used by the catalog (fetched or not) or by an imported recipe
+export const hasRecipeId = (id: string): boolean => Boolean(getCatalogMood(id) || getRecipeById(id));
+
+export const loadRecipeById = async (id: string): Promise<Recipe | null> => {
+  const mood = getCatalogMood(id);
+  if (mood) {
+    await loadMoodRecipes(mood);
+  }
+  return getRecipeById(id);
 };
 
-export const getRecipesByMood = (moodId: string): Recipe[] => {
-  return getAllRecipes().filter(recipe => recipe.mood === moodId);
+export const loadRecipesByMood = async (moodId: MoodId): Promise<Recipe[]> => {
+  // Time-based moods draw on every mood file
+  if (getMood(moodId).maxTotalMinutes !== undefined) {
+    await loadAllRecipes();
+  } else {
+    await loadMoodRecipes(moodId);
+  }
+  return getRecipesByMood(moodId);
 };
 
-export const searchRecipes = (query: string): Recipe[] => {
-  const searchTerm = query.toLowerCase();
-  return getAllRecipes().filter(recipe => 
-    recipe.name.toLowerCase().includes(searchTerm) ||
-    recipe.description.toLowerCase().includes(searchTerm) ||
-    recipe.ingredients.some(ingredient => ingredient.toLowerCase().includes(searchTerm)) ||
-    recipe.tags.some(tag => tag.toLowerCase().includes(searchTerm))
-  );
+// Recipes are tagged with moods across every mood file
+export const loadRecipesByMoodBlend = async (blend: MoodWeight[]): Promise<BlendedRecipe[]> => {
+  await loadAllRecipes();
+  return getRecipesByMoodBlend(blend);
 };
 
-export const getSimilarRecipes = (recipeId: string, limit: number = 3): Recipe[] => {
-  const targetRecipe = getRecipeById(recipeId);
-  
-  if (!targetRecipe) {
-    return [];
-  }
-  
-  const allRecipes = getAllRecipes().filter(recipe => recipe.id !== recipeId);
-  
-  return allRecipes
-    .sort((a, b) => {
-      const aTagMatches = a.tags.filter(tag => targetRecipe.tags.includes(tag)).length;
-      const bTagMatches = b.tags.filter(tag => targetRecipe.tags.includes(tag)).length;
-      return bTagMatches - aTagMatches;
-    })
-    .slice(0, limit);
+export const loadSearchResults = async (query: string): Promise<Recipe[]> => {
+  await loadAllRecipes();
+  return searchRecipes(query);
+};
+
+export const loadSimilarRecipes = async (recipeId: string, limit: number = 3): Promise<SimilarRecipe[]> => {
+  await loadAllRecipes();
+  return getSimilarRecipesRanked(recipeId, limit);
 };
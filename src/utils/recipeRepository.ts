@@ -0,0 +1,154 @@
+import { MoodId, Recipe } from '@/types/recipe';
+import { BlendedRecipe, MoodWeight } from '@/types/moodBlend';
+import { findMood, getMood } from '@/data/moods/moodRegistry';
+import { getRecipeTiming } from './durations';
+import { getParsedIngredients } from './ingredientParser';
+import { createSearchIndex, RecipeSearchIndex, RecipeSearchResult } from './recipeSearch';
+import { createSimilarityIndex, RecipeSimilarityIndex, SimilarRecipe } from './recipeSimilarity';
+
+// Lookups over a fixed list of recipes, indexed once up front. Results keep the list's
+// order and are shared between calls, so copy them before sorting or editing.
+export interface RecipeRepository {
+  recipes: Recipe[];
+  getById: (id: string) => Recipe | null;
+  getByMood: (moodId: MoodId) => Recipe[];
+  getByMoodBlend: (blend: MoodWeight[]) => BlendedRecipe[]; // Best fit first; a new list each call
+  getByTag: (tag: string) => Recipe[];
+  getByIngredient: (item: string) => Recipe[]; // Parsed item name, e.g. "brown sugar"
+  search: (query: string) => Recipe[]; // Best match first
+  searchRanked: (query: string) => RecipeSearchResult[];
+  getSimilar: (recipeId: string, limit?: number) => Recipe[]; // Most similar first
+  getSimilarRanked: (recipeId: string, limit?: number) => SimilarRecipe[];
+}
+
+const SEARCH_CACHE_SIZE = 50;
+
+// How much a recipe tagged with a mood ("cozy", "comfort food") suits it, next to one filed
+// under the mood (1)
+const TAGGED_MOOD_FIT = 0.5;
+
+const normalizeKey = (text: string) => text.trim().toLowerCase();
+
+const addToIndex = <T>(index: Map<string, T[]>, key: string, value: T) => {
+  const list = index.get(key);
+  if (list) {
+    list.push(value);
+  } else {
+    index.set(key, [value]);
+  }
+};
+
+export const createRecipeRepository = (recipes: Recipe[]): RecipeRepository => {
+  const byId = new Map<string, Recipe>();
+  const byMood = new Map<string, Recipe[]>();
+  const byTag = new Map<string, Recipe[]>();
+  const byIngredient = new Map<string, Recipe[]>();
+  const byTaggedMood = new Map<string, Recipe[]>();
+
+  recipes.forEach(recipe => {
+    // The first recipe with an id wins, as with a linear find
+    if (!byId.has(recipe.id)) {
+      byId.set(recipe.id, recipe);
+    }
+    addToIndex(byMood, recipe.mood, recipe);
+    new Set(recipe.tags.map(normalizeKey)).forEach(tag => addToIndex(byTag, tag, recipe));
+    new Set(recipe.tags.map(tag => findMood(tag)?.id).filter((mood): mood is MoodId => !!mood && mood !== recipe.mood))
+      .forEach(mood => addToIndex(byTaggedMood, mood, recipe));
+    new Set(getParsedIngredients(recipe).map(ingredient => normalizeKey(ingredient.item)))
+      .forEach(item => addToIndex(byIngredient, item, recipe));
+  });
+
+  // Fastest first; only needed by time-based moods, so sorted on first use
+  let byTotalMinutes: Recipe[] | null = null;
+  const getByTotalMinutes = () => {
+    byTotalMinutes = byTotalMinutes || [...recipes].sort((a, b) => getRecipeTiming(a).totalMinutes - getRecipeTiming(b).totalMinutes);
+    return byTotalMinutes;
+  };
+
+  const moodResults = new Map<MoodId, Recipe[]>();
+  const getByMood = (moodId: MoodId): Recipe[] => {
+    const cached = moodResults.get(moodId);
+    if (cached) {
+      return cached;
+    }
+
+    const tagged = byMood.get(moodId) || [];
+    const { maxTotalMinutes } = getMood(moodId);
+    let result = tagged;
+
+    // Time-based moods also pick up any recipe that is quick enough, fastest first
+    if (maxTotalMinutes !== undefined) {
+      const quick: Recipe[] = [];
+      for (const recipe of getByTotalMinutes()) {
+        if (getRecipeTiming(recipe).totalMinutes > maxTotalMinutes) break;
+        if (recipe.mood !== moodId) quick.push(recipe);
+      }
+      result = [...tagged, ...quick];
+    }
+
+    moodResults.set(moodId, result);
+    return result;
+  };
+
+  // Each recipe scores the weight of every blend mood it suits, scaled by how well it suits
+  // it, so a recipe for both Tired and Celebratory beats one for either
+  const getByMoodBlend = (blend: MoodWeight[]): BlendedRecipe[] => {
+    const results = new Map<string, BlendedRecipe>();
+    const addFit = (recipe: Recipe, mood: MoodId, score: number) => {
+      const result = results.get(recipe.id) || { recipe, score: 0, moods: [] };
+      result.score += score;
+      result.moods.push(mood);
+      results.set(recipe.id, result);
+    };
+
+    blend.forEach(({ mood, weight }) => {
+      const suited = getByMood(mood);
+      suited.forEach(recipe => addFit(recipe, mood, weight));
+      const filed = new Set(suited);
+      (byTaggedMood.get(mood) || [])
+        .filter(recipe => !filed.has(recipe))
+        .forEach(recipe => addFit(recipe, mood, weight * TAGGED_MOOD_FIT));
+    });
+    return Array.from(results.values()).sort((a, b) => b.score - a.score);
+  };
+
+  // Built on the first search, as most page views never search
+  let searchIndex: RecipeSearchIndex | null = null;
+  const searchResults = new Map<string, { ranked: RecipeSearchResult[]; recipes: Recipe[] }>();
+  const runSearch = (query: string) => {
+    const key = query.trim().toLowerCase();
+    const cached = searchResults.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    searchIndex = searchIndex || createSearchIndex(recipes);
+    const ranked = searchIndex.search(key);
+    const result = { ranked, recipes: ranked.map(({ recipe }) => recipe) };
+    if (searchResults.size >= SEARCH_CACHE_SIZE) {
+      searchResults.delete(searchResults.keys().next().value);
+    }
+    searchResults.set(key, result);
+    return result;
+  };
+
+  // Nearest neighbours are worked out for every recipe at once, on first use
+  let similarityIndex: RecipeSimilarityIndex | null = null;
+  const getSimilarRanked = (recipeId: string, limit: number = 3): SimilarRecipe[] => {
+    similarityIndex = similarityIndex || createSimilarityIndex(recipes);
+    return similarityIndex.getSimilar(recipeId, limit);
+  };
+
+  return {
+    recipes,
+    getById: id => byId.get(id) || null,
+    getByMood,
+    getByMoodBlend,
+    getByTag: tag => byTag.get(normalizeKey(tag)) || [],
+    getByIngredient: item => byIngredient.get(normalizeKey(item)) || [],
+    search: query => runSearch(query).recipes,
+    searchRanked: query => runSearch(query).ranked,
+    getSimilar: (recipeId, limit) => getSimilarRanked(recipeId, limit).map(({ recipe }) => recipe),
+    getSimilarRanked,
+  };
+};
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { parseDuration } from './durations';
+
+const durationSchema = z.string().refine(
+  value => parseDuration(value) !== null,
+  'Expected a duration like "15 mins", "1 hour 30 mins" or "overnight"'
+);
+
+export const DIFFICULTIES = ['Easy', 'Medium', 'Hard'] as const;
+
+export const moodSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  icon: z.string().min(1),
+  description: z.string(),
+});
+
+const nutritionSchema = z.object({
+  calories: z.number().nonnegative(),
+  protein: z.number().nonnegative(),
+  carbs: z.number().nonnegative(),
+  fat: z.number().nonnegative(),
+  fiber: z.number().nonnegative(),
+  sugar: z.number().nonnegative(),
+  sodium: z.number().nonnegative(),
+  micronutrients: z.object({
+    vitaminC: z.number().nonnegative(),
+    calcium: z.number().nonnegative(),
+    iron: z.number().nonnegative(),
+    potassium: z.number().nonnegative(),
+  }),
+});
+
+// Runtime mirror of the Recipe interface in '@/types/recipe'
+export const recipeSchema = z.object({
+  id: z.string().min(1).regex(/^[a-z0-9-]+$/, 'Recipe ids must be lowercase kebab-case'),
+  name: z.string().min(1),
+  description: z.string().min(1),
+  ingredients: z.array(z.string().min(1)).min(1),
+  instructions: z.array(z.string().min(1)).min(1),
+  prepTime: durationSchema,
+  cookTime: durationSchema,
+  servings: z.number().int().positive(),
+  calories: z.number().nonnegative(),
+  tags: z.array(z.string().min(1)),
+  difficulty: z.enum(DIFFICULTIES),
+  mood: z.string().min(1),
+  aiSuggestion: z.string().optional(),
+  nutritionAnalysis: z.string().optional(),
+  nutrition: nutritionSchema.partial().optional(),
+  cookingTips: z.array(z.string()).optional(),
+  image: z.string().url().optional(),
+});
+
+export type RecipeInput = z.infer<typeof recipeSchema>;
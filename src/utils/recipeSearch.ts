@@ -0,0 +1,227 @@
+import { Recipe } from '@/types/recipe';
+
+export type SearchField = 'name' | 'tags' | 'ingredients' | 'description';
+
+// A hit in the name counts five times one in the description
+export const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 5,
+  tags: 3,
+  ingredients: 2,
+  description: 1,
+};
+
+export interface RecipeSearchResult {
+  recipe: Recipe;
+  score: number;
+  matchedTerms: string[]; // Index terms the query matched, exactly or not
+}
+
+export interface RecipeSearchIndex {
+  search: (query: string) => RecipeSearchResult[];
+}
+
+// How much a loose match is worth next to an exact one
+const PREFIX_MATCH = 0.7;
+const TYPO_MATCH = [1, 0.7, 0.4];
+
+// Repeating a word in one field only helps up to a point
+const MAX_FIELD_OCCURRENCES = 3;
+
+// Whole query found in the recipe name, e.g. "chickpea curry"
+const PHRASE_BONUS = 1.5;
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'of', 'with', 'in', 'on', 'for', 'to', 'or', 'my', 'some']);
+
+// Lowercase words with accents stripped: "Crème brûlée!" -> ["creme", "brulee"]
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+// A light English stemmer: enough to fold plurals and -ed/-ing forms together ("tomatoes",
+// "tomato", "tomatoe"; "baked", "baking", "bake"; "berry", "berries"), not a full Porter stemmer.
+// "berry" and "berries", "fry" and "fried" all end up with "-i"
+const foldY = (word: string) => (/[^aeiou]y$/.test(word) ? word.slice(0, -1) + 'i' : word);
+
+export const stem = (word: string): string => {
+  if (/\d/.test(word)) {
+    return word;
+  }
+  if (word.length <= 3) {
+    return foldY(word);
+  }
+  let result = word;
+  if (/ies$/.test(result)) {
+    result = result.slice(0, -2);
+  } else if (/(oes|ches|shes|sses|xes|zes)$/.test(result)) {
+    result = result.slice(0, -2);
+  } else if (/[^su]s$/.test(result)) {
+    result = result.slice(0, -1);
+  }
+  const suffix = result.length > 5 && result.endsWith('ing') ? 3 : result.length > 4 && result.endsWith('ed') ? 2 : 0;
+  if (suffix) {
+    result = result.slice(0, -suffix);
+    // "chopp" -> "chop" after "chopped"
+    if (/([^aeiouflsz])\1$/.test(result)) {
+      result = result.slice(0, -1);
+    }
+  }
+  if (result.length > 3 && result.endsWith('e')) {
+    result = result.slice(0, -1);
+  }
+  return foldY(result);
+};
+
+const maxTypos = (term: string) => (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0);
+
+// Edit distance with adjacent swaps ("tomtao"), giving up once it passes `max`
+export const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const fieldText = (recipe: Recipe): Record<SearchField, string[]> => ({
+  name: [recipe.name],
+  tags: recipe.tags,
+  ingredients: recipe.ingredients,
+  description: [recipe.description],
+});
+
+// An inverted index over recipe names, tags, ingredients and descriptions. Queries are
+// stemmed the same way, and each query word may also match by prefix ("choc") or, when
+// it isn't a known word, with a typo or two ("chikpea", "spagheti"). Recipes matching more of the query rank first.
+export const createSearchIndex = (recipes: Recipe[]): RecipeSearchIndex => {
+  // term -> recipe position -> field-weighted occurrences
+  const postings = new Map<string, Map<number, number>>();
+  // Surface words, for prefix matching before stemming cuts them short
+  const wordsToTerms = new Map<string, string>();
+  const names = recipes.map(recipe => tokenize(recipe.name).join(' '));
+
+  recipes.forEach((recipe, position) => {
+    const fields = fieldText(recipe);
+    (Object.keys(fields) as SearchField[]).forEach(field => {
+      const counts = new Map<string, number>();
+      fields[field].forEach(text => {
+        tokenize(text).forEach(word => {
+          const term = stem(word);
+          wordsToTerms.set(word, term);
+          counts.set(term, (counts.get(term) || 0) + 1);
+        });
+      });
+      counts.forEach((count, term) => {
+        const termPostings = postings.get(term) || new Map<number, number>();
+        const weighted = FIELD_WEIGHTS[field] * Math.min(count, MAX_FIELD_OCCURRENCES);
+        termPostings.set(position, (termPostings.get(position) || 0) + weighted);
+        postings.set(term, termPostings);
+      });
+    });
+  });
+
+  const terms = Array.from(postings.keys());
+  const words = Array.from(wordsToTerms.keys());
+  const idf = (term: string) => Math.log(1 + recipes.length / postings.get(term).size);
+
+  // Every index term a query word could mean, with how good a match it is
+  const expandWord = (word: string): Map<string, number> => {
+    const term = stem(word);
+    const candidates = new Map<string, number>();
+    const offer = (candidate: string, quality: number) => {
+      if (quality > (candidates.get(candidate) || 0)) {
+        candidates.set(candidate, quality);
+      }
+    };
+
+    if (postings.has(term)) {
+      offer(term, 1);
+    }
+    if (word.length >= 3) {
+      words.forEach(indexed => {
+        if (indexed.length > word.length && indexed.startsWith(word)) {
+          offer(wordsToTerms.get(indexed), PREFIX_MATCH);
+        }
+      });
+    }
+    // Typos are only considered for words the index doesn't know, so "chickpea"
+    // never turns into "chicken"
+    const typos = postings.has(term) ? 0 : maxTypos(term);
+    if (typos > 0) {
+      terms.forEach(candidate => {
+        if (candidate !== term) {
+          const distance = editDistance(term, candidate, typos);
+          if (distance <= typos) {
+            offer(candidate, TYPO_MATCH[distance]);
+          }
+        }
+      });
+    }
+    return candidates;
+  };
+
+  const search = (query: string): RecipeSearchResult[] => {
+    const allWords = tokenize(query);
+    const meaningful = allWords.filter(word => !STOP_WORDS.has(word));
+    const queryWords = Array.from(new Set(meaningful.length ? meaningful : allWords));
+    if (queryWords.length === 0) {
+      return [];
+    }
+
+    const scores = new Map<number, { score: number; words: number; terms: Set<string> }>();
+    queryWords.forEach(word => {
+      // Each query word scores once per recipe, through its best matching term
+      const best = new Map<number, { score: number; term: string }>();
+      expandWord(word).forEach((quality, term) => {
+        const weight = quality * idf(term);
+        postings.get(term).forEach((occurrences, position) => {
+          const score = weight * occurrences;
+          if (score > (best.get(position)?.score || 0)) {
+            best.set(position, { score, term });
+          }
+        });
+      });
+
+      best.forEach(({ score, term }, position) => {
+        const entry = scores.get(position) || { score: 0, words: 0, terms: new Set<string>() };
+        entry.score += score;
+        entry.words++;
+        entry.terms.add(term);
+        scores.set(position, entry);
+      });
+    });
+
+    const phrase = queryWords.length > 1 ? allWords.join(' ') : null;
+    return Array.from(scores.entries())
+      .map(([position, { score, words: matchedWords, terms: matched }]) => {
+        const coverage = matchedWords / queryWords.length;
+        const bonus = phrase && names[position].includes(phrase) ? PHRASE_BONUS : 1;
+        return { position, result: { recipe: recipes[position], score: score * coverage * coverage * bonus, matchedTerms: Array.from(matched) } };
+      })
+      .sort((a, b) => b.result.score - a.result.score || a.position - b.position)
+      .map(({ result }) => result);
+  };
+
+  return { search };
+};
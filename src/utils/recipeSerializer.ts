@@ -0,0 +1,109 @@
+import { Recipe } from '@/types/recipe';
+import { getRecipeTiming, formatMinutes } from './durations';
+import { getRecipeNutrition } from './nutrition';
+
+// 90 -> "PT1H30M"
+export const toIsoDuration = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  if (!hours && !rest) {
+    return 'PT0M';
+  }
+  return `PT${hours ? `${hours}H` : ''}${rest ? `${rest}M` : ''}`;
+};
+
+// The facts every text format leads with, in the same order
+export const getRecipeSummary = (recipe: Recipe): [string, string][] => {
+  const timing = getRecipeTiming(recipe);
+  return [
+    ['Prep', recipe.prepTime],
+    ['Cook', recipe.cookTime],
+    ['Total', formatMinutes(timing.totalMinutes)],
+    ['Serves', String(recipe.servings)],
+    ['Calories', `${recipe.calories} per serving`],
+    ['Difficulty', recipe.difficulty],
+  ];
+};
+
+// schema.org Recipe, the same shape our importer reads back in
+export const toJsonLd = (recipe: Recipe, url?: string): Record<string, unknown> => {
+  const timing = getRecipeTiming(recipe);
+  const { facts } = getRecipeNutrition(recipe);
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Recipe',
+    name: recipe.name,
+    description: recipe.description,
+    ...(recipe.image ? { image: [recipe.image] } : {}),
+    ...(url ? { url } : {}),
+    recipeYield: `${recipe.servings} servings`,
+    prepTime: toIsoDuration(timing.prepMinutes),
+    cookTime: toIsoDuration(timing.cookMinutes),
+    totalTime: toIsoDuration(timing.totalMinutes),
+    keywords: recipe.tags.join(', '),
+    recipeIngredient: recipe.ingredients,
+    recipeInstructions: recipe.instructions.map((text, index) => ({
+      '@type': 'HowToStep',
+      position: index + 1,
+      text,
+    })),
+    nutrition: {
+      '@type': 'NutritionInformation',
+      servingSize: '1 serving',
+      calories: `${facts.calories} calories`,
+      proteinContent: `${facts.protein} g`,
+      carbohydrateContent: `${facts.carbs} g`,
+      fatContent: `${facts.fat} g`,
+      fiberContent: `${facts.fiber} g`,
+      sugarContent: `${facts.sugar} g`,
+      sodiumContent: `${facts.sodium} mg`,
+    },
+  };
+};
+
+export const serializeJsonLd = (recipe: Recipe, url?: string): string =>
+  JSON.stringify(toJsonLd(recipe, url), null, 2);
+
+export const toMarkdown = (recipe: Recipe): string => {
+  const lines = [
+    `# ${recipe.name}`,
+    '',
+    recipe.description,
+    '',
+    getRecipeSummary(recipe).map(([label, value]) => `**${label}:** ${value}`).join(' · '),
+    '',
+    '## Ingredients',
+    '',
+    ...recipe.ingredients.map(ingredient => `- ${ingredient}`),
+    '',
+    '## Instructions',
+    '',
+    ...recipe.instructions.map((step, index) => `${index + 1}. ${step}`),
+  ];
+
+  if (recipe.cookingTips?.length) {
+    lines.push('', '## Tips', '', ...recipe.cookingTips.map(tip => `- ${tip}`));
+  }
+  if (recipe.tags.length) {
+    lines.push('', `_Tags: ${recipe.tags.join(', ')}_`);
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+// Compact enough to paste into a chat message
+export const toPlainText = (recipe: Recipe): string => [
+  recipe.name.toUpperCase(),
+  getRecipeSummary(recipe)
+    .filter(([label]) => label === 'Total' || label === 'Serves')
+    .map(([label, value]) => `${label}: ${value}`).join(' · '),
+  '',
+  'Ingredients:',
+  ...recipe.ingredients.map(ingredient => `• ${ingredient}`),
+  '',
+  'Steps:',
+  ...recipe.instructions.map((step, index) => `${index + 1}. ${step}`),
+].join('\n');
+
+export const getExportFileName = (recipe: Recipe, extension: string): string =>
+  `${recipe.id}.${extension}`;
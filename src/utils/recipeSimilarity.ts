@@ -0,0 +1,342 @@
+import { Recipe } from '@/types/recipe';
+import { getMood } from '@/data/moods/moodRegistry';
+import { formatMinutes, getRecipeTiming } from './durations';
+import { getParsedIngredients } from './ingredientParser';
+import { stem, tokenize } from './recipeSearch';
+
+export type SimilarityFeature = 'ingredients' | 'tags' | 'cuisine' | 'mood' | 'time' | 'difficulty';
+
+// What each feature is worth out of a perfect score of 1
+export const SIMILARITY_WEIGHTS: Record<SimilarityFeature, number> = {
+  ingredients: 0.4,
+  tags: 0.2,
+  cuisine: 0.15,
+  mood: 0.1,
+  time: 0.1,
+  difficulty: 0.05,
+};
+
+export interface SimilarityReason {
+  feature: SimilarityFeature;
+  score: number; // This feature's share of the recipe's score
+  text: string; // "Both use chickpeas, cumin and ginger"
+}
+
+export interface SimilarRecipe {
+  recipe: Recipe;
+  score: number; // 0-1
+  reasons: SimilarityReason[]; // Strongest first
+}
+
+export interface RecipeSimilarityIndex {
+  getSimilar: (recipeId: string, limit?: number) => SimilarRecipe[];
+}
+
+// Neighbours kept per recipe; asking for more than this gets no more
+export const NEIGHBOUR_COUNT = 12;
+
+// Features adding less than this to the score aren't worth explaining ("Both use salt")
+const MIN_REASON_SCORE = 0.02;
+const MAX_NAMED_ITEMS = 3;
+
+// "cherry tomatoes" also counts, at half weight, as plain "tomatoes"
+const HEAD_WORD_WEIGHT = 0.5;
+
+// Cuisines are read from tags; recipes from the same region are half as alike as
+// recipes from the same cuisine
+const CUISINE_REGIONS: Record<string, string> = {
+  italian: 'European',
+  french: 'European',
+  spanish: 'European',
+  greek: 'European',
+  british: 'European',
+  austrian: 'European',
+  european: 'European',
+  mediterranean: 'European',
+  japanese: 'Asian',
+  chinese: 'Asian',
+  korean: 'Asian',
+  thai: 'Asian',
+  vietnamese: 'Asian',
+  indian: 'Asian',
+  asian: 'Asian',
+  american: 'American',
+  mexican: 'American',
+  california: 'American',
+  hawaiian: 'American',
+  'middle eastern': 'Middle Eastern',
+};
+const SAME_REGION = 0.5;
+
+const DIFFICULTY_LEVELS: Record<string, number> = { easy: 0, medium: 1, hard: 2 };
+
+// Minutes added to both times, so 5 vs 10 minutes doesn't count as twice as long
+const TIME_SMOOTHING = 10;
+const SIMILAR_TIME = 0.75;
+
+const toTitleCase = (text: string) => text.replace(/\b[a-z]/g, letter => letter.toUpperCase());
+
+// "Chickpeas, cumin and ginger"
+const listItems = (items: string[]) =>
+  items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items[0];
+
+const toTerm = (text: string) => tokenize(text).map(stem).join(' ');
+
+// A unit-length TF-IDF vector per recipe, plus each term's postings for finding the
+// recipes that share it
+const buildVectors = (termLists: Map<string, number>[]) => {
+  const documentFrequency = new Map<string, number>();
+  termLists.forEach(terms => terms.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)));
+
+  const postings = new Map<string, { position: number; weight: number }[]>();
+  const vectors = termLists.map((terms, position) => {
+    const vector = new Map<string, number>();
+    terms.forEach((tf, term) => vector.set(term, tf * Math.log(1 + termLists.length / documentFrequency.get(term))));
+    const length = Math.sqrt(Array.from(vector.values()).reduce((sum, weight) => sum + weight * weight, 0)) || 1;
+    vector.forEach((weight, term) => {
+      const normalized = weight / length;
+      vector.set(term, normalized);
+      const list = postings.get(term) || [];
+      list.push({ position, weight: normalized });
+      postings.set(term, list);
+    });
+    return vector;
+  });
+  return { vectors, postings };
+};
+
+// Terms two vectors share, biggest contribution to their cosine first
+const sharedTerms = (a: Map<string, number>, b: Map<string, number>) =>
+  Array.from(a.keys())
+    .filter(term => b.has(term))
+    .sort((x, y) => b.get(y) * a.get(y) - b.get(x) * a.get(x));
+
+// Content-based similarity: cosine over TF-IDF vectors of parsed ingredients and of tags,
+// plus matching cuisine, mood, cooking time and difficulty. A recipe's nearest neighbours
+// are worked out when it is first asked about; explanations only for those returned.
+export const createSimilarityIndex = (recipes: Recipe[]): RecipeSimilarityIndex => {
+  // Catalogs repeat the same ingredients and tags over and over, so each text is stemmed once
+  const termsByText = new Map<string, string>();
+  const termOf = (text: string) => {
+    let term = termsByText.get(text);
+    if (term === undefined) {
+      term = toTerm(text);
+      termsByText.set(text, term);
+    }
+    return term;
+  };
+
+  const labels = new Map<string, string>();
+  const label = (term: string, text: string) => {
+    if (!labels.has(term)) {
+      labels.set(term, text.trim().toLowerCase());
+    }
+  };
+
+  const ingredientTerms = recipes.map(recipe => {
+    const terms = new Map<string, number>();
+    getParsedIngredients(recipe).forEach(({ item }) => {
+      const term = termOf(item);
+      if (!term) {
+        return;
+      }
+      terms.set(term, 1);
+      label(term, item);
+      const words = item.trim().split(/\s+/);
+      const head = termOf(words[words.length - 1]);
+      if (head && head !== term && !terms.has(head)) {
+        terms.set(head, HEAD_WORD_WEIGHT);
+        label(head, words[words.length - 1]);
+      }
+    });
+    return terms;
+  });
+
+  const cuisines = recipes.map(recipe =>
+    Array.from(new Set(recipe.tags.map(tag => tag.trim().toLowerCase()).filter(tag => tag in CUISINE_REGIONS)))
+  );
+
+  // Cuisine tags are scored as cuisines, not again as tags
+  const tagTerms = recipes.map(recipe => {
+    const terms = new Map<string, number>();
+    recipe.tags.forEach(tag => {
+      const term = termOf(tag);
+      if (term && !(tag.trim().toLowerCase() in CUISINE_REGIONS)) {
+        terms.set(term, 1);
+        label(term, tag);
+      }
+    });
+    return terms;
+  });
+
+  const ingredients = buildVectors(ingredientTerms);
+  const tags = buildVectors(tagTerms);
+  // Typed arrays rather than recipe fields, as every recipe is compared with the one asked about
+  const minutes = Float64Array.from(recipes, recipe => getRecipeTiming(recipe).totalMinutes);
+  const difficulties = Int8Array.from(recipes, recipe => DIFFICULTY_LEVELS[recipe.difficulty.trim().toLowerCase()] ?? -1);
+  // Copies of a recipe under the same id never count as similar to each other
+  const positionsById = new Map<string, number>();
+  recipes.forEach((recipe, position) => {
+    if (!positionsById.has(recipe.id)) {
+      positionsById.set(recipe.id, position);
+    }
+  });
+  const firstPositions = Int32Array.from(recipes, recipe => positionsById.get(recipe.id));
+  const moodIds = new Map<string, number>();
+  const moods = Int32Array.from(recipes, recipe => {
+    if (!moodIds.has(recipe.mood)) {
+      moodIds.set(recipe.mood, moodIds.size);
+    }
+    return moodIds.get(recipe.mood);
+  });
+
+  // One bit per cuisine and per region, so comparing two recipes is a bitwise and
+  const cuisineBits = new Map<string, number>();
+  const regionBits = new Map<string, number>();
+  const toMask = (names: string[], bits: Map<string, number>) =>
+    names.reduce((mask, name) => {
+      if (!bits.has(name)) {
+        bits.set(name, 1 << bits.size);
+      }
+      return mask | bits.get(name);
+    }, 0);
+  const cuisineMasks = Int32Array.from(cuisines, names => toMask(names, cuisineBits));
+  const regionMasks = Int32Array.from(cuisines, names => toMask(names.map(cuisine => CUISINE_REGIONS[cuisine]), regionBits));
+
+  const cuisineSimilarity = (a: number, b: number) =>
+    cuisineMasks[a] & cuisineMasks[b] ? 1 : regionMasks[a] & regionMasks[b] ? SAME_REGION : 0;
+
+  const timeSimilarity = (a: number, b: number) =>
+    (Math.min(minutes[a], minutes[b]) + TIME_SMOOTHING) / (Math.max(minutes[a], minutes[b]) + TIME_SMOOTHING);
+
+  const difficultySimilarity = (a: number, b: number) =>
+    difficulties[a] < 0 || difficulties[b] < 0 ? 0 : 1 - Math.abs(difficulties[a] - difficulties[b]) / 2;
+
+  // Per-feature scores (already weighted) of one recipe against another
+  const scoreFeatures = (a: number, b: number, ingredientCosine: number, tagCosine: number): Record<SimilarityFeature, number> => ({
+    ingredients: SIMILARITY_WEIGHTS.ingredients * ingredientCosine,
+    tags: SIMILARITY_WEIGHTS.tags * tagCosine,
+    cuisine: SIMILARITY_WEIGHTS.cuisine * cuisineSimilarity(a, b),
+    mood: moods[a] === moods[b] ? SIMILARITY_WEIGHTS.mood : 0,
+    time: SIMILARITY_WEIGHTS.time * timeSimilarity(a, b),
+    difficulty: SIMILARITY_WEIGHTS.difficulty * difficultySimilarity(a, b),
+  });
+
+  // The same total without building the breakdown, for scoring every candidate
+  const scorePair = (a: number, b: number, ingredientCosine: number, tagCosine: number) =>
+    SIMILARITY_WEIGHTS.ingredients * ingredientCosine +
+    SIMILARITY_WEIGHTS.tags * tagCosine +
+    SIMILARITY_WEIGHTS.cuisine * cuisineSimilarity(a, b) +
+    (moods[a] === moods[b] ? SIMILARITY_WEIGHTS.mood : 0) +
+    SIMILARITY_WEIGHTS.time * timeSimilarity(a, b) +
+    SIMILARITY_WEIGHTS.difficulty * difficultySimilarity(a, b);
+
+  // Dot products come from the postings of the recipe's own terms, so only recipes
+  // sharing something are touched; everyone else scores on the cheap features alone
+  const ingredientDots = new Float64Array(recipes.length);
+  const tagDots = new Float64Array(recipes.length);
+  const accumulate = (vector: Map<string, number>, postings: Map<string, { position: number; weight: number }[]>, dots: Float64Array) => {
+    vector.forEach((weight, term) => {
+      postings.get(term).forEach(posting => {
+        dots[posting.position] += weight * posting.weight;
+      });
+    });
+  };
+
+  // Kept sorted, best first; ties go to the recipe earlier in the list, as offers arrive in
+  // list order
+  const offer = (best: { position: number; score: number }[], position: number, score: number) => {
+    if (best.length === NEIGHBOUR_COUNT && score <= best[best.length - 1].score) {
+      return;
+    }
+    let index = best.length;
+    while (index > 0 && best[index - 1].score < score) {
+      index--;
+    }
+    best.splice(index, 0, { position, score });
+    if (best.length > NEIGHBOUR_COUNT) {
+      best.pop();
+    }
+  };
+
+  // Worked out for a recipe the first time it is asked about: one pass over the list,
+  // rather than every pair of recipes up front
+  const neighbours = new Map<number, { position: number; score: number }[]>();
+  const getNeighbours = (position: number) => {
+    const cached = neighbours.get(position);
+    if (cached) {
+      return cached;
+    }
+    ingredientDots.fill(0);
+    tagDots.fill(0);
+    accumulate(ingredients.vectors[position], ingredients.postings, ingredientDots);
+    accumulate(tags.vectors[position], tags.postings, tagDots);
+
+    const best: { position: number; score: number }[] = [];
+    for (let other = 0; other < recipes.length; other++) {
+      if (firstPositions[other] !== firstPositions[position]) {
+        offer(best, other, scorePair(position, other, ingredientDots[other], tagDots[other]));
+      }
+    }
+    neighbours.set(position, best);
+    return best;
+  };
+
+  // "mixed berries" says all "berries" would, so the head word isn't named as well
+  const nameTerms = (terms: string[]) =>
+    terms
+      .filter(term => !terms.some(other => other !== term && other.endsWith(` ${term}`)))
+      .slice(0, MAX_NAMED_ITEMS)
+      .map(term => labels.get(term));
+
+  const explain = (a: number, b: number): SimilarityReason[] => {
+    const sharedIngredients = sharedTerms(ingredients.vectors[a], ingredients.vectors[b]);
+    const sharedTags = sharedTerms(tags.vectors[a], tags.vectors[b]);
+    const ingredientCosine = sharedIngredients.reduce((sum, term) => sum + ingredients.vectors[a].get(term) * ingredients.vectors[b].get(term), 0);
+    const tagCosine = sharedTags.reduce((sum, term) => sum + tags.vectors[a].get(term) * tags.vectors[b].get(term), 0);
+    const scores = scoreFeatures(a, b, ingredientCosine, tagCosine);
+
+    const sharedCuisine = cuisines[a].find(cuisine => cuisines[b].includes(cuisine));
+    const sharedRegion = cuisines[a].map(cuisine => CUISINE_REGIONS[cuisine])
+      .find(region => cuisines[b].some(cuisine => CUISINE_REGIONS[cuisine] === region));
+    const texts: Record<SimilarityFeature, () => string> = {
+      ingredients: () => `Both use ${listItems(nameTerms(sharedIngredients))}`,
+      tags: () => `Both tagged ${listItems(nameTerms(sharedTags))}`,
+      cuisine: () => `Both ${sharedCuisine ? toTitleCase(sharedCuisine) : sharedRegion}`,
+      mood: () => `Same mood: ${getMood(recipes[a].mood).name}`,
+      time: () => (minutes[a] === minutes[b]
+        ? `Also ready in ${formatMinutes(minutes[b])}`
+        : `Ready in ${formatMinutes(minutes[b])}, close to this one's ${formatMinutes(minutes[a])}`),
+      difficulty: () => `Also ${recipes[b].difficulty.trim().toLowerCase()} to make`,
+    };
+
+    // Cooking time and difficulty only count as a reason when they are a close match
+    const worthExplaining: Record<SimilarityFeature, boolean> = {
+      ingredients: sharedIngredients.length > 0,
+      tags: sharedTags.length > 0,
+      cuisine: Boolean(sharedCuisine || sharedRegion),
+      mood: true,
+      time: minutes[a] > 0 && minutes[b] > 0 && timeSimilarity(a, b) >= SIMILAR_TIME,
+      difficulty: difficultySimilarity(a, b) === 1,
+    };
+
+    return (Object.keys(scores) as SimilarityFeature[])
+      .filter(feature => worthExplaining[feature] && scores[feature] >= MIN_REASON_SCORE)
+      .sort((x, y) => scores[y] - scores[x])
+      .map(feature => ({ feature, score: scores[feature], text: texts[feature]() }));
+  };
+
+  const getSimilar = (recipeId: string, limit: number = 3): SimilarRecipe[] => {
+    const position = positionsById.get(recipeId);
+    if (position === undefined) {
+      return [];
+    }
+    return getNeighbours(position).slice(0, limit).map(({ position: other, score }) => ({
+      recipe: recipes[other],
+      score,
+      reasons: explain(position, other),
+    }));
+  };
+
+  return { getSimilar };
+};
@@ -0,0 +1,52 @@
+import { MoodDefinition } from '@/types/recipe';
+import { MoodInferenceEngine } from '@/types/moodInference';
+import { findMood, getMood } from '@/data/moods/moodRegistry';
+import { parseSearchQuery } from './searchQuery';
+import {
+  createMoodInferenceEngine,
+  emojiStrategy,
+  keywordStrategy,
+  moodInferenceEngine,
+  registryStrategy,
+} from './moodInference';
+
+// How a /search query is read: as a mood ("feeling cozy") or as words to find in recipes
+export type SearchMode = 'mood' | 'text';
+
+export const SEARCH_PATH = '/search';
+
+export const toSearchPath = (query: string, mode?: SearchMode): string => {
+  const params = new URLSearchParams({ q: query });
+  if (mode) {
+    params.set('as', mode);
+  }
+  return `${SEARCH_PATH}?${params}`;
+};
+
+export const parseSearchMode = (value: string | null): SearchMode | null =>
+  value === 'mood' || value === 'text' ? value : null;
+
+// The word lists only: nothing to download, so a query is read as soon as it is searched
+const lexicalMoodEngine = createMoodInferenceEngine([registryStrategy, keywordStrategy, emojiStrategy]);
+
+// Filters ("tag:spicy") always mean a text search
+const readSearchMood = async (query: string, engine: MoodInferenceEngine): Promise<MoodDefinition | null> => {
+  const { clauses } = parseSearchQuery(query);
+  if (clauses.length === 0 || clauses.some(clause => clause.kind !== 'text')) {
+    return null;
+  }
+  const named = findMood(query);
+  if (named) {
+    return named;
+  }
+  const { mood } = await engine.infer(query);
+  return mood ? getMood(mood) : null;
+};
+
+// The mood a query could mean, if any, from its words alone
+export const inferSearchMoodQuickly = (query: string): Promise<MoodDefinition | null> =>
+  readSearchMood(query, lexicalMoodEngine);
+
+// The same with the trained model as well, once it has been fetched
+export const inferSearchMood = (query: string): Promise<MoodDefinition | null> =>
+  readSearchMood(query, moodInferenceEngine);
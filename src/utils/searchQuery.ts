@@ -0,0 +1,267 @@
+import { Recipe } from '@/types/recipe';
+import { Diet } from '@/types/dietary';
+import { Comparison, NumericFilterField, ParsedQuery, QueryClause, QueryError, TextFilterField } from '@/types/search';
+import { MOOD_IDS, findMood } from '@/data/moods/moodRegistry';
+import { DIET_LABELS, getDietaryProfile } from './dietaryClassifier';
+import { parseDuration, getRecipeTiming } from './durations';
+import { DIFFICULTIES } from './recipeSchema';
+import { editDistance, stem, tokenize } from './recipeSearch';
+import { RecipeRepository } from './recipeRepository';
+
+// Every spelling we accept for a filter name, mapped to its field
+const FIELD_ALIASES: Record<string, TextFilterField | NumericFilterField> = {
+  tag: 'tag', tags: 'tag',
+  ingredient: 'ingredient', ingredients: 'ingredient', ing: 'ingredient',
+  mood: 'mood',
+  difficulty: 'difficulty', level: 'difficulty',
+  diet: 'diet',
+  name: 'name', title: 'name',
+  time: 'time', total: 'time',
+  calories: 'calories', cal: 'calories', kcal: 'calories',
+  servings: 'servings', serves: 'servings',
+};
+
+const NUMERIC_FIELDS: NumericFilterField[] = ['time', 'calories', 'servings'];
+
+export const QUERY_FIELD_EXAMPLES = ['tag:spicy', 'ingredient:"peanut butter"', 'mood:cozy', 'difficulty:easy', 'diet:vegan', 'time:<30', 'calories:<=500', '-ingredient:peanut'];
+
+const DIETS = Object.keys(DIET_LABELS) as Diet[];
+
+// "time:30" reads as "ready within 30 minutes"; other numbers must match exactly
+const DEFAULT_COMPARISON: Record<NumericFilterField, Comparison> = {
+  time: '<=',
+  calories: '=',
+  servings: '=',
+};
+
+interface RawToken {
+  text: string;
+  start: number;
+  end: number;
+  unclosedQuote: boolean;
+}
+
+// Splits on whitespace, keeping quoted stretches ("chickpea curry", tag:"comfort food") whole
+const splitTokens = (query: string): RawToken[] => {
+  const tokens: RawToken[] = [];
+  let position = 0;
+
+  while (position < query.length) {
+    if (/\s/.test(query[position])) {
+      position++;
+      continue;
+    }
+    const start = position;
+    let inQuote = false;
+    while (position < query.length && (inQuote || !/\s/.test(query[position]))) {
+      if (query[position] === '"') {
+        inQuote = !inQuote;
+      }
+      position++;
+    }
+    tokens.push({ text: query.slice(start, position), start, end: position, unclosedQuote: inQuote });
+  }
+  return tokens;
+};
+
+const unquote = (text: string) => text.replace(/^"/, '').replace(/"$/, '').trim();
+
+// The closest option within a couple of typos, for "did you mean" hints
+const suggest = (value: string, options: string[]): string | null => {
+  const best = options
+    .map(option => ({ option, distance: editDistance(value, option, 2) }))
+    .filter(({ distance }) => distance <= 2)
+    .sort((a, b) => a.distance - b.distance)[0];
+  return best ? best.option : null;
+};
+
+const didYouMean = (value: string, options: string[]) => {
+  const suggestion = suggest(value, options);
+  return suggestion ? ` Did you mean "${suggestion}"?` : '';
+};
+
+const normalizeOption = (value: string) => value.trim().toLowerCase().replace(/[\s_]+/g, '-');
+
+const parseTextFilter = (field: TextFilterField, value: string): { value: string } | { error: string } => {
+  if (field === 'mood') {
+    const mood = findMood(value);
+    return mood ? { value: mood.id } : { error: `No mood called "${value}".${didYouMean(normalizeOption(value), MOOD_IDS)}` };
+  }
+  if (field === 'difficulty') {
+    const difficulty = DIFFICULTIES.find(option => option.toLowerCase() === value.toLowerCase());
+    return difficulty ? { value: difficulty } : { error: `Difficulty is easy, medium or hard, not "${value}".` };
+  }
+  if (field === 'diet') {
+    // "gluten-free", "glutenfree" and plain "gluten" are all fine
+    const key = normalizeOption(value).replace(/-?free$/, '-free');
+    const diet = DIETS.find(option => option === key) || DIETS.find(option => option.startsWith(`${key}-`));
+    return diet ? { value: diet } : { error: `Unknown diet "${value}". Try ${DIETS.join(', ')}.` };
+  }
+  return { value };
+};
+
+const parseNumericFilter = (field: NumericFilterField, value: string): { comparison: Comparison; value: number } | { error: string } => {
+  const [, operator, amount] = value.match(/^(<=|>=|<|>|=)?\s*(.*)$/);
+  const comparison = (operator as Comparison) || DEFAULT_COMPARISON[field];
+  const number = field === 'time' ? parseDuration(amount)?.minutes : amount ? Number(amount) : NaN;
+
+  if (number === undefined || !Number.isFinite(number)) {
+    const example = field === 'time' ? 'time:<30 or time:<=1h' : `${field}:<500`;
+    return { error: `${field} needs a number, like ${example}.` };
+  }
+  return { comparison, value: number };
+};
+
+const toClause = (token: RawToken, errors: QueryError[]): QueryClause[] => {
+  const negated = token.text.length > 1 && token.text.startsWith('-');
+  const body = negated ? token.text.slice(1) : token.text;
+  const addError = (message: string) => errors.push({ message, start: token.start, end: token.end });
+
+  if (token.unclosedQuote) {
+    addError('Missing closing quote.');
+  }
+
+  const fieldMatch = body.match(/^([a-z]+):(.*)$/i);
+  if (!fieldMatch) {
+    const phrase = body.startsWith('"');
+    const value = unquote(body);
+    return value ? [{ kind: 'text', value, phrase, negated }] : [];
+  }
+
+  const [, name, rawValue] = fieldMatch;
+  const field = FIELD_ALIASES[name.toLowerCase()];
+  const value = unquote(rawValue);
+
+  if (!field) {
+    // Probably meant as a filter, but the words may still be worth searching for
+    addError(`Unknown filter "${name}:".${didYouMean(name.toLowerCase(), Object.keys(FIELD_ALIASES))} Searching for it as text instead.`);
+    const text = `${name} ${value}`.trim();
+    return [{ kind: 'text', value: text, phrase: false, negated }];
+  }
+  if (!value) {
+    addError(`"${name}:" needs a value, e.g. ${QUERY_FIELD_EXAMPLES.find(example => example.startsWith(field)) || `${field}:...`}`);
+    return [];
+  }
+
+  if ((NUMERIC_FIELDS as string[]).includes(field)) {
+    const parsed = parseNumericFilter(field as NumericFilterField, value);
+    if ('error' in parsed) {
+      addError(parsed.error);
+      return [];
+    }
+    return [{ kind: 'numeric-filter', field: field as NumericFilterField, comparison: parsed.comparison, value: parsed.value, negated }];
+  }
+
+  if (/^(<|>|=)/.test(value)) {
+    addError(`"${name}:" matches words; comparisons like < and > only work with time, calories and servings.`);
+    return [];
+  }
+  const parsed = parseTextFilter(field as TextFilterField, value);
+  if ('error' in parsed) {
+    addError(parsed.error);
+    return [];
+  }
+  return [{ kind: 'text-filter', field: field as TextFilterField, value: parsed.value, negated }];
+};
+
+// Parses "tag:spicy time:<30 -ingredient:peanut mood:cozy "chickpea curry"". Problems
+// come back as errors alongside whatever could still be understood.
+export const parseSearchQuery = (query: string): ParsedQuery => {
+  const errors: QueryError[] = [];
+  const clauses = splitTokens(query).flatMap(token => toClause(token, errors));
+  return { clauses, errors };
+};
+
+// Stemmed words of each searchable line, so "peanuts" matches ingredient:peanut
+interface RecipeLines {
+  name: string[][];
+  tags: string[][];
+  ingredients: string[][];
+  all: string[][];
+}
+
+const linesByRecipe = new WeakMap<Recipe, RecipeLines>();
+
+const toLines = (texts: string[]) => texts.map(text => tokenize(text).map(stem));
+
+const getRecipeLines = (recipe: Recipe): RecipeLines => {
+  const cached = linesByRecipe.get(recipe);
+  if (cached) {
+    return cached;
+  }
+  const name = toLines([recipe.name]);
+  const tags = toLines(recipe.tags);
+  const ingredients = toLines(recipe.ingredients);
+  const lines = { name, tags, ingredients, all: [...name, ...tags, ...ingredients, ...toLines([recipe.description])] };
+  linesByRecipe.set(recipe, lines);
+  return lines;
+};
+
+const containsPhrase = (lines: string[][], phrase: string[]) =>
+  phrase.length > 0 && lines.some(line =>
+    line.some((_, start) => phrase.every((word, offset) => line[start + offset] === word))
+  );
+
+const COMPARE: Record<Comparison, (a: number, b: number) => boolean> = {
+  '<': (a, b) => a < b,
+  '<=': (a, b) => a <= b,
+  '>': (a, b) => a > b,
+  '>=': (a, b) => a >= b,
+  '=': (a, b) => a === b,
+};
+
+const NUMERIC_VALUE: Record<NumericFilterField, (recipe: Recipe) => number> = {
+  time: recipe => getRecipeTiming(recipe).totalMinutes,
+  calories: recipe => recipe.calories,
+  servings: recipe => recipe.servings,
+};
+
+const toPredicate = (clause: QueryClause, repository: RecipeRepository): ((recipe: Recipe) => boolean) | null => {
+  if (clause.kind === 'numeric-filter') {
+    return recipe => COMPARE[clause.comparison](NUMERIC_VALUE[clause.field](recipe), clause.value);
+  }
+
+  const phrase = tokenize(clause.value).map(stem);
+  if (clause.kind === 'text') {
+    // Plain words are already matched (and ranked) by the search index
+    return clause.phrase || clause.negated ? recipe => containsPhrase(getRecipeLines(recipe).all, phrase) : null;
+  }
+
+  switch (clause.field) {
+    case 'mood': {
+      // Same recipes as picking the mood, including quick recipes for time-based moods
+      const inMood = new Set(repository.getByMood(clause.value as Recipe['mood']));
+      return recipe => inMood.has(recipe);
+    }
+    case 'difficulty':
+      return recipe => recipe.difficulty === clause.value;
+    case 'diet':
+      return recipe => getDietaryProfile(recipe).diets.includes(clause.value as Diet);
+    case 'tag':
+      return recipe => getRecipeLines(recipe).tags.some(tag => containsPhrase([tag], phrase) && tag.length === phrase.length);
+    case 'ingredient':
+      return recipe => containsPhrase(getRecipeLines(recipe).ingredients, phrase);
+    case 'name':
+      return recipe => containsPhrase(getRecipeLines(recipe).name, phrase);
+  }
+};
+
+// Runs a query against the repository: free text is ranked by the search index, then every
+// filter has to hold. Without free text the repository order is kept.
+export const runSearchQuery = (repository: RecipeRepository, query: ParsedQuery): Recipe[] => {
+  if (query.clauses.length === 0) {
+    return [];
+  }
+
+  const words = query.clauses
+    .filter(clause => clause.kind === 'text' && !clause.negated)
+    .map(clause => clause.value);
+  const candidates = words.length ? repository.search(words.join(' ')) : repository.recipes;
+
+  const predicates = query.clauses.map(clause => {
+    const predicate = toPredicate(clause, repository);
+    return predicate && (clause.negated ? (recipe: Recipe) => !predicate(recipe) : predicate);
+  }).filter(Boolean);
+
+  return candidates.filter(recipe => predicates.every(predicate => predicate(recipe)));
+};
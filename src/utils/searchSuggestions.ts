@@ -0,0 +1,161 @@
+import { Recipe } from '@/types/recipe';
+import { SearchSuggestion, SearchSuggestionType } from '@/types/search';
+import { getMood, moods } from '@/data/moods/moodRegistry';
+import { getParsedIngredients } from './ingredientParser';
+import { stem, tokenize } from './recipeSearch';
+import { parseSearchQuery } from './searchQuery';
+
+// Most suggestions of each kind shown at once
+export const SUGGESTION_LIMITS: Record<SearchSuggestionType, number> = {
+  recipe: 5,
+  ingredient: 4,
+  tag: 4,
+  mood: 3,
+};
+
+interface LabelWord {
+  text: string; // Lowercased, accents stripped
+  start: number;
+  end: number;
+}
+
+interface Candidate {
+  type: SearchSuggestionType;
+  value: string;
+  label: string;
+  icon?: string;
+  count?: number; // Recipes with this ingredient or tag
+  words: LabelWord[];
+  aliases?: string[]; // Other names that match, e.g. mood aliases
+}
+
+const foldAccents = (text: string) => text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+// Positions are kept so the typed text can be highlighted in the original label
+const toLabelWords = (label: string): LabelWord[] =>
+  Array.from(label.matchAll(/[\p{L}\p{N}]+/gu), match => ({
+    text: foldAccents(match[0]),
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+
+// Every query word has to start a different word of the label: "chi cu" finds "Chickpea Curry"
+const matchWords = (words: LabelWord[], queryWords: string[]): [number, number][] | null => {
+  const used = new Set<LabelWord>();
+  const highlights: [number, number][] = [];
+  for (const queryWord of queryWords) {
+    const word = words.find(candidate => !used.has(candidate) && candidate.text.startsWith(queryWord));
+    if (!word) {
+      return null;
+    }
+    used.add(word);
+    highlights.push([word.start, Math.min(word.end, word.start + queryWord.length)]);
+  }
+  return highlights.sort((a, b) => a[0] - b[0]);
+};
+
+const formatCount = (count: number) => `${count} ${count === 1 ? 'recipe' : 'recipes'}`;
+
+// Ingredients and tags that differ only by plural ("egg", "eggs") are offered once, under
+// their most common spelling
+const groupByStem = (values: string[][]): Candidate[] => {
+  const groups = new Map<string, { spellings: Map<string, number>; recipes: number }>();
+  values.forEach(recipeValues => {
+    const seen = new Set<string>();
+    recipeValues.forEach(value => {
+      const key = tokenize(value).map(stem).join(' ');
+      if (!key) {
+        return;
+      }
+      const group = groups.get(key) || { spellings: new Map<string, number>(), recipes: 0 };
+      group.spellings.set(value, (group.spellings.get(value) || 0) + 1);
+      if (!seen.has(key)) {
+        seen.add(key);
+        group.recipes++;
+      }
+      groups.set(key, group);
+    });
+  });
+
+  return Array.from(groups.values()).map(({ spellings, recipes }) => {
+    const label = Array.from(spellings.entries()).sort((a, b) => b[1] - a[1])[0][0];
+    return { type: 'ingredient', value: label, label, count: recipes, words: toLabelWords(label) };
+  });
+};
+
+const moodCandidates: Candidate[] = moods.map(mood => ({
+  type: 'mood',
+  value: mood.id,
+  label: mood.name,
+  icon: mood.icon,
+  words: toLabelWords(mood.name),
+  aliases: mood.aliases,
+}));
+
+const candidatesByRecipes = new WeakMap<Recipe[], Candidate[]>();
+
+// Built once per recipe list; the repository hands back the same list until it changes
+const getCandidates = (recipes: Recipe[]): Candidate[] => {
+  const cached = candidatesByRecipes.get(recipes);
+  if (cached) {
+    return cached;
+  }
+
+  const recipeCandidates: Candidate[] = recipes.map(recipe => ({
+    type: 'recipe',
+    value: recipe.id,
+    label: recipe.name,
+    icon: getMood(recipe.mood)?.icon,
+    words: toLabelWords(recipe.name),
+  }));
+  const ingredients = groupByStem(recipes.map(recipe => getParsedIngredients(recipe).map(ingredient => ingredient.item.toLowerCase())));
+  const tags = groupByStem(recipes.map(recipe => recipe.tags.map(tag => tag.toLowerCase())))
+    .map(candidate => ({ ...candidate, type: 'tag' as const }));
+
+  const candidates = [...recipeCandidates, ...ingredients, ...tags, ...moodCandidates];
+  candidatesByRecipes.set(recipes, candidates);
+  return candidates;
+};
+
+// Suggestions for what has been typed so far, grouped by kind in the order of SUGGESTION_LIMITS.
+// Labels starting with the query come first, then the most used ingredients and tags.
+export const suggestSearches = (recipes: Recipe[], query: string): SearchSuggestion[] => {
+  const queryWords = tokenize(query);
+  // Filters and exclusions ("tag:sp", "-peanut") are left to the query hints
+  const { clauses } = parseSearchQuery(query);
+  if (queryWords.length === 0 || clauses.some(clause => clause.kind !== 'text' || clause.negated)) {
+    return [];
+  }
+
+  const matches = getCandidates(recipes).flatMap(candidate => {
+    const highlights = matchWords(candidate.words, queryWords);
+    if (highlights) {
+      return [{ candidate, highlights, detail: candidate.count ? formatCount(candidate.count) : undefined }];
+    }
+    // A mood can also be found by an alias ("busy" for Time-Pressed), shown as the detail
+    const alias = candidate.aliases?.find(text => matchWords(toLabelWords(text), queryWords));
+    return alias ? [{ candidate, highlights: [] as [number, number][], detail: `"${alias}"` }] : [];
+  });
+
+  const rank = ({ highlights }: (typeof matches)[number]) => (highlights[0]?.[0] === 0 ? 0 : 1);
+  const sorted = matches.sort((a, b) =>
+    rank(a) - rank(b) ||
+    (b.candidate.count || 0) - (a.candidate.count || 0) ||
+    a.candidate.label.length - b.candidate.label.length ||
+    a.candidate.label.localeCompare(b.candidate.label)
+  );
+
+  return (Object.keys(SUGGESTION_LIMITS) as SearchSuggestionType[]).flatMap(type =>
+    sorted
+      .filter(({ candidate }) => candidate.type === type)
+      .slice(0, SUGGESTION_LIMITS[type])
+      .map(({ candidate, highlights, detail }) => ({
+        type,
+        value: candidate.value,
+        label: candidate.label,
+        detail,
+        icon: candidate.icon,
+        highlights,
+      }))
+  );
+};
@@ -0,0 +1,146 @@
+import { Recipe } from '@/types/recipe';
+import { IngredientUnit, ParsedIngredient } from '@/types/ingredient';
+import { getParsedIngredients } from './ingredientParser';
+
+// Fractions a home cook can actually measure, with the glyph we display
+const KITCHEN_FRACTIONS: { value: number; glyph: string }[] = [
+  { value: 0, glyph: '' },
+  { value: 1 / 8, glyph: '⅛' },
+  { value: 1 / 4, glyph: '¼' },
+  { value: 1 / 3, glyph: '⅓' },
+  { value: 1 / 2, glyph: '½' },
+  { value: 2 / 3, glyph: '⅔' },
+  { value: 3 / 4, glyph: '¾' },
+  { value: 1, glyph: '' },
+];
+
+// Units measured on a scale or jug, where fractions look odd ("⅓ g")
+const METRIC_UNITS: IngredientUnit[] = ['g', 'kg', 'ml', 'l'];
+
+const PLURAL_UNITS: Partial<Record<IngredientUnit, string>> = {
+  cup: 'cups',
+  pinch: 'pinches',
+  dash: 'dashes',
+  clove: 'cloves',
+  slice: 'slices',
+  stalk: 'stalks',
+  sprig: 'sprigs',
+  scoop: 'scoops',
+  bottle: 'bottles',
+  can: 'cans',
+  bunch: 'bunches',
+  handful: 'handfuls',
+  stick: 'sticks',
+  sheet: 'sheets',
+  piece: 'pieces',
+};
+
+const formatMetric = (value: number): string => {
+  if (value >= 100) return String(Math.round(value / 10) * 10);
+  if (value >= 20) return String(Math.round(value / 5) * 5);
+  if (value >= 1) return String(Math.round(value));
+  return String(Math.round(value * 10) / 10);
+};
+
+// Rounds to the nearest kitchen fraction and renders it, e.g. 1.3 -> "1⅓"
+export const formatQuantity = (value: number, unit: IngredientUnit | null = null): string => {
+  if (unit && METRIC_UNITS.includes(unit)) {
+    return formatMetric(value);
+  }
+  if (value >= 10) {
+    return String(Math.round(value));
+  }
+
+  let whole = Math.floor(value);
+  const remainder = value - whole;
+  const nearest = KITCHEN_FRACTIONS.reduce((best, fraction) =>
+    Math.abs(fraction.value - remainder) < Math.abs(best.value - remainder) ? fraction : best
+  );
+
+  if (nearest.value === 1) {
+    whole += 1;
+  }
+  // Never round a real amount down to nothing
+  if (whole === 0 && !nearest.glyph) {
+    return KITCHEN_FRACTIONS[1].glyph;
+  }
+
+  return `${whole > 0 ? whole : ''}${nearest.glyph}`;
+};
+
+export const formatUnit = (unit: IngredientUnit, quantity: number | null): string => {
+  if (quantity !== null && quantity > 1 && PLURAL_UNITS[unit]) {
+    return PLURAL_UNITS[unit] as string;
+  }
+  return unit;
+};
+
+export const scaleIngredient = (ingredient: ParsedIngredient, factor: number): ParsedIngredient => {
+  if (ingredient.quantity === null || factor === 1) {
+    return ingredient;
+  }
+
+  const scaled: ParsedIngredient = {
+    ...ingredient,
+    quantity: ingredient.quantity * factor,
+  };
+  if (ingredient.quantityMax !== undefined) {
+    scaled.quantityMax = ingredient.quantityMax * factor;
+  }
+  return scaled;
+};
+
+// Renders a parsed ingredient back into a display line such as "1½ cups flour, sifted"
+export const formatIngredient = (ingredient: ParsedIngredient): string => {
+  if (ingredient.quantity === null && ingredient.unit === null) {
+    return ingredient.original;
+  }
+
+  const parts: string[] = [];
+  if (ingredient.quantity !== null) {
+    const amount = formatQuantity(ingredient.quantity, ingredient.unit);
+    parts.push(
+      ingredient.quantityMax !== undefined
+        ? `${amount}-${formatQuantity(ingredient.quantityMax, ingredient.unit)}`
+        : amount
+    );
+  }
+  if (ingredient.unit) {
+    const unitText = formatUnit(ingredient.unit, ingredient.quantityMax ?? ingredient.quantity);
+    parts.push(ingredient.quantity === null ? `${unitText} of` : unitText);
+  }
+  parts.push(ingredient.item);
+
+  let line = parts.join(' ');
+  if (ingredient.quantity === null && ingredient.unit) {
+    line = line.charAt(0).toUpperCase() + line.slice(1);
+  }
+  if (ingredient.preparation) {
+    line += `, ${ingredient.preparation}`;
+  }
+  if (ingredient.optional) {
+    line += ' (optional)';
+  }
+  return line;
+};
+
+// Returns a copy of the recipe with every measurable ingredient rescaled for the given servings.
+// Unit-less items without a quantity ("Fresh mint leaves") keep their original text.
+export const scaleRecipe = (recipe: Recipe, servings: number): Recipe => {
+  if (!recipe.servings || servings === recipe.servings) {
+    return recipe;
+  }
+
+  const factor = servings / recipe.servings;
+  const ingredients = getParsedIngredients(recipe).map(ingredient =>
+    ingredient.quantity === null
+      ? ingredient.original
+      : formatIngredient(scaleIngredient(ingredient, factor))
+  );
+
+  return {
+    ...recipe,
+    ingredients,
+    servings,
+  };
+};
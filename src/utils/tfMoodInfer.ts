@@ -1,40 +1,63 @@
+// Infers moods from free text with a small TensorFlow.js classifier, trained offline by
+// scripts/train-mood-model.ts. TensorFlow.js and the model are only fetched the first time
+// a sentence is classified. This is one of the strategies in ./moodInference.
+import type { LayersModel, Tensor } from '@tensorflow/tfjs';
+import { MoodId } from '@/types/recipe';
+import { MoodModelMetadata, MoodProbability } from '@/types/moodClassifier';
+import { MOOD_MODEL_PATH, encodeMoodFeatures, toMoodFeatures } from './moodFeatures';
 
-// Handles mood inference from user input using TensorFlow.js (mock implementation)
-import * as tf from '@tensorflow/tfjs';
-import { moods } from '@/data/moods/moodsList';
-
-// MOCK: Simulates text classification API with a "model"
-// Replace with real model and vocabulary in production!
-const moodKeywords = [
-  { mood: 'happy', keywords: ['happy', 'joy', 'awesome', 'excited'] },
-  { mood: 'sad', keywords: ['sad', 'unhappy', 'depressed', 'cry'] },
-  { mood: 'romantic', keywords: ['romantic', 'love', 'date', 'anniversary'] },
-  { mood: 'comforting', keywords: ['comfort', 'cozy', 'relax', 'warm'] },
-  { mood: 'adventurous', keywords: ['adventure', 'explore', 'new', 'exotic'] },
-  { mood: 'nostalgic', keywords: ['nostalgic', 'childhood', 'memory'] },
-  { mood: 'energetic', keywords: ['energetic', 'workout', 'energy', 'power'] },
-  { mood: 'stressed', keywords: ['stress', 'anxious', 'overwhelm', 'pressure'] },
-  { mood: 'celebratory', keywords: ['party', 'celebrate', 'occasion'] },
-  { mood: 'tired', keywords: ['tired', 'fatigue', 'sleepy', 'exhausted'] },
-  { mood: 'indulgent', keywords: ['indulge', 'treat', 'decadent', 'spoil'] },
-  { mood: 'mindful', keywords: ['healthy', 'mindful', 'nutritious', 'diet'] },
-  { mood: 'social', keywords: ['social', 'friends', 'gathering'] },
-  { mood: 'creative', keywords: ['creative', 'artistic', 'unique'] },
-  { mood: 'traditional', keywords: ['classic', 'heritage', 'tradition'] },
-  { mood: 'refreshed', keywords: ['refresh', 'light meal', 'fresh'] },
-];
-export async function tfInferMoodFromSentence(sentence: string): Promise<string | null> {
-  // Lowercase, simple splitting
-  const text = sentence.toLowerCase();
-  for (const mk of moodKeywords) {
-    for (const kw of mk.keywords) {
-      if (text.includes(kw)) return mk.mood;
-    }
-  }
-  // Could use TensorFlow model here for deeper inference!
-  return null;
-}
+type TensorFlow = typeof import('@tensorflow/tfjs');
+
+// Where the network comes from: the app fetches it, scripts read it from disk
+export type MoodModelSource = (tf: TensorFlow) => Promise<LayersModel>;
 
-export function getMoodMeta(moodId: string) {
-  return moods.find((m) => m.id === moodId) || null;
+interface MoodModel {
+  tf: TensorFlow;
+  model: LayersModel;
+  vocabulary: Map<string, number>;
+  labels: MoodId[];
 }
+
+const fetchMoodModel: MoodModelSource = tf => tf.loadLayersModel(`${import.meta.env.BASE_URL}${MOOD_MODEL_PATH}`);
+
+// Returns a classifier giving the model's probability for every mood, most likely first. It
+// gives none when the model can't be loaded or knows none of the sentence's words.
+export const createMoodClassifier = (source: MoodModelSource = fetchMoodModel) => {
+  // Loaded once and shared; null once loading has failed, so it isn't retried on every keystroke
+  let moodModel: Promise<MoodModel | null> | null = null;
+
+  const loadMoodModel = (): Promise<MoodModel | null> => {
+    moodModel = moodModel || (async () => {
+      try {
+        const tf = await import('@tensorflow/tfjs');
+        const model = await source(tf);
+        const { vocabulary, labels } = model.getUserDefinedMetadata() as MoodModelMetadata;
+        return { tf, model, vocabulary: new Map(vocabulary.map((feature, index) => [feature, index])), labels };
+      } catch (error) {
+        console.warn('Mood model failed to load:', error);
+        return null;
+      }
+    })();
+    return moodModel;
+  };
+
+  return async (sentence: string): Promise<MoodProbability[]> => {
+    const loaded = await loadMoodModel();
+    const features = toMoodFeatures(sentence);
+    if (!loaded || !features.some(feature => loaded.vocabulary.has(feature))) {
+      return [];
+    }
+
+    const { tf, model, vocabulary, labels } = loaded;
+    const probabilities = tf.tidy(() => {
+      const input = tf.tensor2d(encodeMoodFeatures(features, vocabulary), [1, vocabulary.size]);
+      return (model.predict(input) as Tensor).dataSync();
+    });
+    return labels
+      .map((mood, index) => ({ mood, probability: probabilities[index] }))
+      .sort((a, b) => b.probability - a.probability);
+  };
+};
+
+// The app's classifier, reading the model from public/
+export const classifyMood = createMoodClassifier();
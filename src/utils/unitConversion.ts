@@ -0,0 +1,223 @@
+import { Recipe } from '@/types/recipe';
+import { IngredientUnit, ParsedIngredient, UnitSystem } from '@/types/ingredient';
+import { getParsedIngredients } from './ingredientParser';
+import { formatIngredient } from './servingScaler';
+
+// Millilitres per unit
+const VOLUME_IN_ML: Partial<Record<IngredientUnit, number>> = {
+  tsp: 4.92892,
+  tbsp: 14.7868,
+  cup: 236.588,
+  'fl oz': 29.5735,
+  ml: 1,
+  l: 1000,
+};
+
+// Grams per unit
+const WEIGHT_IN_G: Partial<Record<IngredientUnit, number>> = {
+  g: 1,
+  kg: 1000,
+  oz: 28.3495,
+  lb: 453.592,
+};
+
+// Grams per US cup, used to move between cups and grams. Matched against the
+// ingredient name, longest key first, so "brown sugar" beats "sugar".
+const DENSITY_G_PER_CUP: Record<string, number> = {
+  'all-purpose flour': 125,
+  'almond flour': 96,
+  'bread flour': 127,
+  'gram flour': 92,
+  flour: 125,
+  'brown sugar': 213,
+  'powdered sugar': 120,
+  sugar: 200,
+  butter: 227,
+  honey: 340,
+  'maple syrup': 315,
+  'peanut butter': 258,
+  'heavy cream': 238,
+  cream: 238,
+  milk: 245,
+  yogurt: 245,
+  water: 237,
+  broth: 240,
+  stock: 240,
+  'olive oil': 216,
+  oil: 218,
+  rice: 185,
+  'rolled oats': 90,
+  oats: 90,
+  'cocoa powder': 85,
+  'chocolate chips': 170,
+  'cheddar cheese': 113,
+  parmesan: 100,
+  cheese: 113,
+  berries: 145,
+  'pomegranate seeds': 174,
+  'chia seeds': 160,
+  lentils: 192,
+  chickpeas: 164,
+  breadcrumbs: 108,
+  'egg noodles': 38,
+  macaroni: 105,
+};
+
+const DENSITY_KEYS = Object.keys(DENSITY_G_PER_CUP).sort((a, b) => b.length - a.length);
+
+// Poured rather than weighed, so metric cooks get millilitres for these
+const LIQUID_REGEX = /\b(milk|water|broth|stock|cream|oil|juice|wine|vinegar|syrup)\b/i;
+
+export const getDensity = (item: string): number | null => {
+  const name = item.toLowerCase();
+  const key = DENSITY_KEYS.find(candidate => name.includes(candidate));
+  return key ? DENSITY_G_PER_CUP[key] : null;
+};
+
+const withAmount = (
+  ingredient: ParsedIngredient,
+  unit: IngredientUnit,
+  convert: (value: number) => number
+): ParsedIngredient => {
+  const converted: ParsedIngredient = {
+    ...ingredient,
+    quantity: convert(ingredient.quantity as number),
+    unit,
+  };
+  if (ingredient.quantityMax !== undefined) {
+    converted.quantityMax = convert(ingredient.quantityMax);
+  }
+  return converted;
+};
+
+// Picks the spoon or cup a US cook would reach for
+const toImperialVolume = (ingredient: ParsedIngredient, ml: number): ParsedIngredient => {
+  const unit: IngredientUnit = ml < 14 ? 'tsp' : ml < 59 ? 'tbsp' : 'cup';
+  const perUnit = VOLUME_IN_ML[unit] as number;
+  return withAmount(ingredient, unit, value => (value * ml) / (ingredient.quantity as number) / perUnit);
+};
+
+const toMetric = (ingredient: ParsedIngredient): ParsedIngredient => {
+  const { unit, item } = ingredient;
+
+  if (unit === 'cup' || unit === 'fl oz') {
+    const mlPerUnit = VOLUME_IN_ML[unit] as number;
+    const density = LIQUID_REGEX.test(item) ? null : getDensity(item);
+    if (density) {
+      const gramsPerUnit = (mlPerUnit / (VOLUME_IN_ML.cup as number)) * density;
+      return withAmount(ingredient, 'g', value => value * gramsPerUnit);
+    }
+    const ml = (ingredient.quantity as number) * mlPerUnit;
+    return ml >= 1000
+      ? withAmount(ingredient, 'l', value => (value * mlPerUnit) / 1000)
+      : withAmount(ingredient, 'ml', value => value * mlPerUnit);
+  }
+
+  if (unit === 'oz' || unit === 'lb') {
+    const gramsPerUnit = WEIGHT_IN_G[unit] as number;
+    const grams = (ingredient.quantity as number) * gramsPerUnit;
+    return grams >= 1000
+      ? withAmount(ingredient, 'kg', value => (value * gramsPerUnit) / 1000)
+      : withAmount(ingredient, 'g', value => value * gramsPerUnit);
+  }
+
+  return ingredient;
+};
+
+const toImperial = (ingredient: ParsedIngredient): ParsedIngredient => {
+  const { unit, item } = ingredient;
+
+  if (unit === 'g' || unit === 'kg') {
+    const gramsPerUnit = WEIGHT_IN_G[unit] as number;
+    const density = getDensity(item);
+    if (density) {
+      const ml = ((ingredient.quantity as number) * gramsPerUnit / density) * (VOLUME_IN_ML.cup as number);
+      return toImperialVolume(ingredient, ml);
+    }
+    const ounces = (ingredient.quantity as number) * gramsPerUnit / (WEIGHT_IN_G.oz as number);
+    return ounces >= 16
+      ? withAmount(ingredient, 'lb', value => value * gramsPerUnit / (WEIGHT_IN_G.lb as number))
+      : withAmount(ingredient, 'oz', value => value * gramsPerUnit / (WEIGHT_IN_G.oz as number));
+  }
+
+  if (unit === 'ml' || unit === 'l') {
+    return toImperialVolume(ingredient, (ingredient.quantity as number) * (VOLUME_IN_ML[unit] as number));
+  }
+
+  return ingredient;
+};
+
+// Weight in grams for ingredients measured by weight or volume, or null for counts and
+// unit-less items. Volumes without a known density are treated as water.
+export const getWeightInGrams = (ingredient: ParsedIngredient): number | null => {
+  const { quantity, unit, item } = ingredient;
+  if (quantity === null || unit === null) {
+    return null;
+  }
+  if (WEIGHT_IN_G[unit]) {
+    return quantity * WEIGHT_IN_G[unit];
+  }
+  if (VOLUME_IN_ML[unit]) {
+    const gramsPerMl = (getDensity(item) ?? VOLUME_IN_ML.cup) / VOLUME_IN_ML.cup;
+    return quantity * VOLUME_IN_ML[unit] * gramsPerMl;
+  }
+  return null;
+};
+
+// Converts a single ingredient into the requested system. Spoons, counts and
+// unit-less items are shared by both systems and come back untouched.
+export const convertIngredient = (ingredient: ParsedIngredient, system: UnitSystem): ParsedIngredient => {
+  if (ingredient.quantity === null || ingredient.unit === null) {
+    return ingredient;
+  }
+  return system === 'metric' ? toMetric(ingredient) : toImperial(ingredient);
+};
+
+export const fahrenheitToCelsius = (fahrenheit: number): number => (fahrenheit - 32) * 5 / 9;
+
+export const celsiusToFahrenheit = (celsius: number): number => celsius * 9 / 5 + 32;
+
+// Ovens are marked in steps of 5°C and 25°F
+const roundOvenTemperature = (value: number, scale: 'C' | 'F'): number => {
+  const step = scale === 'F' && value >= 200 ? 25 : 5;
+  return Math.round(value / step) * step;
+};
+
+const DUAL_TEMPERATURE_REGEX = /(\d{2,3})\s*°\s*([CF])\s*\(\s*(\d{2,3})\s*°\s*([CF])\s*\)/gi;
+const TEMPERATURE_REGEX = /(\d{2,3})\s*(?:°\s*|degrees?\s+)([CF])(?:ahrenheit|elsius)?\b/gi;
+
+// Rewrites temperatures in free text ("bake at 350°F") into the requested system
+export const convertTemperaturesInText = (text: string, system: UnitSystem): string => {
+  const target = system === 'metric' ? 'C' : 'F';
+
+  // "220°C (428°F)" already carries both; keep only the one we want
+  const collapsed = text.replace(DUAL_TEMPERATURE_REGEX, (match, first, firstScale, second, secondScale) => {
+    if (firstScale.toUpperCase() === target) return `${first}°${target}`;
+    if (secondScale.toUpperCase() === target) return `${second}°${target}`;
+    return match;
+  });
+
+  return collapsed.replace(TEMPERATURE_REGEX, (match, degrees, scale) => {
+    const source = scale.toUpperCase();
+    if (source === target) {
+      return match;
+    }
+    const value = Number(degrees);
+    const converted = target === 'C' ? fahrenheitToCelsius(value) : celsiusToFahrenheit(value);
+    return `${roundOvenTemperature(converted, target)}°${target}`;
+  });
+};
+
+// Returns a copy of the recipe with ingredients and instruction temperatures in the requested system
+export const convertRecipeUnits = (recipe: Recipe, system: UnitSystem): Recipe => {
+  const ingredients = getParsedIngredients(recipe).map(ingredient => {
+    const converted = convertIngredient(ingredient, system);
+    return converted === ingredient ? ingredient.original : formatIngredient(converted);
+  });
+
+  return {
+    ...recipe,
+    ingredients,
+    instructions: recipe.instructions.map(step => convertTemperaturesInText(step, system)),
+  };
+};
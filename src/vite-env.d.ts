@@ -47,3 +47,11 @@ interface Window {
   SpeechRecognition: typeof SpeechRecognition;
   webkitSpeechRecognition: typeof SpeechRecognition;
 }
+
+// Generated by plugins/recipeCatalog.ts from the files in src/data/recipes/catalog
+declare module 'virtual:recipe-catalog' {
+  // Mood id -> URL of that mood's recipes as a JSON array
+  export const moodFiles: Partial<Record<import('@/types/recipe').MoodId, string>>;
+  // Recipe id -> the mood file it is in
+  export const recipeMoods: Record<string, import('@/types/recipe').MoodId>;
+}